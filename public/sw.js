@@ -0,0 +1,128 @@
+/**
+ * Offline cache for analysis models (face-api weights and MediaPipe Pose).
+ *
+ * /models/manifest.json lists every model file with its SHA-256 and a
+ * version. Files are cached per manifest version: on install the files
+ * marked `precache` are downloaded, checked and stored, and later requests
+ * are served from the cache. A file whose hash doesn't match the manifest is
+ * never cached or served. Everything outside /models goes to the network as
+ * usual.
+ */
+
+const MANIFEST_URL = '/models/manifest.json';
+const CACHE_PREFIX = 'models-';
+
+const toHex = (buffer) =>
+Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const deleteStaleCaches = async (version) => {
+  const keys = await caches.keys();
+  await Promise.all(keys.
+  filter((key) => key.startsWith(CACHE_PREFIX) && key !== CACHE_PREFIX + version).
+  map((key) => caches.delete(key)));
+};
+
+// Network first so new versions are picked up, the cached copy when offline
+const loadManifest = async () => {
+  try {
+    const response = await fetch(MANIFEST_URL, { cache: 'no-cache' });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    const manifest = await response.clone().json();
+    const cache = await caches.open(CACHE_PREFIX + manifest.version);
+    await cache.put(MANIFEST_URL, response);
+    await deleteStaleCaches(manifest.version);
+    return manifest;
+  } catch (error) {
+    const cached = await caches.match(MANIFEST_URL);
+    if (!cached) throw error;
+    return cached.json();
+  }
+};
+
+// Fetched once per service worker start
+let manifestRequest = null;
+const getManifest = () => {
+  if (!manifestRequest) {
+    manifestRequest = loadManifest().catch((error) => {
+      manifestRequest = null;
+      throw error;
+    });
+  }
+  return manifestRequest;
+};
+
+const fetchVerified = async (manifest, path) => {
+  const response = await fetch(path, { cache: 'no-cache' });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} for ${path}`);
+  }
+
+  const data = await response.arrayBuffer();
+  const actual = toHex(await crypto.subtle.digest('SHA-256', data));
+  if (actual !== manifest.files[path].sha256) {
+    throw new Error(`Model file ${path} failed its integrity check`);
+  }
+  return new Response(data, { headers: response.headers });
+};
+
+const serveModel = async (request, path) => {
+  let manifest;
+  try {
+    manifest = await getManifest();
+  } catch {
+    return fetch(request);
+  }
+  if (!manifest.files[path]) {
+    return fetch(request);
+  }
+
+  const cache = await caches.open(CACHE_PREFIX + manifest.version);
+  const cached = await cache.match(path);
+  if (cached) return cached;
+
+  try {
+    const response = await fetchVerified(manifest, path);
+    await cache.put(path, response.clone());
+    return response;
+  } catch (error) {
+    console.error(error);
+    return new Response(null, { status: 502, statusText: 'Model integrity check failed' });
+  }
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const manifest = await loadManifest();
+    const cache = await caches.open(CACHE_PREFIX + manifest.version);
+    const paths = Object.keys(manifest.files).filter((path) => manifest.files[path].precache);
+
+    // Best effort: anything missed is cached the first time it's used
+    await Promise.allSettled(paths.map(async (path) => {
+      if (await cache.match(path)) return;
+      await cache.put(path, await fetchVerified(manifest, path));
+    }));
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('fetch', (event) => {
+  const url = new URL(event.request.url);
+  if (event.request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  if (url.pathname === MANIFEST_URL) {
+    event.respondWith(getManifest().
+    then((manifest) => new Response(JSON.stringify(manifest), { headers: { 'Content-Type': 'application/json' } })).
+    catch(() => fetch(event.request)));
+    return;
+  }
+
+  if (url.pathname.startsWith('/models/')) {
+    event.respondWith(serveModel(event.request, url.pathname));
+  }
+});
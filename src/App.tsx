@@ -14,6 +14,8 @@ import { CreateEditPage } from "./routes/create-edit-page";
 import { MockLoadPage } from "./routes/mock-load-page";
 import { MockInterviewPage } from "./routes/mock-interview-page";
 import { Feedback } from "./routes/feedback";
+import { Progress } from "./routes/progress";
+import { Calibration } from "./routes/calibration";
 import { Mission } from "./routes/mission";
 import { Contact } from "./routes/contact";
 import { WebsiteFeedback } from "./routes/website-feedback";
@@ -57,6 +59,8 @@ const App = () => {
               element={<MockInterviewPage />} />
 
             <Route path="feedback/:interviewId" element={<Feedback />} />
+            <Route path="progress" element={<Progress />} />
+            <Route path="calibration" element={<Calibration />} />
           </Route>
         </Route>
 
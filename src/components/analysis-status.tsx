@@ -0,0 +1,61 @@
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import {
+  ANALYZER_LABELS,
+  AnalysisManager,
+  AnalyzerName,
+  AnalyzerState,
+  AnalyzerStatus } from
+"@/lib/analysis";
+
+interface AnalysisStatusProps {
+  analysisManager: AnalysisManager;
+  className?: string;
+}
+
+const STATUS_STYLES: Record<AnalyzerStatus, string> = {
+  idle: "bg-gray-100 text-gray-600",
+  loading: "bg-blue-100 text-blue-700",
+  calibrating: "bg-blue-100 text-blue-700",
+  running: "bg-green-100 text-green-700",
+  degraded: "bg-yellow-100 text-yellow-800",
+  failed: "bg-red-100 text-red-700"
+};
+
+/**
+ * Live per-analyzer status, updated from the manager's events.
+ */
+export const AnalysisStatus = ({ analysisManager, className }: AnalysisStatusProps) => {
+  const [states, setStates] = useState<Record<AnalyzerName, AnalyzerState>>(
+    () => analysisManager.getAnalyzerStates()
+  );
+
+  useEffect(() => {
+    setStates(analysisManager.getAnalyzerStates());
+
+    return analysisManager.events.on("statusChange", (event) => {
+      setStates((prev) => ({ ...prev, [event.analyzer]: event.state }));
+    });
+  }, [analysisManager]);
+
+  const entries = Object.entries(states) as Array<[AnalyzerName, AnalyzerState]>;
+  if (entries.every(([, state]) => state.status === "idle")) {
+    return null;
+  }
+
+  return (
+    <div className={cn("flex flex-wrap items-center justify-center gap-2", className)}>
+      {entries.map(([analyzer, state]) =>
+      <Badge
+        key={analyzer}
+        variant="outline"
+        title={state.message}
+        className={cn("border-transparent capitalize", STATUS_STYLES[state.status])}>
+
+          {ANALYZER_LABELS[analyzer]}: {state.status}
+        </Badge>
+      )}
+    </div>);
+
+};
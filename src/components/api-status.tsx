@@ -19,7 +19,7 @@ export const APIStatus = ({ className = "" }: APIStatusProps) => {
 
     try {
       // Use a minimal message to reduce quota consumption
-      await chatSession.sendMessage('hi');
+      await chatSession.sendMessage('hi', { operation: 'healthCheck' });
       setStatus('healthy');
 
       const modelInfo = chatSession.getCurrentModelInfo();
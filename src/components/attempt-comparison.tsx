@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { GitCompare } from "lucide-react";
+import { UserAnswer } from "@/types";
+import { attemptNumber, compareAttempts, diffWords } from "@/lib/attempts";
+import { cn } from "@/lib/utils";
+import { Button } from "./ui/button";
+import { Card, CardTitle } from "./ui/card";
+
+interface AttemptComparisonProps {
+  /** Attempts at one question, in attempt order. */
+  attempts: UserAnswer[];
+}
+
+/**
+ * Two attempts at the same question side by side: transcripts with the
+ * words that changed highlighted, and how the rating and delivery moved.
+ */
+export const AttemptComparison = ({ attempts }: AttemptComparisonProps) => {
+  const [beforeId, setBeforeId] = useState(attempts[0].id);
+  const [afterId, setAfterId] = useState(attempts[attempts.length - 1].id);
+
+  const before = attempts.find((attempt) => attempt.id === beforeId) ?? attempts[0];
+  const after = attempts.find((attempt) => attempt.id === afterId) ?? attempts[attempts.length - 1];
+  const parts = diffWords(before.user_ans, after.user_ans);
+  const changes = compareAttempts(before, after).filter((change) => change.before !== null || change.after !== null);
+
+  const picker = (selected: string, onSelect: (id: string) => void) =>
+  <div className="flex flex-wrap gap-1">
+      {attempts.map((attempt) =>
+    <Button
+      key={attempt.id}
+      type="button"
+      size={"sm"}
+      variant={attempt.id === selected ? "default" : "outline"}
+      onClick={() => onSelect(attempt.id)}>
+
+          #{attemptNumber(attempt)}
+        </Button>
+    )}
+    </div>;
+
+
+  return (
+    <Card className="border-none space-y-4 p-4 bg-indigo-50 rounded-lg shadow-md">
+      <CardTitle className="flex items-center text-lg">
+        <GitCompare className="mr-2 text-indigo-600" />
+        Compare Attempts
+      </CardTitle>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-2 text-sm font-medium">
+            <span>Attempt {attemptNumber(before)} ({before.rating}/10)</span>
+            {picker(before.id, setBeforeId)}
+          </div>
+          <p className="text-sm text-gray-700 leading-relaxed">
+            {parts.filter((part) => part.kind !== "added").map((part, i) =>
+            <span key={i} className={cn(part.kind === "removed" && "bg-red-100 line-through")}>
+                {part.text}{" "}
+              </span>
+            )}
+          </p>
+        </div>
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-2 text-sm font-medium">
+            <span>Attempt {attemptNumber(after)} ({after.rating}/10)</span>
+            {picker(after.id, setAfterId)}
+          </div>
+          <p className="text-sm text-gray-700 leading-relaxed">
+            {parts.filter((part) => part.kind !== "removed").map((part, i) =>
+            <span key={i} className={cn(part.kind === "added" && "bg-emerald-100")}>
+                {part.text}{" "}
+              </span>
+            )}
+          </p>
+        </div>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-muted-foreground">
+            <th className="py-1">Metric</th>
+            <th>Attempt {attemptNumber(before)}</th>
+            <th>Attempt {attemptNumber(after)}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {changes.map((change) =>
+          <tr key={change.label} className="border-t">
+              <td className="py-1">{change.label}</td>
+              <td>{change.before === null ? "-" : `${change.before}${change.unit}`}</td>
+              <td
+              className={cn(
+                change.improved === true && "text-emerald-600 font-medium",
+                change.improved === false && "text-red-500 font-medium"
+              )}>
+
+                {change.after === null ? "-" : `${change.after}${change.unit}`}
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </Card>);
+
+};
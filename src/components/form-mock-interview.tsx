@@ -2,7 +2,7 @@ import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { FormProvider, useForm } from "react-hook-form";
 
-import { Interview, CVData } from "@/types";
+import { Interview, CVData, InterviewQuestion, QuestionType } from "@/types";
 
 import { CustomBreadCrumb } from "./custom-bread-crumb";
 import { useEffect, useState } from "react";
@@ -23,7 +23,31 @@ import {
 "./ui/form";
 import { Input } from "./ui/input";
 import { Textarea } from "./ui/textarea";
-import { chatSession } from "@/scripts";
+import { GeneratedQuestion, parsePartialQuestions } from "@/scripts/structured";
+import { generateQuestions, regenerateQuestion } from "@/scripts/questions";
+import { judgeSameQuestions } from "@/scripts/duplicates";
+import {
+  DEFAULT_QUESTION_TYPE,
+  DIFFICULTIES,
+  QUESTION_TYPE_LABELS,
+  QUESTION_TYPES,
+  difficultyForExperience,
+  planQuestionMix,
+  remainingQuestionMix } from
+"@/lib/question-types";
+import {
+  BankQuestion,
+  findDuplicates,
+  fitsInterview,
+  isNearDuplicate,
+  loadBankQuestions,
+  pickBankQuestions,
+  recordBankUsage,
+  saveToBank,
+  setBankFavorite,
+  shareToGlobalBank,
+  toInterviewQuestion } from
+"@/lib/question-bank";
 import {
   addDoc,
   collection,
@@ -34,6 +58,8 @@ import {
 "firebase/firestore";
 import { db } from "@/config/firebase.config";
 import { CVUpload } from "./cv-upload";
+import { QuestionBuilder } from "./question-builder";
+import { TIMING_PRESETS } from "@/lib/timing";
 
 interface FormMockInterviewProps {
   initialData: Interview | null;
@@ -52,23 +78,71 @@ const formSchema = z.object({
   numberOfQuestions: z.coerce.
   number().
   min(1, "Must have at least 1 question").
-  max(10, "Maximum 10 questions allowed")
+  max(10, "Maximum 10 questions allowed"),
+  maxFollowUpDepth: z.coerce.
+  number().
+  min(0, "Follow-up depth cannot be negative").
+  max(3, "Maximum follow-up depth is 3"),
+  bankQuestions: z.coerce.
+  number().
+  min(0, "Bank questions cannot be negative").
+  max(10, "Maximum 10 questions allowed"),
+  questionTypes: z.
+  array(z.enum(QUESTION_TYPES)).
+  min(1, "Pick at least one question type"),
+  difficulty: z.enum(["auto", ...DIFFICULTIES]),
+  ratingSamples: z.coerce.
+  number().
+  int().
+  min(1, "At least one rating is needed").
+  max(5, "Maximum 5 ratings per answer"),
+  timing: z.
+  object({
+    thinkSeconds: z.coerce.number().int().min(0, "Think time cannot be negative").max(300, "Maximum 5 minutes of think time"),
+    answerSeconds: z.coerce.number().int().min(15, "Allow at least 15 seconds per answer").max(900, "Maximum 15 minutes per answer"),
+    totalSeconds: z.coerce.number().int().min(0, "The interview budget cannot be negative").max(3 * 60 * 60, "Maximum 3 hours")
+  }).
+  nullable()
 });
 
 type FormData = z.infer<typeof formSchema>;
 
+const DEFAULT_QUESTION_TYPES: QuestionType[] = ["coding-concept", "system-design", "behavioral"];
+
+const SCORING_MODES = [
+{ samples: 1, label: "Standard" },
+{ samples: 3, label: "Consistent (3 ratings)" },
+{ samples: 5, label: "Most consistent (5 ratings)" }];
+
+
+const resolveDifficulty = (data: FormData) =>
+data.difficulty === "auto" ? difficultyForExperience(data.experience) : data.difficulty;
+
+const typeOf = (item: InterviewQuestion) => item.type ?? DEFAULT_QUESTION_TYPE;
+
 export const FormMockInterview = ({ initialData }: FormMockInterviewProps) => {
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
     defaultValues: initialData || {
-      numberOfQuestions: 5
+      numberOfQuestions: 5,
+      maxFollowUpDepth: 0,
+      bankQuestions: 0,
+      questionTypes: DEFAULT_QUESTION_TYPES,
+      difficulty: "auto",
+      ratingSamples: 1,
+      timing: null
     }
   });
 
   const { isValid, isSubmitting } = form.formState;
+  const numberOfQuestions = Number(form.watch("numberOfQuestions"));
   const [loading, setLoading] = useState(false);
   const [deleteLoading, setDeleteLoading] = useState(false);
   const [cvData, setCvData] = useState<CVData | null>(null);
+  const [previewQuestions, setPreviewQuestions] = useState<GeneratedQuestion[]>([]);
+  const [questions, setQuestions] = useState<InterviewQuestion[]>(initialData?.questions ?? []);
+  const [bank, setBank] = useState<BankQuestion[]>([]);
+  const [busyIndex, setBusyIndex] = useState<number | null>(null);
   const navigate = useNavigate();
   const { userId } = useAuth();
 
@@ -82,85 +156,122 @@ export const FormMockInterview = ({ initialData }: FormMockInterviewProps) => {
   { title: "Updated..!", description: "Changes saved successfully..." } :
   { title: "Created..!", description: "New Mock Interview created..." };
 
-  const cleanAiResponse = (responseText: string) => {
-    let cleanText = responseText.trim();
-    cleanText = cleanText.replace(/(json|```|`)/g, "");
-    const jsonArrayMatch = cleanText.match(/\[.*\]/s);
-    if (jsonArrayMatch) {
-      cleanText = jsonArrayMatch[0];
-    } else {
-      throw new Error("No JSON array found in response");
-    }
+  const generateFresh = async (data: FormData, chosen: InterviewQuestion[], mix: QuestionType[]) => {
+    const taken = chosen.map((item) => item.question);
+    const fresh: InterviewQuestion[] = [];
+
     try {
-      return JSON.parse(cleanText);
+      for (let attempt = 1; attempt <= 2 && fresh.length < mix.length; attempt++) {
+        const generated = await generateQuestions(
+          { ...data, difficulty: resolveDifficulty(data), cvData, avoid: taken },
+          remainingQuestionMix(mix, fresh.map(typeOf)),
+          attempt === 1 ? (text) => setPreviewQuestions(parsePartialQuestions(text)) : undefined
+        );
+        // The retry keeps whatever it gets rather than come up short
+        const duplicates = attempt === 1 ?
+        await findDuplicates(generated.map((item) => item.question), taken, judgeSameQuestions) :
+        [];
+        generated.forEach((item, i) => {
+          if (attempt === 1 && (duplicates[i] >= 0 || isNearDuplicate(item.question, taken))) return;
+          fresh.push(item);
+          taken.push(item.question);
+        });
+      }
+      return fresh;
     } catch (error) {
-      throw new Error("Invalid JSON format: " + (error as Error)?.message);
+      console.error('AI response generation failed:', error);
+      handleAPIError(error, "Question generation");
+      throw new Error(`Failed to generate questions: ${getErrorMessage(error)}`);
     }
   };
 
-  const generateAiResponse = async (data: FormData) => {
-    const prompt = `
-        As an experienced prompt engineer, generate a JSON array containing ${data.numberOfQuestions} technical interview questions along with detailed answers based on the following job information. Each object in the array should have the fields "question" and "answer", formatted as follows:
+  /**
+   * Fill the interview: locked questions stay, favorites and other bank
+   * questions come next, and the AI writes the rest. Each step only fills
+   * the question types still open in the planned mix.
+   */
+  const onSubmit = async (data: FormData) => {
+    if (!userId) return;
 
-        [
-          { "question": "<Question text>", "answer": "<Answer text>" },
-          ...
-        ]
+    try {
+      setLoading(true);
+      setPreviewQuestions([]);
+
+      const plan = planQuestionMix(data.questionTypes, data.numberOfQuestions);
+      const difficulty = resolveDifficulty(data);
+      const kept = questions.filter((item) => item.locked).slice(0, data.numberOfQuestions);
+      const entries = await loadBankQuestions(userId, data.techStack).catch((error) => {
+        console.warn("Question bank unavailable:", error);
+        return [];
+      });
+      setBank(entries);
+
+      const picked = pickBankQuestions(
+        entries.filter((entry) => fitsInterview(entry, data.questionTypes, difficulty)),
+        {
+          userId,
+          total: data.numberOfQuestions,
+          fromBank: data.bankQuestions,
+          exclude: kept.map((item) => item.question),
+          mix: remainingQuestionMix(plan, kept.map(typeOf))
+        }
+      ).map((entry) => toInterviewQuestion(entry, userId));
+      const chosen = [...kept, ...picked];
 
-        Job Information:
-        - Job Position: ${data?.position}
-        - Job Description: ${data?.description}
-        - Years of Experience Required: ${data?.experience}
-        - Tech Stacks: ${data?.techStack}
-        ${cvData ? `
-        Candidate CV Text:
-        ${cvData.rawText}
-        ` : ''}
+      const mix = remainingQuestionMix(plan, chosen.map(typeOf));
+      const fresh = mix.length > 0 ? await generateFresh(data, chosen, mix) : [];
+      setQuestions([...chosen, ...fresh]);
+    } catch (error) {
+      console.log(error);
 
-        The questions should assess skills in ${data?.techStack} development and best practices, problem-solving, and experience handling complex requirements. Please format the output strictly as an array of JSON objects without any additional labels, code blocks, or explanations. Return only the JSON array with questions and answers.
-        `;
 
-    try {
-      const aiResult = await chatSession.sendMessage(prompt);
-      const cleanedResponse = cleanAiResponse(aiResult.response.text());
-      return cleanedResponse;
-    } catch (error) {
-      console.error('AI response generation failed:', error);
-      handleAPIError(error, "Question generation");
-      throw new Error(`Failed to generate questions: ${getErrorMessage(error)}`);
+      const errorMessage = getErrorMessage(error);
+      toast.error("Failed to generate questions", {
+        description: errorMessage
+      });
+    } finally {
+      setLoading(false);
     }
   };
 
-  const onSubmit = async (data: FormData) => {
+  const onSave = async (data: FormData) => {
     try {
       setLoading(true);
 
+      const { questions: saved } = await saveToBank(questions, {
+        userId: userId!,
+        techStack: data.techStack,
+        experience: data.experience,
+        bank,
+        judge: judgeSameQuestions
+      }).catch((error) => {
+        console.warn("Could not add questions to the bank:", error);
+        return { questions };
+      });
+      const used = saved.
+      map((item) => item.bankId).
+      filter((id): id is string => !!id && !initialData?.questions.some((item) => item.bankId === id));
+      recordBankUsage(used).catch((error) => console.warn("Could not record question bank usage:", error));
+
       if (initialData) {
-        if (isValid) {
-          const aiResult = await generateAiResponse(data);
-
-          await updateDoc(doc(db, "interviews", initialData?.id), {
-            questions: aiResult,
-            ...data,
-            cvData,
-            updatedAt: serverTimestamp()
-          }).catch((error) => console.log(error));
-          toast(toastMessage.title, { description: toastMessage.description });
-        }
+        await updateDoc(doc(db, "interviews", initialData?.id), {
+          questions: saved,
+          followUps: [],
+          ...data,
+          cvData,
+          updatedAt: serverTimestamp()
+        }).catch((error) => console.log(error));
+        toast(toastMessage.title, { description: toastMessage.description });
       } else {
-        if (isValid) {
-          const aiResult = await generateAiResponse(data);
-
-          await addDoc(collection(db, "interviews"), {
-            ...data,
-            userId,
-            cvData,
-            questions: aiResult,
-            createdAt: serverTimestamp()
-          });
-
-          toast(toastMessage.title, { description: toastMessage.description });
-        }
+        await addDoc(collection(db, "interviews"), {
+          ...data,
+          userId,
+          cvData,
+          questions: saved,
+          createdAt: serverTimestamp()
+        });
+
+        toast(toastMessage.title, { description: toastMessage.description });
       }
 
       navigate("/generate", { replace: true });
@@ -177,6 +288,83 @@ export const FormMockInterview = ({ initialData }: FormMockInterviewProps) => {
     }
   };
 
+  const updateQuestion = (index: number, update: Partial<InterviewQuestion>) =>
+  setQuestions((current) => current.map((item, i) => i === index ? { ...item, ...update } : item));
+
+  const handleToggleLock = (index: number) => updateQuestion(index, { locked: !questions[index].locked });
+
+  const handleRegenerate = async (index: number) => {
+    const data = form.getValues();
+    try {
+      setBusyIndex(index);
+      const replacement = await regenerateQuestion(
+        {
+          ...data,
+          difficulty: resolveDifficulty(data),
+          cvData,
+          avoid: questions.filter((_, i) => i !== index).map((item) => item.question)
+        },
+        questions[index].question,
+        typeOf(questions[index])
+      );
+      setQuestions((current) => current.map((item, i) => i === index ? replacement : item));
+    } catch (error) {
+      console.error("Error regenerating question:", error);
+      handleAPIError(error, "Question generation");
+    } finally {
+      setBusyIndex(null);
+    }
+  };
+
+  const handleToggleFavorite = async (index: number) => {
+    if (!userId) return;
+    const data = form.getValues();
+
+    try {
+      setBusyIndex(index);
+      const { questions: [item], added } = await saveToBank([questions[index]], {
+        userId,
+        techStack: data.techStack,
+        experience: data.experience,
+        bank,
+        judge: judgeSameQuestions
+      });
+      const entry = [...bank, ...added].find((candidate) => candidate.id === item.bankId)!;
+      const favorite = !entry.favoritedBy.includes(userId);
+      await setBankFavorite(entry.id, userId, favorite);
+
+      const favoritedBy = favorite ?
+      [...entry.favoritedBy, userId] :
+      entry.favoritedBy.filter((id) => id !== userId);
+      setBank([...bank.filter((candidate) => candidate.id !== entry.id), { ...entry, favoritedBy }]);
+      // The bank's wording replaces a near duplicate. Favorites are always
+      // kept; unfavoriting leaves the lock to the user
+      updateQuestion(index, { ...item, locked: favorite || item.locked });
+    } catch (error) {
+      console.error("Error updating favorite:", error);
+      toast.error("Error", { description: "Could not update favorites. Please try again." });
+    } finally {
+      setBusyIndex(null);
+    }
+  };
+
+  const handleShare = async (index: number) => {
+    const id = questions[index].bankId;
+    if (!id) return;
+
+    try {
+      setBusyIndex(index);
+      await shareToGlobalBank(id);
+      setBank(bank.map((entry) => entry.id === id ? { ...entry, scope: "global" } : entry));
+      toast("Shared!", { description: "The question is now in the global bank." });
+    } catch (error) {
+      console.error("Error sharing question:", error);
+      toast.error("Error", { description: "Could not share the question. Please try again." });
+    } finally {
+      setBusyIndex(null);
+    }
+  };
+
   useEffect(() => {
     if (initialData) {
       form.reset({
@@ -184,14 +372,28 @@ export const FormMockInterview = ({ initialData }: FormMockInterviewProps) => {
         description: initialData.description,
         experience: initialData.experience,
         techStack: initialData.techStack,
-        numberOfQuestions: initialData.numberOfQuestions || 5
+        numberOfQuestions: initialData.numberOfQuestions || 5,
+        maxFollowUpDepth: initialData.maxFollowUpDepth || 0,
+        bankQuestions: initialData.bankQuestions || 0,
+        questionTypes: initialData.questionTypes || [DEFAULT_QUESTION_TYPE],
+        difficulty: initialData.difficulty || "auto",
+        ratingSamples: initialData.ratingSamples || 1,
+        timing: initialData.timing ?? null
       });
       if (initialData.cvData) {
         setCvData(initialData.cvData);
       }
+      setQuestions(initialData.questions);
     }
   }, [initialData, form]);
 
+  useEffect(() => {
+    if (!initialData || !userId) return;
+    loadBankQuestions(userId, initialData.techStack).
+    then(setBank).
+    catch((error) => console.warn("Question bank unavailable:", error));
+  }, [initialData, userId]);
+
   const handleDelete = async () => {
     if (!initialData?.id) return;
 
@@ -371,6 +573,221 @@ export const FormMockInterview = ({ initialData }: FormMockInterviewProps) => {
             } />
 
 
+          <FormField
+            control={form.control}
+            name="questionTypes"
+            render={({ field }) =>
+            <FormItem className="w-full space-y-4">
+                <div className="w-full flex items-center justify-between">
+                  <FormLabel>Question Types</FormLabel>
+                  <FormMessage className="text-sm" />
+                </div>
+                <FormControl>
+                  <div className="flex flex-wrap gap-2">
+                    {QUESTION_TYPES.map((type) => {
+                    const selected = field.value?.includes(type);
+                    return (
+                      <Button
+                        key={type}
+                        type="button"
+                        size={"sm"}
+                        variant={selected ? "default" : "outline"}
+                        disabled={loading}
+                        onClick={() => field.onChange(
+                          selected ?
+                          field.value.filter((value) => value !== type) :
+                          QUESTION_TYPES.filter((value) => value === type || field.value?.includes(value))
+                        )}>
+
+                          {QUESTION_TYPE_LABELS[type]}
+                        </Button>);
+
+                  })}
+                  </div>
+                </FormControl>
+              </FormItem>
+            } />
+
+
+          <FormField
+            control={form.control}
+            name="difficulty"
+            render={({ field }) =>
+            <FormItem className="w-full space-y-4">
+                <div className="w-full flex items-center justify-between">
+                  <FormLabel>Difficulty</FormLabel>
+                  <FormMessage className="text-sm" />
+                </div>
+                <FormControl>
+                  <div className="flex flex-wrap gap-2">
+                    {(["auto", ...DIFFICULTIES] as const).map((level) =>
+                  <Button
+                    key={level}
+                    type="button"
+                    size={"sm"}
+                    variant={field.value === level ? "default" : "outline"}
+                    disabled={loading}
+                    onClick={() => field.onChange(level)}>
+
+                        {level === "auto" ?
+                    `Auto (${difficultyForExperience(Number(form.watch("experience")) || 0)})` :
+                    level.charAt(0).toUpperCase() + level.slice(1)}
+                      </Button>
+                  )}
+                  </div>
+                </FormControl>
+              </FormItem>
+            } />
+
+
+          <FormField
+            control={form.control}
+            name="ratingSamples"
+            render={({ field }) =>
+            <FormItem className="w-full space-y-4">
+                <div className="w-full flex items-center justify-between">
+                  <FormLabel>Scoring</FormLabel>
+                  <FormMessage className="text-sm" />
+                </div>
+                <FormControl>
+                  <div className="flex flex-wrap gap-2">
+                    {SCORING_MODES.map(({ samples, label }) =>
+                  <Button
+                    key={samples}
+                    type="button"
+                    size={"sm"}
+                    variant={Number(field.value) === samples ? "default" : "outline"}
+                    disabled={loading}
+                    onClick={() => field.onChange(samples)}>
+
+                        {label}
+                      </Button>
+                  )}
+                  </div>
+                </FormControl>
+                <p className="text-sm text-muted-foreground">
+                  Consistent scoring rates each answer several times and uses the median, at the cost of more AI quota.
+                </p>
+              </FormItem>
+            } />
+
+
+          <FormField
+            control={form.control}
+            name="timing"
+            render={({ field }) =>
+            <FormItem className="w-full space-y-4">
+                <div className="w-full flex items-center justify-between">
+                  <FormLabel>Time Limits</FormLabel>
+                  <FormMessage className="text-sm" />
+                </div>
+                <FormControl>
+                  <div className="flex flex-wrap gap-2">
+                    {TIMING_PRESETS.map(({ label, timing }) =>
+                  <Button
+                    key={label}
+                    type="button"
+                    size={"sm"}
+                    variant={JSON.stringify(field.value) === JSON.stringify(timing) ? "default" : "outline"}
+                    disabled={loading}
+                    onClick={() => field.onChange(timing)}>
+
+                        {label}
+                      </Button>
+                  )}
+                  </div>
+                </FormControl>
+                {field.value &&
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <label className="space-y-1 text-sm">
+                      <span>Think time (seconds)</span>
+                      <Input
+                    type="number"
+                    min="0"
+                    disabled={loading}
+                    value={field.value.thinkSeconds}
+                    onChange={(e) => field.onChange({ ...field.value, thinkSeconds: Number(e.target.value) })} />
+
+                    </label>
+                    <label className="space-y-1 text-sm">
+                      <span>Per answer (seconds)</span>
+                      <Input
+                    type="number"
+                    min="15"
+                    disabled={loading}
+                    value={field.value.answerSeconds}
+                    onChange={(e) => field.onChange({ ...field.value, answerSeconds: Number(e.target.value) })} />
+
+                    </label>
+                    <label className="space-y-1 text-sm">
+                      <span>Whole interview (minutes, 0 for no limit)</span>
+                      <Input
+                    type="number"
+                    min="0"
+                    disabled={loading}
+                    value={field.value.totalSeconds / 60}
+                    onChange={(e) => field.onChange({ ...field.value, totalSeconds: Math.round(Number(e.target.value) * 60) })} />
+
+                    </label>
+                  </div>
+              }
+                <p className="text-sm text-muted-foreground">
+                  In a timed interview, recording starts when the think time runs out and stops, with the answer scored, when the answer time runs out.
+                </p>
+              </FormItem>
+            } />
+
+
+          <FormField
+            control={form.control}
+            name="maxFollowUpDepth"
+            render={({ field }) =>
+            <FormItem className="w-full space-y-4">
+                <div className="w-full flex items-center justify-between">
+                  <FormLabel>Adaptive Follow-up Depth</FormLabel>
+                  <FormMessage className="text-sm" />
+                </div>
+                <FormControl>
+                  <Input
+                  type="number"
+                  min="0"
+                  max="3"
+                  className="h-12"
+                  disabled={loading}
+                  placeholder="0 disables follow-up questions (0-3)"
+                  {...field}
+                  value={field.value ?? "0"} />
+
+                </FormControl>
+              </FormItem>
+            } />
+
+
+          <FormField
+            control={form.control}
+            name="bankQuestions"
+            render={({ field }) =>
+            <FormItem className="w-full space-y-4">
+                <div className="w-full flex items-center justify-between">
+                  <FormLabel>Questions from the Question Bank</FormLabel>
+                  <FormMessage className="text-sm" />
+                </div>
+                <FormControl>
+                  <Input
+                  type="number"
+                  min="0"
+                  max="10"
+                  className="h-12"
+                  disabled={loading}
+                  placeholder="0 generates every question (favorites are always included)"
+                  {...field}
+                  value={field.value ?? "0"} />
+
+                </FormControl>
+              </FormItem>
+            } />
+
+
           <div className="w-full flex items-center justify-end gap-6">
             <Button
               type="reset"
@@ -387,13 +804,68 @@ export const FormMockInterview = ({ initialData }: FormMockInterviewProps) => {
 
               {loading ?
               <Loader className="text-gray-50 animate-spin" /> :
+              questions.length > 0 ?
+              "Regenerate Unlocked" :
 
-              actions
+              "Generate Questions"
               }
             </Button>
           </div>
         </form>
       </FormProvider>
+
+      {questions.length > 0 && userId &&
+      <div className="w-full p-8 rounded-lg shadow-md space-y-4">
+          <Headings title="Questions" isSubHeading />
+          <p className="text-sm text-muted-foreground">
+            Lock the questions to keep, regenerate the ones you don't like, and star favorites to include them in
+            every interview for this tech stack.
+          </p>
+          <QuestionBuilder
+          questions={questions}
+          bank={bank}
+          userId={userId}
+          busyIndex={busyIndex}
+          disabled={loading}
+          onToggleLock={handleToggleLock}
+          onToggleFavorite={handleToggleFavorite}
+          onRegenerate={handleRegenerate}
+          onShare={handleShare} />
+
+          <div className="w-full flex items-center justify-end gap-6">
+            {questions.length !== numberOfQuestions &&
+          <p className="text-sm text-muted-foreground">
+                Regenerate to match the number of questions.
+              </p>
+          }
+            <Button
+            type="button"
+            size={"sm"}
+            onClick={form.handleSubmit(onSave)}
+            disabled={!isValid || loading || busyIndex !== null || questions.length !== numberOfQuestions}>
+
+              {loading ?
+            <Loader className="text-gray-50 animate-spin" /> :
+
+            actions
+            }
+            </Button>
+          </div>
+        </div>
+      }
+
+      {loading && previewQuestions.length > 0 &&
+      <div className="w-full p-8 rounded-lg shadow-md space-y-4">
+          <Headings title="Generating questions..." isSubHeading />
+          <ol className="list-decimal pl-5 space-y-2">
+            {previewQuestions.map((item, index) =>
+          <li key={index} className="text-sm text-gray-700">
+                {item.question}
+              </li>
+          )}
+          </ol>
+        </div>
+      }
     </div>);
 
 };
\ No newline at end of file
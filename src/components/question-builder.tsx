@@ -0,0 +1,91 @@
+import { Globe, Lock, LockOpen, RefreshCw, Star } from "lucide-react";
+import { InterviewQuestion } from "@/types";
+import { BankQuestion } from "@/lib/question-bank";
+import { QUESTION_TYPE_LABELS } from "@/lib/question-types";
+import { Badge } from "./ui/badge";
+import { TooltipButton } from "./tooltip-button";
+
+interface QuestionBuilderProps {
+  questions: InterviewQuestion[];
+  bank: BankQuestion[];
+  userId: string;
+  /** Index of the question with an action in progress. */
+  busyIndex: number | null;
+  disabled?: boolean;
+  onToggleLock: (index: number) => void;
+  onToggleFavorite: (index: number) => void;
+  onRegenerate: (index: number) => void;
+  onShare: (index: number) => void;
+}
+
+export const QuestionBuilder = ({
+  questions,
+  bank,
+  userId,
+  busyIndex,
+  disabled = false,
+  onToggleLock,
+  onToggleFavorite,
+  onRegenerate,
+  onShare
+}: QuestionBuilderProps) => {
+  const entryFor = (item: InterviewQuestion) => bank.find((entry) => entry.id === item.bankId);
+
+  return (
+    <ol className="space-y-3">
+      {questions.map((item, index) => {
+        const entry = entryFor(item);
+        const favorite = !!entry?.favoritedBy.includes(userId);
+        const busy = busyIndex === index;
+
+        return (
+          <li
+            key={`${index}-${item.question}`}
+            className={`p-4 rounded-md border flex items-start justify-between gap-4 ${item.locked ? "border-emerald-300 bg-emerald-50" : ""}`}>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-gray-800">
+                {index + 1}. {item.question}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="outline">{entry ? entry.scope === "global" ? "Global bank" : "My bank" : "New"}</Badge>
+                {item.type && <Badge variant="secondary">{QUESTION_TYPE_LABELS[item.type]}</Badge>}
+                {item.topic && <Badge variant="secondary">{item.topic}</Badge>}
+                {item.difficulty && <Badge variant="secondary">{item.difficulty}</Badge>}
+              </div>
+            </div>
+
+            <div className="flex items-center">
+              <TooltipButton
+                content={item.locked ? "Unlock" : "Keep when regenerating"}
+                icon={item.locked ? <Lock className="min-w-4 min-h-4 text-emerald-600" /> : <LockOpen className="min-w-4 min-h-4" />}
+                onClick={() => onToggleLock(index)}
+                disbaled={disabled} />
+
+              <TooltipButton
+                content={favorite ? "Remove from favorites" : "Favorite: include in every interview for this stack"}
+                icon={<Star className={`min-w-4 min-h-4 ${favorite ? "fill-yellow-400 text-yellow-500" : ""}`} />}
+                onClick={() => onToggleFavorite(index)}
+                disbaled={disabled || busy} />
+
+              <TooltipButton
+                content="Regenerate this question"
+                icon={<RefreshCw className="min-w-4 min-h-4" />}
+                onClick={() => onRegenerate(index)}
+                disbaled={disabled || busy || !!item.locked}
+                loading={busy} />
+
+              {entry && entry.userId === userId && entry.scope !== "global" &&
+              <TooltipButton
+                content="Share to the global bank"
+                icon={<Globe className="min-w-4 min-h-4" />}
+                onClick={() => onShare(index)}
+                disbaled={disabled || busy} />
+              }
+            </div>
+          </li>);
+
+      })}
+    </ol>);
+
+};
@@ -1,21 +1,268 @@
-import { useState } from "react";
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@clerk/clerk-react";
 import { cn } from "@/lib/utils";
 import { TooltipButton } from "./tooltip-button";
-import { Volume2, VolumeX } from "lucide-react";
-import { RecordAnswer } from "./record-answer";
+import { CircleCheck, CornerDownRight, Hourglass, Loader, Volume2, VolumeX } from "lucide-react";
+import { AnswerFailure, RecordAnswer, SavedAnswer } from "./record-answer";
+import { Alert, AlertDescription, AlertTitle } from "./ui/alert";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Card, CardDescription, CardTitle } from "./ui/card";
+import { toast } from "sonner";
+import { arrayUnion, doc, updateDoc } from "firebase/firestore";
+import { db } from "@/config/firebase.config";
+import { FollowUpQuestion, Interview, InterviewQuestion } from "@/types";
+import { generateFollowUp } from "@/scripts/follow-ups";
+import { formatClock } from "@/lib/timing";
+import {
+  InterviewResult,
+  InterviewResultStatus,
+  RESULT_STATUS_LABELS,
+  addResultAnswer,
+  finishInterviewResult,
+  loadInterviewResult,
+  newInterviewResult,
+  saveInterviewResult } from
+"@/lib/interview-results";
+import { useCountdown } from "@/hooks/useCountdown";
 
 interface QuestionSectionProps {
-  questions: {question: string;answer: string;}[];
+  interview: Interview;
+  recordLocally?: boolean;
 }
 
-export const QuestionSection = ({ questions }: QuestionSectionProps) => {
+interface SessionQuestion extends InterviewQuestion {
+  label: string;
+  depth: number;
+  parentQuestion?: string;
+}
+
+/**
+ * Where the run is: the intro, a question being read aloud, the answer being
+ * recorded and scored, its rating on screen before the next question, and
+ * the summary once the run is over.
+ */
+type Stage = "loading" | "intro" | "question" | "answer" | "review" | "summary";
+
+/** Seconds an answer's rating stays on screen before the next question. */
+const REVIEW_SECONDS = 8;
+
+const FAILURE_MESSAGES: Record<AnswerFailure, {title: string;description: string;}> = {
+  "too-short": {
+    title: "Your answer was too short to score",
+    description: "Nothing was saved. Record a longer answer to continue."
+  },
+  grading: {
+    title: "Your answer could not be scored",
+    description: "Nothing was saved. Record your answer again to continue."
+  },
+  saving: {
+    title: "Your answer could not be saved",
+    description: "Use Save Result below to try saving it again, or record a new answer."
+  }
+};
+
+/**
+ * Flatten the base questions and their follow-ups into session order, with
+ * each follow-up placed right after the question it probes.
+ */
+const buildSessionQuestions = (
+interview: Interview,
+followUps: FollowUpQuestion[])
+: SessionQuestion[] => {
+  const withFollowUps = (item: SessionQuestion): SessionQuestion[] => {
+    const children = followUps.filter((followUp) => followUp.parentQuestion === item.question);
+    return [
+    item,
+    ...children.flatMap((child, i) =>
+    withFollowUps({
+      question: child.question,
+      answer: child.answer,
+      // Follow-ups probe the same kind of answer as the question they follow
+      type: item.type,
+      difficulty: item.difficulty,
+      label: `${item.label}.${i + 1}`,
+      depth: child.depth,
+      parentQuestion: item.question
+    })
+    )];
+
+  };
+
+  return interview.questions.flatMap((question, i) =>
+  withFollowUps({ ...question, label: `${i + 1}`, depth: 0 })
+  );
+};
+
+/**
+ * The guided interview: every question in order, read aloud, answered,
+ * scored and saved before moving on, ending with an interview-level result.
+ */
+export const QuestionSection = ({ interview, recordLocally = false }: QuestionSectionProps) => {
   const [isPlaying, setIsPlaying] = useState(false);
   const [isWebCam, setIsWebCam] = useState(false);
+  const [followUps, setFollowUps] = useState<FollowUpQuestion[]>(interview.followUps || []);
+  const [stage, setStage] = useState<Stage>("loading");
+  const [result, setResult] = useState<InterviewResult | null>(null);
+  const [activeQuestion, setActiveQuestion] = useState<string | null>(null);
+  const [lastSaved, setLastSaved] = useState<SavedAnswer & {question: string;} | null>(null);
+  const [attemptKey, setAttemptKey] = useState(0);
+  const [answerBusy, setAnswerBusy] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [failure, setFailure] = useState<AnswerFailure | null>(null);
+  const [endStatus, setEndStatus] = useState<Exclude<InterviewResultStatus, "in-progress"> | null>(null);
+  const [budgetDeadline, setBudgetDeadline] = useState<number | null>(null);
+  const [reviewDeadline, setReviewDeadline] = useState<number | null>(null);
 
   const [currentSpeech, setCurrentSpeech] =
   useState<SpeechSynthesisUtterance | null>(null);
 
+  // Start of the time in this tab not yet added to the result's elapsed time
+  const segmentStartRef = useRef(Date.now());
+  const pendingFollowUpRef = useRef<Promise<void> | null>(null);
+  // The result as of the last render, for handlers that resume after an await
+  const resultRef = useRef(result);
+  resultRef.current = result;
+
+  const { userId } = useAuth();
+  const navigate = useNavigate();
+
+  const maxFollowUpDepth = interview.maxFollowUpDepth || 0;
+  const timing = interview.timing ?? null;
+
+  const budgetLeft = useCountdown(budgetDeadline, () =>
+  toast("Interview time is up", { description: "Your current answer is still scored and saved." })
+  );
+  const questions = useMemo(
+    () => buildSessionQuestions(interview, followUps),
+    [interview, followUps]
+  );
+
+  const current = questions.find((item) => item.question === activeQuestion);
+  const isAnswered = (question: string) => !!result?.answers.some((answer) => answer.question === question);
+  const nextQuestion = questions.find((item) => !isAnswered(item.question));
+
+  const takeElapsed = (run: InterviewResult) => {
+    const now = Date.now();
+    const elapsed = run.elapsedSeconds + Math.round((now - segmentStartRef.current) / 1000);
+    segmentStartRef.current = now;
+    return elapsed;
+  };
+
+  const persist = (updated: InterviewResult) => {
+    setResult(updated);
+    saveInterviewResult(updated).catch((error) => {
+      console.warn("Error saving interview progress:", error);
+      toast.warning("Progress not saved", {
+        description: "Your answers are saved, but resuming this interview later may start from an earlier question."
+      });
+    });
+  };
+
+  useEffect(() => {
+    if (!userId) return;
+
+    loadInterviewResult(userId, interview.id).
+    then((saved) => {
+      setResult(saved);
+      setStage(saved && saved.status !== "in-progress" ? "summary" : "intro");
+    }).
+    catch((error) => {
+      console.warn("Error loading interview progress:", error);
+      setStage("intro");
+    });
+  }, [userId, interview.id]);
+
+  // Read the question aloud, then start the answer
+  useEffect(() => {
+    if (stage !== "question" || !activeQuestion) return;
+    if (!("speechSynthesis" in window)) {
+      setStage("answer");
+      return;
+    }
+
+    const speech = new SpeechSynthesisUtterance(activeQuestion);
+    speech.onend = () => setStage((value) => value === "question" ? "answer" : value);
+    window.speechSynthesis.speak(speech);
+    return () => {
+      speech.onend = null;
+      window.speechSynthesis.cancel();
+    };
+  }, [stage, activeQuestion]);
+
+  // When the budget runs out, end the run unless an answer is still being scored and saved
+  useEffect(() => {
+    if (budgetLeft !== 0) return;
+    if (stage === "question" || stage === "review" || stage === "answer" && !answerBusy && !saving) {
+      setEndStatus("out-of-time");
+    }
+  }, [budgetLeft, stage, answerBusy, saving]);
+
+  useEffect(() => {
+    if (!endStatus || !result || result.status !== "in-progress") return;
+
+    const now = Date.now();
+    const finished = finishInterviewResult(result, endStatus, {
+      questionCount: questions.length,
+      elapsedSeconds: result.elapsedSeconds + Math.round((now - segmentStartRef.current) / 1000)
+    }, now);
+    segmentStartRef.current = now;
+
+    setResult(finished);
+    saveInterviewResult(finished).catch((error) => console.warn("Error saving interview result:", error));
+    setEndStatus(null);
+    setBudgetDeadline(null);
+    setReviewDeadline(null);
+    setStage("summary");
+  }, [endStatus, result, questions.length]);
+
+  const handleStart = (fresh: boolean) => {
+    if (!userId) return;
+
+    const run = !fresh && result?.status === "in-progress" ?
+    result :
+    newInterviewResult(userId, interview.id, questions.length);
+    if (run !== result) persist(run);
+
+    segmentStartRef.current = Date.now();
+    if (timing?.totalSeconds) {
+      setBudgetDeadline(Date.now() + Math.max(0, timing.totalSeconds - run.elapsedSeconds) * 1000);
+    }
+
+    const first = questions.find((item) => !run.answers.some((answer) => answer.question === item.question));
+    if (!first) {
+      setEndStatus("completed");
+      return;
+    }
+    setLastSaved(null);
+    setFailure(null);
+    setActiveQuestion(first.question);
+    setStage("question");
+  };
+
+  const handleNext = () => {
+    setReviewDeadline(null);
+    if (budgetLeft === 0) {
+      setEndStatus("out-of-time");
+    } else if (!nextQuestion) {
+      setEndStatus("completed");
+    } else {
+      setFailure(null);
+      setActiveQuestion(nextQuestion.question);
+      setStage("question");
+    }
+  };
+
+  const handleTryAgain = () => {
+    setReviewDeadline(null);
+    setFailure(null);
+    setAttemptKey((key) => key + 1);
+    setStage("answer");
+  };
+
+  const reviewLeft = useCountdown(stage === "review" ? reviewDeadline : null, handleNext);
+
   const handlePlayQuestion = (qst: string) => {
     if (isPlaying && currentSpeech) {
 
@@ -38,35 +285,161 @@ export const QuestionSection = ({ questions }: QuestionSectionProps) => {
     }
   };
 
+  const handleAnswerRated = async (
+  item: SessionQuestion,
+  userAnswer: string,
+  rating: number,
+  feedback: string) =>
+  {
+    if (item.depth >= maxFollowUpDepth) return;
+    if (followUps.some((followUp) => followUp.parentQuestion === item.question)) return;
+
+    try {
+      const followUp = await generateFollowUp({
+        question: item,
+        depth: item.depth,
+        userAnswer,
+        rating,
+        feedback
+      });
+      if (!followUp) return;
+
+      await updateDoc(doc(db, "interviews", interview.id), {
+        followUps: arrayUnion(followUp)
+      });
+      setFollowUps((prev) => [...prev, followUp]);
+
+      toast("Follow-up added", {
+        description: "A follow-up question was added after this one."
+      });
+    } catch (error) {
+      console.error("Error generating follow-up question:", error);
+    }
+  };
+
+  const handleAnswerSaved = async (item: SessionQuestion, saved: SavedAnswer) => {
+    setSaving(true);
+    try {
+      // A follow-up to this answer comes next, so wait until it is known
+      await pendingFollowUpRef.current;
+      pendingFollowUpRef.current = null;
+
+      const latest = resultRef.current;
+      if (!latest) return;
+      persist(addResultAnswer(latest, { question: item.question, answerId: saved.answerId, rating: saved.rating }, takeElapsed(latest)));
+      setFailure(null);
+      setLastSaved({ question: item.question, ...saved });
+      setReviewDeadline(Date.now() + REVIEW_SECONDS * 1000);
+      setStage("review");
+    } finally {
+      setSaving(false);
+      setAnswerBusy(false);
+    }
+  };
+
+  const handleAnswerFailed = (reason: AnswerFailure) => {
+    pendingFollowUpRef.current = null;
+    setFailure(reason);
+    setAnswerBusy(false);
+  };
+
+  if (stage === "loading") {
+    return (
+      <div className="w-full min-h-96 border rounded-md p-4 flex items-center justify-center">
+        <Loader className="animate-spin text-muted-foreground" />
+      </div>);
+
+  }
+
+  const answeredCount = questions.filter((item) => isAnswered(item.question)).length;
+  const inRun = stage === "question" || stage === "answer" || stage === "review";
+
   return (
-    <div className="w-full min-h-96 border rounded-md p-4">
-      <Tabs
-        defaultValue={questions[0]?.question}
-        className="w-full space-y-12"
-        orientation="vertical">
-
-        <TabsList className="bg-transparent w-full flex flex-wrap items-center justify-start gap-4">
-          {questions?.map((tab, i) =>
-          <TabsTrigger
-            className={cn(
-              "data-[state=active]:bg-emerald-200 data-[state=active]:shadow-md text-xs px-2"
-            )}
-            key={tab.question}
-            value={tab.question}>
-
-              {`Question #${i + 1}`}
-            </TabsTrigger>
+    <div className="w-full min-h-96 border rounded-md p-4 space-y-8">
+      {timing &&
+      <p
+        className={cn(
+          "flex items-center gap-2 text-sm text-muted-foreground",
+          budgetLeft === 0 && "text-red-500 font-medium"
+        )}>
+
+          <Hourglass className="w-4 h-4" />
+          Timed interview: {timing.thinkSeconds}s to think and {formatClock(timing.answerSeconds)} to answer each question
+          {budgetLeft !== null && (budgetLeft > 0 ? `, ${formatClock(budgetLeft)} left overall` : ", no time left")}
+        </p>
+      }
+
+      {inRun &&
+      <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex flex-wrap items-center gap-2">
+            {questions.map((item) =>
+          <Badge
+            key={item.question}
+            variant={item.question === activeQuestion ? "default" : isAnswered(item.question) ? "secondary" : "outline"}
+            className={cn(item.parentQuestion && "italic")}>
+
+                {item.parentQuestion && <CornerDownRight className="w-3 h-3 mr-1" />}
+                {isAnswered(item.question) && <CircleCheck className="w-3 h-3 mr-1" />}
+                {`#${item.label}`}
+              </Badge>
           )}
-        </TabsList>
+          </div>
+          <Button
+          size={"sm"}
+          variant={"outline"}
+          disabled={answerBusy || saving}
+          onClick={() => setEndStatus("ended-early")}>
+
+            End Interview
+          </Button>
+        </div>
+      }
+
+      {stage === "intro" &&
+      <Card className="p-6 space-y-4 shadow-none">
+          <CardTitle>{interview.position}</CardTitle>
+          <CardDescription className="leading-relaxed">
+            {questions.length} questions, one at a time. Each question is read aloud, then you record your answer. Answers
+            are scored and saved as you go{maxFollowUpDepth > 0 ? ", and a follow-up may be added after an answer" : ""}.
+            {result?.status === "in-progress" &&
+          ` You have answered ${answeredCount} of ${questions.length} questions so far.`}
+          </CardDescription>
+          <div className="flex gap-2">
+            {result?.status === "in-progress" ?
+          <>
+                <Button onClick={() => handleStart(false)}>Resume Interview</Button>
+                <Button variant={"outline"} onClick={() => handleStart(true)}>Start Over</Button>
+              </> :
 
-        {questions?.map((tab, i) =>
-        <TabsContent key={i} value={tab.question}>
-            <p className="text-base text-left tracking-wide text-neutral-500">
-              {tab.question}
+          <Button onClick={() => handleStart(true)}>Start Interview</Button>
+          }
+          </div>
+        </Card>
+      }
+
+      {(stage === "question" || stage === "answer") && current &&
+      <div>
+          {current.parentQuestion &&
+        <p className="text-xs text-muted-foreground mb-2">
+              Follow-up to: {current.parentQuestion}
             </p>
+        }
+          <p className="text-base text-left tracking-wide text-neutral-500">
+            {current.question}
+          </p>
+
+          {stage === "question" ?
+        <div className="w-full flex items-center justify-end gap-2 mt-4 text-sm text-muted-foreground">
+              <Volume2 className="w-4 h-4" />
+              Reading the question...
+              <Button size={"sm"} variant={"outline"} onClick={() => setStage("answer")}>
+                Start Answering
+              </Button>
+            </div> :
 
-            <div className="w-full flex items-center justify-end">
-              <TooltipButton
+        <>
+              <div className="w-full flex items-center justify-end">
+                <TooltipButton
               content={isPlaying ? "Stop" : "Start"}
               icon={
               isPlaying ?
@@ -75,18 +448,99 @@ export const QuestionSection = ({ questions }: QuestionSectionProps) => {
               <Volume2 className="min-w-5 min-h-5 text-muted-foreground" />
 
               }
-              onClick={() => handlePlayQuestion(tab.question)} />
+              onClick={() => handlePlayQuestion(current.question)} />
 
-            </div>
+              </div>
+
+              {failure &&
+          <Alert className="mt-4 bg-red-50 border border-red-200">
+                  <AlertTitle className="text-red-800">{FAILURE_MESSAGES[failure].title}</AlertTitle>
+                  <AlertDescription className="flex flex-wrap items-center justify-between gap-2 text-red-700">
+                    {FAILURE_MESSAGES[failure].description}
+                    <Button size={"sm"} variant={"outline"} onClick={handleTryAgain}>
+                      Record Again
+                    </Button>
+                  </AlertDescription>
+                </Alert>
+          }
 
-            <RecordAnswer
-            question={tab}
+              <RecordAnswer
+            key={`${current.question}-${attemptKey}`}
+            question={current}
+            parentQuestion={current.parentQuestion}
+            followUpDepth={current.depth}
+            techStack={interview.techStack}
+            cvData={interview.cvData}
+            ratingSamples={interview.ratingSamples}
             isWebCam={isWebCam}
-            setIsWebCam={setIsWebCam} />
+            setIsWebCam={setIsWebCam}
+            recordLocally={recordLocally}
+            timing={timing}
+            budgetLeft={budgetLeft}
+            autoSave
+            onBusyChange={setAnswerBusy}
+            onAnswerRated={(userAnswer, rating, feedback) => {
+              pendingFollowUpRef.current = handleAnswerRated(current, userAnswer, rating, feedback);
+            }}
+            onAnswerSaved={(saved) => handleAnswerSaved(current, saved)}
+            onAnswerFailed={handleAnswerFailed} />
 
-          </TabsContent>
-        )}
-      </Tabs>
+            </>
+        }
+        </div>
+      }
+
+      {stage === "review" && lastSaved &&
+      <Card className="p-6 space-y-4 shadow-none">
+          <CardDescription>{lastSaved.question}</CardDescription>
+          <CardTitle className="text-emerald-500">{lastSaved.rating} / 10</CardTitle>
+          <p className="text-sm text-gray-700">{lastSaved.feedback}</p>
+          <div className="flex flex-wrap items-center gap-2">
+            <Button onClick={handleNext}>
+              {nextQuestion ? "Next Question" : "Finish"}
+              {reviewLeft !== null && ` (${reviewLeft})`}
+            </Button>
+            <Button variant={"outline"} onClick={handleTryAgain}>Try Again</Button>
+          </div>
+        </Card>
+      }
+
+      {stage === "summary" && result &&
+      <Card className="p-6 space-y-4 shadow-none">
+          <div className="flex items-center justify-between gap-2">
+            <CardTitle>Interview Summary</CardTitle>
+            <Badge variant={result.status === "completed" ? "default" : "secondary"}>
+              {RESULT_STATUS_LABELS[result.status]}
+            </Badge>
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <CardDescription>Total score</CardDescription>
+              <p className="text-2xl font-semibold text-emerald-500">{result.totalScore} / 10</p>
+            </div>
+            <div>
+              <CardDescription>Answered</CardDescription>
+              <p className="text-2xl font-semibold">{result.answers.length} / {result.questionCount}</p>
+            </div>
+            <div>
+              <CardDescription>Duration</CardDescription>
+              <p className="text-2xl font-semibold">{formatClock(result.elapsedSeconds)}</p>
+            </div>
+          </div>
+          <ul className="space-y-1 text-sm">
+            {result.answers.map((answer) =>
+          <li key={answer.question} className="flex justify-between gap-4">
+                <span className="text-gray-700">{answer.question}</span>
+                <span className="font-medium">{answer.rating}/10</span>
+              </li>
+          )}
+          </ul>
+          <div className="flex gap-2">
+            <Button onClick={() => navigate(`/generate/feedback/${interview.id}`)}>View Feedback</Button>
+            <Button variant={"outline"} onClick={() => handleStart(true)}>Start Over</Button>
+          </div>
+        </Card>
+      }
     </div>);
 
-};
\ No newline at end of file
+};
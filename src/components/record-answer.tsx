@@ -1,6 +1,7 @@
 import { useAuth } from "@clerk/clerk-react";
 import {
   CircleStop,
+  Hourglass,
   Loader,
   Mic,
   RefreshCw,
@@ -15,42 +16,125 @@ import { useParams } from "react-router-dom";
 import WebCam from "react-webcam";
 import { TooltipButton } from "./tooltip-button";
 import { toast } from "sonner";
-import { chatSession } from "@/scripts";
+import { extractPartialStringField } from "@/scripts/structured";
+import { gradeAnswer } from "@/scripts/grading";
 import { handleAPIError, getErrorMessage } from "@/lib/api-utils";
 import { SaveModal } from "./save-modal";
 import {
   addDoc,
   collection,
-  getDocs,
+  getCountFromServer,
   query,
   serverTimestamp,
   where } from
 "firebase/firestore";
 import { db } from "@/config/firebase.config";
-import { ToneAnalysis, EmotionAnalysis, GestureAnalysis, StressAnalysis } from "@/types";
-import { AnalysisManager } from "@/lib/analysis";
+import {
+  ToneAnalysis,
+  EmotionAnalysis,
+  GestureAnalysis,
+  StressAnalysis,
+  FluencyAnalysis,
+  EyeContactAnalysis,
+  InterviewQuestion,
+  InterviewTiming,
+  AnswerTiming,
+  CVData,
+  QuestionType,
+  RatingConsistency,
+  RubricScore } from
+"@/types";
+import {
+  ANALYZER_LABELS,
+  AnalysisManager,
+  AnalyzerName,
+  FluencyAnalyzer,
+  StressBaselineProfile } from
+"@/lib/analysis";
+import { loadStressBaseline, recordBaselineSession } from "@/lib/stress-baselines";
+import { recordAnswerProgress } from "@/lib/progress";
+import { DEFAULT_QUESTION_TYPE } from "@/lib/question-types";
+import { RUBRIC_LABELS } from "@/lib/rubrics";
+import {
+  SessionRecorder,
+  isLocalRecordingSupported,
+  saveRecording } from
+"@/lib/recordings";
+import { answerLimit, formatClock, URGENT_SECONDS } from "@/lib/timing";
+import { useCountdown } from "@/hooks/useCountdown";
+import { cn } from "@/lib/utils";
 import { StressDetection } from "./stress-detection";
+import { AnalysisStatus } from "./analysis-status";
 
 
 interface RecordAnswerProps {
-  question: {question: string;answer: string;};
+  question: InterviewQuestion;
+  parentQuestion?: string;
+  followUpDepth?: number;
+  /** The interview's tech stack, recorded with the answer's progress. */
+  techStack?: string;
+  /** The interview's CV, for the relevance criterion. */
+  cvData?: CVData;
+  /** Ratings sampled per answer; see `gradeAnswer`. */
+  ratingSamples?: number;
   isWebCam: boolean;
   setIsWebCam: (value: boolean) => void;
+  /** Keep a copy of the answer video on this device for playback. */
+  recordLocally?: boolean;
+  /** Time limits of a timed interview. */
+  timing?: InterviewTiming | null;
+  /** Seconds left of the interview budget, null without one. */
+  budgetLeft?: number | null;
+  /** Save the answer as soon as it is scored, without asking. */
+  autoSave?: boolean;
+  onAnswerRated?: (userAnswer: string, rating: number, feedback: string) => void;
+  onAnswerSaved?: (answer: SavedAnswer) => void;
+  /** The answer was too short to score, could not be scored, or was scored but could not be saved. */
+  onAnswerFailed?: (reason: AnswerFailure) => void;
+  /** Whether an answer is being recorded, scored or saved. */
+  onBusyChange?: (busy: boolean) => void;
+}
+
+export type AnswerFailure = "too-short" | "grading" | "saving";
+
+export interface SavedAnswer {
+  answerId: string;
+  rating: number;
+  feedback: string;
 }
 
 interface AIResponse {
   ratings: number;
   feedback: string;
+  questionType: QuestionType;
+  rubric?: RubricScore[];
+  ratingConsistency?: RatingConsistency;
   toneAnalysis: ToneAnalysis;
   emotionAnalysis: EmotionAnalysis;
   gestureAnalysis: GestureAnalysis;
   stressAnalysis: StressAnalysis;
+  fluencyAnalysis: FluencyAnalysis;
+  eyeContactAnalysis?: EyeContactAnalysis;
+  timing?: AnswerTiming;
 }
 
 export const RecordAnswer = ({
   question,
+  parentQuestion,
+  followUpDepth = 0,
+  techStack,
+  cvData,
+  ratingSamples = 1,
   isWebCam,
-  setIsWebCam
+  setIsWebCam,
+  recordLocally = false,
+  timing = null,
+  budgetLeft = null,
+  autoSave = false,
+  onAnswerRated,
+  onAnswerSaved,
+  onAnswerFailed,
+  onBusyChange
 }: RecordAnswerProps) => {
   const {
     interimResult,
@@ -71,41 +155,150 @@ export const RecordAnswer = ({
   const [recordAgainLoading, setRecordAgainLoading] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [resultsStartIndex, setResultsStartIndex] = useState(0);
+  const [streamingFeedback, setStreamingFeedback] = useState("");
+  const [thinkDeadline, setThinkDeadline] = useState<number | null>(null);
+  const [answerDeadline, setAnswerDeadline] = useState<number | null>(null);
 
 
   const webcamRef = useRef<WebCam>(null);
-  const analysisManagerRef = useRef<AnalysisManager | null>(null);
+  const [analysisManager] = useState(() => new AnalysisManager());
+  const fluencyAnalyzerRef = useRef(new FluencyAnalyzer());
+  const processedResultsRef = useRef(0);
+  const sessionRecorderRef = useRef(new SessionRecorder());
+  const recordingAudioRef = useRef<MediaStream | null>(null);
+  const baselineProfileRef = useRef<StressBaselineProfile | null>(null);
+  const pendingRecordingRef = useRef<Awaited<ReturnType<SessionRecorder["stop"]>>>(null);
+  // When the question was shown, when recording started and what cut it short
+  const thinkStartedAtRef = useRef(Date.now());
+  const recordingStartedAtRef = useRef(0);
+  const currentAnswerLimitRef = useRef(0);
+  const thinkTimeExpiredRef = useRef(false);
+  const timedOutRef = useRef(false);
 
   const { userId } = useAuth();
   const { interviewId } = useParams();
 
+  const notifyAnalysisStarted = (title: string, description: string) => {
+    const failed = Object.entries(analysisManager.getAnalyzerStates()).
+    filter(([, state]) => state.status === "failed").
+    map(([analyzer]) => ANALYZER_LABELS[analyzer as AnalyzerName]);
+
+    if (failed.length > 0) {
+      toast.warning("Analysis partially available", {
+        description: `${failed.join(", ")} analysis could not be started. Other analysis is active.`
+      });
+    } else {
+      toast.success(title, { description });
+    }
+  };
+
+  const stopAnalysis = () => {
+    analysisManager.stop();
+    setIsAnalyzing(false);
+
+    const session = analysisManager.getStressBaselineSession();
+    const profile = baselineProfileRef.current;
+    if (session && profile && userId) {
+      recordBaselineSession(userId, profile, session).
+      then((updated) => {
+        baselineProfileRef.current = updated;
+        analysisManager.setStressBaseline(updated);
+      }).
+      catch((error) => console.warn("Error updating stress baseline:", error));
+    }
+  };
+
+  const startLocalRecording = async () => {
+    pendingRecordingRef.current = null;
+    if (!recordLocally || !isLocalRecordingSupported()) return;
+
+    try {
+      const audio = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const videoTracks = isWebCam ? webcamRef.current?.stream?.getVideoTracks() ?? [] : [];
+      recordingAudioRef.current = audio;
+      sessionRecorderRef.current.start(new MediaStream([...videoTracks, ...audio.getAudioTracks()]));
+    } catch (error) {
+      console.warn("Error starting local recording:", error);
+      toast.warning("Local recording unavailable", {
+        description: "Your answer will be analyzed but not recorded for playback."
+      });
+    }
+  };
+
+  const stopLocalRecording = async () => {
+    const recording = await sessionRecorderRef.current.stop();
+    recordingAudioRef.current?.getTracks().forEach((track) => track.stop());
+    recordingAudioRef.current = null;
+    return recording;
+  };
+
+  const startAnswerTimer = () => {
+    recordingStartedAtRef.current = Date.now();
+    setThinkDeadline(null);
+    if (!timing) return;
+
+    currentAnswerLimitRef.current = answerLimit(timing, budgetLeft);
+    setAnswerDeadline(Date.now() + currentAnswerLimitRef.current * 1000);
+  };
+
+  const stopAnswerTimer = (): AnswerTiming | undefined => {
+    setAnswerDeadline(null);
+    if (!timing) return undefined;
+
+    return {
+      thinkSeconds: Math.round((recordingStartedAtRef.current - thinkStartedAtRef.current) / 1000),
+      answerSeconds: Math.round((Date.now() - recordingStartedAtRef.current) / 1000),
+      thinkLimit: timing.thinkSeconds,
+      answerLimit: currentAnswerLimitRef.current,
+      thinkTimeExpired: thinkTimeExpiredRef.current,
+      timedOut: timedOutRef.current
+    };
+  };
+
   const recordUserAnswer = async () => {
     if (isRecording) {
       stopSpeechToText();
+      const answerTiming = stopAnswerTimer();
+      pendingRecordingRef.current = await stopLocalRecording();
 
 
-      if (isAnalyzing && analysisManagerRef.current) {
-        analysisManagerRef.current.stop();
-        setIsAnalyzing(false);
+      if (isAnalyzing) {
+        stopAnalysis();
       }
 
 
-      if (userAnswer?.length >= 30) {
+      // An answer cut off by the time limit is scored whatever its length, so
+      // the attempt and its timing still reach the pacing feedback
+      if (userAnswer?.length >= 30 || timedOutRef.current) {
         const result = await generateResult(
           question.question,
           question.answer,
           userAnswer
         );
-        setAiResult(result);
+        const timed = answerTiming ? { ...result, timing: answerTiming } : result;
+        setAiResult(timed);
+
+        if (result.ratings > 0) {
+          onAnswerRated?.(userAnswer, result.ratings, result.feedback);
+          if (autoSave) await saveUserAnswer(timed);
+        } else {
+          onAnswerFailed?.("grading");
+        }
       } else {
         toast.error("Error", {
           description: "Your answer should be more than 30 characters"
         });
+        onAnswerFailed?.("too-short");
       }
     } else {
       setAiResult(null);
       setResultsStartIndex(results.length);
+      processedResultsRef.current = results.length;
+      fluencyAnalyzerRef.current.start();
+      timedOutRef.current = false;
       startSpeechToText();
+      startAnswerTimer();
+      await startLocalRecording();
 
 
       if (isWebCam && webcamRef.current && webcamRef.current.video) {
@@ -114,21 +307,14 @@ export const RecordAnswer = ({
           const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
 
 
-          if (!analysisManagerRef.current) {
-            analysisManagerRef.current = new AnalysisManager();
-          }
-
-
-          const success = await analysisManagerRef.current.start(
+          const success = await analysisManager.start(
             webcamRef.current.video,
             stream
           );
 
           if (success) {
             setIsAnalyzing(true);
-            toast.success("Analysis started", {
-              description: "Real-time analysis of tone, expression, and gestures is now active"
-            });
+            notifyAnalysisStarted("Analysis started", "Real-time analysis of tone, expression, and gestures is now active");
           } else {
             toast.error("Analysis failed", {
               description: "Could not start real-time analysis. Please try again."
@@ -151,27 +337,13 @@ export const RecordAnswer = ({
     }
   };
 
-  const cleanJsonResponse = (responseText: string) => {
-
-    let cleanText = responseText.trim();
-
-
-    cleanText = cleanText.replace(/(json|```|`)/g, "");
-
-
-    try {
-      return JSON.parse(cleanText);
-    } catch (error) {
-      throw new Error("Invalid JSON format: " + (error as Error)?.message);
-    }
-  };
-
   const generateResult = async (
   qst: string,
   qstAns: string,
   userAns: string)
   : Promise<AIResponse> => {
     setIsAiGenerating(true);
+    setStreamingFeedback("");
 
 
     let realTimeAnalysis: {
@@ -179,6 +351,7 @@ export const RecordAnswer = ({
       emotionAnalysis: EmotionAnalysis;
       gestureAnalysis: GestureAnalysis;
       stressAnalysis: StressAnalysis;
+      eyeContactAnalysis?: EyeContactAnalysis;
     } = {
       toneAnalysis: {
         pitch: 50,
@@ -208,49 +381,51 @@ export const RecordAnswer = ({
       }
     };
 
+    const fluencyAnalysis = fluencyAnalyzerRef.current.getAnalysis();
+
 
-    if (isAnalyzing && analysisManagerRef.current) {
+    if (isAnalyzing) {
 
-      analysisManagerRef.current.updateSpeechText(userAns);
+      analysisManager.updateSpeechText(userAns);
 
 
-      const analysisResults = analysisManagerRef.current.getAnalysisResults();
+      const analysisResults = analysisManager.getAnalysisResults();
       realTimeAnalysis = {
         toneAnalysis: analysisResults.toneAnalysis,
         emotionAnalysis: analysisResults.emotionAnalysis,
         gestureAnalysis: analysisResults.gestureAnalysis,
-        stressAnalysis: analysisResults.stressAnalysis
+        stressAnalysis: analysisResults.stressAnalysis,
+        eyeContactAnalysis: analysisResults.eyeContactAnalysis
       };
     }
 
-    const prompt = `
-      Question: "${qst}"
-      User Answer: "${userAns}"
-      Correct Answer: "${qstAns}"
-      
-      Analyze the answer and provide a concise analysis with actionable tips:
-      1. Content Rating (1-10) with a brief improvement tip
-      
-      Return a JSON response with concise tips:
-      {
-        "ratings": number (1-10),
-        "feedback": "Brief actionable content improvement tip"
-      }
-    `;
+    const questionType = question.type ?? DEFAULT_QUESTION_TYPE;
 
     try {
 
-      const aiResult = await chatSession.sendMessage(prompt);
-      const parsedContentResult = cleanJsonResponse(aiResult.response.text());
+      const grade = await gradeAnswer({
+        question: qst,
+        referenceAnswer: qstAns,
+        userAnswer: userAns,
+        type: questionType,
+        cvData,
+        samples: ratingSamples,
+        onText: (text) => setStreamingFeedback(extractPartialStringField(text, "feedback") ?? "")
+      });
 
 
       const combinedResult: AIResponse = {
-        ratings: parsedContentResult.ratings || 0,
-        feedback: parsedContentResult.feedback || "Unable to generate feedback",
+        ratings: grade.rating,
+        feedback: grade.feedback,
+        questionType,
+        rubric: grade.rubric,
+        ...(grade.consistency ? { ratingConsistency: grade.consistency } : {}),
         toneAnalysis: realTimeAnalysis.toneAnalysis,
         emotionAnalysis: realTimeAnalysis.emotionAnalysis,
         gestureAnalysis: realTimeAnalysis.gestureAnalysis,
-        stressAnalysis: realTimeAnalysis.stressAnalysis
+        stressAnalysis: realTimeAnalysis.stressAnalysis,
+        fluencyAnalysis,
+        ...(realTimeAnalysis.eyeContactAnalysis ? { eyeContactAnalysis: realTimeAnalysis.eyeContactAnalysis } : {})
       };
 
       return combinedResult;
@@ -263,10 +438,13 @@ export const RecordAnswer = ({
       return {
         ratings: 0,
         feedback: `Unable to generate feedback: ${getErrorMessage(error)}`,
+        questionType,
         toneAnalysis: realTimeAnalysis.toneAnalysis,
         emotionAnalysis: realTimeAnalysis.emotionAnalysis,
         gestureAnalysis: realTimeAnalysis.gestureAnalysis,
-        stressAnalysis: realTimeAnalysis.stressAnalysis
+        stressAnalysis: realTimeAnalysis.stressAnalysis,
+        fluencyAnalysis,
+        ...(realTimeAnalysis.eyeContactAnalysis ? { eyeContactAnalysis: realTimeAnalysis.eyeContactAnalysis } : {})
       };
     } finally {
       setIsAiGenerating(false);
@@ -289,16 +467,21 @@ export const RecordAnswer = ({
       }
 
 
-      if (isAnalyzing && analysisManagerRef.current) {
-        analysisManagerRef.current.stop();
-        setIsAnalyzing(false);
+      if (isAnalyzing) {
+        stopAnalysis();
       }
+      await stopLocalRecording();
 
 
       setResultsStartIndex(results.length);
+      processedResultsRef.current = results.length;
+      fluencyAnalyzerRef.current.start();
+      timedOutRef.current = false;
 
 
       startSpeechToText();
+      startAnswerTimer();
+      await startLocalRecording();
 
 
       if (isWebCam && webcamRef.current && webcamRef.current.video) {
@@ -307,21 +490,14 @@ export const RecordAnswer = ({
           const audioStream = await navigator.mediaDevices.getUserMedia({ audio: true });
 
 
-          if (!analysisManagerRef.current) {
-            analysisManagerRef.current = new AnalysisManager();
-          }
-
-
-          const success = await analysisManagerRef.current.start(
+          const success = await analysisManager.start(
             webcamRef.current.video,
             audioStream
           );
 
           if (success) {
             setIsAnalyzing(true);
-            toast.success("Recording restarted", {
-              description: "New recording started with real-time analysis"
-            });
+            notifyAnalysisStarted("Recording restarted", "New recording started with real-time analysis");
           } else {
             toast.error("Analysis failed", {
               description: "Could not start real-time analysis. Recording will continue without analysis."
@@ -355,69 +531,110 @@ export const RecordAnswer = ({
     }
   };
 
-  const saveUserAnswer = async () => {
-    setLoading(true);
-
-    if (!aiResult) {
+  const saveUserAnswer = async (result = aiResult) => {
+    // A failed grade is never saved: it would count as a 0 everywhere
+    if (!result || result.ratings === 0) {
       return;
     }
+    setLoading(true);
 
     const currentQuestion = question.question;
     try {
-
-
-      const userAnswerQuery = query(
+      // Every save is a new attempt; earlier attempts stay for comparison
+      const previousAttempts = await getCountFromServer(query(
         collection(db, "userAnswers"),
         where("userId", "==", userId),
+        where("mockIdRef", "==", interviewId),
         where("question", "==", currentQuestion)
-      );
-
-      const querySnap = await getDocs(userAnswerQuery);
-
-
-      if (!querySnap.empty) {
-        console.log("Query Snap Size", querySnap.size);
-        toast.info("Already Answered", {
-          description: "You have already answered this question"
-        });
-        return;
-      } else {
-
+      ));
+      const attempt = previousAttempts.data().count + 1;
+
+      const answerRef = await addDoc(collection(db, "userAnswers"), {
+        mockIdRef: interviewId,
+        question: question.question,
+        correct_ans: question.answer,
+        user_ans: userAnswer,
+        feedback: result.feedback,
+        rating: result.ratings,
+        questionType: result.questionType,
+        ...(result.rubric ? { rubric: result.rubric } : {}),
+        ...(result.ratingConsistency ? { ratingConsistency: result.ratingConsistency } : {}),
+        userId,
+        attempt,
+        createdAt: serverTimestamp(),
+        toneAnalysis: result.toneAnalysis,
+        emotionAnalysis: result.emotionAnalysis,
+        gestureAnalysis: result.gestureAnalysis,
+        stressAnalysis: result.stressAnalysis,
+        fluencyAnalysis: result.fluencyAnalysis,
+        ...(result.eyeContactAnalysis ? { eyeContactAnalysis: result.eyeContactAnalysis } : {}),
+        ...(result.timing ? { timing: result.timing } : {}),
+        ...(parentQuestion ? { parentQuestion, followUpDepth } : {})
+      });
 
-        await addDoc(collection(db, "userAnswers"), {
-          mockIdRef: interviewId,
-          question: question.question,
-          correct_ans: question.answer,
-          user_ans: userAnswer,
-          feedback: aiResult.feedback,
-          rating: aiResult.ratings,
-          userId,
-          createdAt: serverTimestamp(),
-          toneAnalysis: aiResult.toneAnalysis,
-          emotionAnalysis: aiResult.emotionAnalysis,
-          gestureAnalysis: aiResult.gestureAnalysis,
-          stressAnalysis: aiResult.stressAnalysis
-        });
+      toast("Saved", { description: "Your answer has been saved.." });
+
+      // Every attempt counts towards progress, see "@/lib/progress"
+      if (userId) {
+        recordAnswerProgress(userId, {
+          rating: result.ratings,
+          feedback: result.feedback,
+          techStack,
+          stressAnalysis: result.stressAnalysis,
+          fluencyAnalysis: result.fluencyAnalysis,
+          timestamp: Date.now()
+        }).catch((error) => console.warn("Error updating progress:", error));
+      }
 
-        toast("Saved", { description: "Your answer has been saved.." });
+      const recording = pendingRecordingRef.current;
+      if (recording && interviewId) {
+        try {
+          await saveRecording({
+            ...recording,
+            interviewId,
+            answerId: answerRef.id,
+            question: question.question,
+            transcript: fluencyAnalyzerRef.current.getSegments(),
+            emotionTimeline: result.emotionAnalysis.timeline,
+            stressTimeline: result.stressAnalysis.timeline
+          });
+          pendingRecordingRef.current = null;
+        } catch (error) {
+          console.warn("Error saving local recording:", error);
+          toast.warning("Recording not saved", {
+            description: "Your answer was saved, but the recording could not be stored on this device."
+          });
+        }
       }
 
+      onAnswerSaved?.({ answerId: answerRef.id, rating: result.ratings, feedback: result.feedback });
       setUserAnswer("");
       stopSpeechToText();
+      // Another attempt gets no think countdown, but its think time is still measured
+      thinkStartedAtRef.current = Date.now();
+      thinkTimeExpiredRef.current = false;
     } catch (error) {
       toast("Error", {
-        description: "An error occurred while generating feedback."
+        description: "Your answer could not be saved. Please try again."
       });
       console.log(error);
+      onAnswerFailed?.("saving");
     } finally {
       setLoading(false);
-      setOpen(!open);
+      setOpen(false);
     }
   };
 
   useEffect(() => {
 
     const currentSessionResults = results.slice(resultsStartIndex);
+    results.slice(processedResultsRef.current).forEach((result) => {
+      if (typeof result !== "string") {
+        fluencyAnalyzerRef.current.addResult(result.transcript);
+      }
+    });
+    processedResultsRef.current = results.length;
+
     const combineTranscripts = currentSessionResults.
     filter((result): result is ResultType => typeof result !== "string").
     map((result) => result.transcript).
@@ -426,20 +643,84 @@ export const RecordAnswer = ({
     setUserAnswer(combineTranscripts);
 
 
-    if (isAnalyzing && analysisManagerRef.current && combineTranscripts) {
-      analysisManagerRef.current.updateSpeechText(combineTranscripts);
+    if (isAnalyzing && combineTranscripts) {
+      analysisManager.updateSpeechText(combineTranscripts);
     }
-  }, [results, isAnalyzing, resultsStartIndex]);
+  }, [results, isAnalyzing, resultsStartIndex, analysisManager]);
 
 
   useEffect(() => {
-    return () => {
+    if (isRecording && interimResult) {
+      fluencyAnalyzerRef.current.markSpeaking();
+    }
+  }, [interimResult, isRecording]);
 
-      if (analysisManagerRef.current) {
-        analysisManagerRef.current.stop();
-      }
+
+  useEffect(() => {
+    if (!userId) return;
+
+    loadStressBaseline(userId).
+    then((profile) => {
+      baselineProfileRef.current = profile;
+      analysisManager.setStressBaseline(profile);
+    }).
+    catch((error) => console.warn("Error loading stress baseline:", error));
+  }, [userId, analysisManager]);
+
+
+  useEffect(() => {
+    const unsubscribeFaceLost = analysisManager.events.on("faceLost", () => {
+      toast.warning("Face not detected", {
+        description: "Stay centered in the camera so expression and stress analysis can continue."
+      });
+    });
+
+    const sessionRecorder = sessionRecorderRef.current;
+    return () => {
+      unsubscribeFaceLost();
+      analysisManager.stop();
+      sessionRecorder.stop();
+      recordingAudioRef.current?.getTracks().forEach((track) => track.stop());
     };
-  }, []);
+  }, [analysisManager]);
+
+  // In a timed interview the think countdown starts as soon as the question is shown
+  useEffect(() => {
+    if (!timing) return;
+    thinkStartedAtRef.current = Date.now();
+    setThinkDeadline(Date.now() + timing.thinkSeconds * 1000);
+  }, [timing]);
+
+  const thinkLeft = useCountdown(thinkDeadline, () => {
+    setThinkDeadline(null);
+    if (isRecording || budgetLeft === 0) return;
+    thinkTimeExpiredRef.current = true;
+    toast("Think time is up", { description: "Recording has started." });
+    recordUserAnswer();
+  });
+
+  const answerLeft = useCountdown(answerDeadline, () => {
+    if (!isRecording) return;
+    timedOutRef.current = true;
+    toast("Time is up", { description: "Recording stopped and your answer is being scored." });
+    recordUserAnswer();
+  });
+
+  const busy = isRecording || isAiGenerating || loading;
+  useEffect(() => {
+    onBusyChange?.(busy);
+  }, [busy, onBusyChange]);
+  useEffect(() => () => onBusyChange?.(false), [onBusyChange]);
+
+  const budgetExpired = budgetLeft === 0;
+  useEffect(() => {
+    if (budgetExpired) setThinkDeadline(null);
+  }, [budgetExpired]);
+
+  const countdown =
+  isRecording && answerLeft !== null ? { label: "Time left", seconds: answerLeft } :
+  !isRecording && thinkLeft !== null ? { label: "Think time, recording starts in", seconds: thinkLeft } :
+  null;
 
   return (
     <div className="w-full flex flex-col items-center gap-8 mt-4">
@@ -447,7 +728,7 @@ export const RecordAnswer = ({
       <SaveModal
         isOpen={open}
         onClose={() => setOpen(false)}
-        onConfirm={saveUserAnswer}
+        onConfirm={() => saveUserAnswer()}
         loading={loading} />
 
 
@@ -464,6 +745,18 @@ export const RecordAnswer = ({
         }
       </div>
 
+      {countdown &&
+      <div
+        className={cn(
+          "flex items-center gap-2 text-sm font-medium",
+          countdown.seconds <= URGENT_SECONDS ? "text-red-500" : "text-muted-foreground"
+        )}>
+
+          <Hourglass className="w-4 h-4" />
+          {countdown.label} <span className="text-lg tabular-nums">{formatClock(countdown.seconds)}</span>
+        </div>
+      }
+
       <div className="flex itece justify-center gap-3">
         <TooltipButton
           content={isWebCam ? "Turn Off" : "Turn On"}
@@ -486,7 +779,8 @@ export const RecordAnswer = ({
           <Mic className="min-w-5 min-h-5" />
 
           }
-          onClick={recordUserAnswer} />
+          onClick={recordUserAnswer}
+          disbaled={budgetExpired && !isRecording} />
 
 
         <TooltipButton
@@ -513,15 +807,18 @@ export const RecordAnswer = ({
 
           }
           onClick={() => setOpen(!open)}
-          disbaled={!aiResult} />
+          disbaled={!aiResult || aiResult.ratings === 0} />
 
       </div>
 
+      {isWebCam && <AnalysisStatus analysisManager={analysisManager} />}
+
       {/* Stress Detection Component */}
       {isWebCam && (
         <StressDetection
           videoElement={webcamRef.current?.video || null}
           isRecording={isRecording}
+          analysisManager={analysisManager}
           className="w-full max-w-md"
         />
       )}
@@ -540,6 +837,37 @@ export const RecordAnswer = ({
           </p>
         }
       </div>
+
+      {(isAiGenerating || aiResult) &&
+      <div className="w-full p-4 border rounded-md bg-gray-50">
+          <h2 className="text-lg font-semibold">
+            AI Feedback{aiResult ? `: ${aiResult.ratings}/10` : ""}
+          </h2>
+
+          {aiResult?.ratingConsistency &&
+        <p className="text-xs text-muted-foreground">
+              Median of {aiResult.ratingConsistency.samples.length} ratings (
+              {aiResult.ratingConsistency.samples.join(", ")}), confidence{" "}
+              {Math.round(aiResult.ratingConsistency.confidence * 100)}%
+            </p>
+        }
+
+          <p className="text-sm mt-2 text-gray-700 whitespace-normal">
+            {aiResult ? aiResult.feedback : streamingFeedback || "Analyzing your answer..."}
+          </p>
+
+          {aiResult?.rubric &&
+        <ul className="mt-3 space-y-1">
+              {aiResult.rubric.map((item) =>
+          <li key={item.criterion} className="text-sm text-gray-700">
+                  <span className="font-medium">{RUBRIC_LABELS[item.criterion]}: {item.score}/10</span>
+                  {" "}- {item.comment}
+                </li>
+          )}
+            </ul>
+        }
+        </div>
+      }
     </div>);
 
 };
\ No newline at end of file
@@ -0,0 +1,51 @@
+import { FileDown, FileText } from "lucide-react";
+import { toast } from "sonner";
+import { Interview, UserAnswer } from "@/types";
+import { downloadReportMarkdown, printReport } from "@/lib/report";
+import { TooltipButton } from "./tooltip-button";
+
+interface ReportExportProps {
+  interview: Interview;
+  answers: UserAnswer[];
+}
+
+/**
+ * Export the interview report to share with a mentor: PDF through the
+ * browser's print dialog, or a Markdown file.
+ */
+export const ReportExport = ({ interview, answers }: ReportExportProps) => {
+  const handlePdf = async () => {
+    try {
+      await printReport(interview, answers);
+    } catch (error) {
+      console.error("Error printing report:", error);
+      toast.error("Export failed", {
+        description: "The PDF report could not be prepared. Try the Markdown export instead."
+      });
+    }
+  };
+
+  const handleMarkdown = () => {
+    try {
+      downloadReportMarkdown(interview, answers);
+    } catch (error) {
+      console.error("Error exporting report:", error);
+      toast.error("Export failed", { description: "The Markdown report could not be created." });
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <TooltipButton
+        content="Export PDF (choose Save as PDF)"
+        icon={<FileDown className="min-w-5 min-h-5" />}
+        onClick={handlePdf} />
+
+      <TooltipButton
+        content="Export Markdown"
+        icon={<FileText className="min-w-5 min-h-5" />}
+        onClick={handleMarkdown} />
+
+    </div>);
+
+};
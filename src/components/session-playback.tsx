@@ -0,0 +1,171 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { CircleCheck, Download, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardDescription, CardTitle } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import { timeTranscript } from "@/lib/analysis/fluency";
+import {
+  SessionRecording,
+  deleteRecording,
+  exportRecording,
+  getRecordingForAnswer } from
+"@/lib/recordings";
+
+interface SessionPlaybackProps {
+  answerId: string;
+}
+
+/**
+ * Latest entry at or before `timestamp`, assuming entries are sorted.
+ */
+const entryAt = <T extends {timestamp: number;},>(entries: T[], timestamp: number): T | null => {
+  let latest: T | null = null;
+  for (const entry of entries) {
+    if (entry.timestamp > timestamp) break;
+    latest = entry;
+  }
+  return latest;
+};
+
+/**
+ * Plays back a locally recorded answer with the transcript and analysis
+ * aligned to the video. Renders nothing if the answer wasn't recorded on
+ * this device.
+ */
+export const SessionPlayback = ({ answerId }: SessionPlaybackProps) => {
+  const [recording, setRecording] = useState<SessionRecording | null>(null);
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getRecordingForAnswer(answerId).
+    then((result) => {
+      if (!cancelled) setRecording(result);
+    }).
+    catch((error) => console.warn("Error loading local recording:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [answerId]);
+
+  useEffect(() => {
+    if (!recording) return;
+
+    const url = URL.createObjectURL(recording.video);
+    setVideoUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [recording]);
+
+  const words = useMemo(
+    () => recording ? timeTranscript(recording.transcript) : [],
+    [recording]
+  );
+
+  if (!recording || !videoUrl) {
+    return null;
+  }
+
+  const timestamp = recording.startTime + currentTime * 1000;
+  const currentWord = entryAt(words, timestamp);
+  const emotion = entryAt(recording.emotionTimeline, timestamp);
+  const stress = entryAt(recording.stressTimeline, timestamp);
+
+  // MediaRecorder WebM files report an infinite duration until the browser
+  // has seen the end, so seek past it once to get a real one.
+  const handleLoadedMetadata = () => {
+    const video = videoRef.current;
+    if (video && video.duration === Infinity) {
+      video.currentTime = Number.MAX_SAFE_INTEGER;
+      video.ontimeupdate = () => {
+        video.ontimeupdate = null;
+        video.currentTime = 0;
+      };
+    }
+  };
+
+  const seekTo = (wordTimestamp: number) => {
+    if (videoRef.current) {
+      videoRef.current.currentTime = Math.max(0, (wordTimestamp - recording.startTime) / 1000);
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await deleteRecording(recording.id);
+      setRecording(null);
+      setVideoUrl(null);
+      toast("Recording deleted", { description: "The recording was removed from this device." });
+    } catch (error) {
+      console.warn("Error deleting local recording:", error);
+      toast.error("Error", { description: "Could not delete the recording." });
+    }
+  };
+
+  return (
+    <Card className="border-none space-y-3 p-4 bg-slate-50 rounded-lg shadow-md">
+      <CardTitle className="flex items-center text-lg">
+        <CircleCheck className="mr-2 text-slate-600" />
+        Answer Playback
+      </CardTitle>
+      <CardDescription className="text-gray-600">
+        Stored on this device only. Scrub the video to see what you said and how
+        you came across at that moment.
+      </CardDescription>
+
+      <video
+        ref={videoRef}
+        src={videoUrl}
+        controls
+        onLoadedMetadata={handleLoadedMetadata}
+        onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+        className="w-full max-h-[360px] rounded-md bg-black" />
+
+
+      <div className="flex flex-wrap gap-4 text-sm">
+        <span>
+          Emotion:{" "}
+          <span className="capitalize font-medium">{emotion?.emotion ?? "-"}</span>
+        </span>
+        <span>
+          Stress:{" "}
+          <span className={cn("font-medium", stress?.stress ? "text-red-600" : "text-green-600")}>
+            {stress ? `${stress.stress ? "Stressed" : "Calm"} (${Math.round(stress.confidence * 100)}%)` : "-"}
+          </span>
+        </span>
+      </div>
+
+      {words.length > 0 &&
+      <p className="text-sm leading-relaxed text-gray-700">
+          {words.map((word, i) =>
+        <span
+          key={i}
+          onClick={() => seekTo(word.timestamp)}
+          className={cn(
+            "cursor-pointer rounded px-0.5",
+            word === currentWord ? "bg-yellow-200" : "hover:bg-gray-200"
+          )}>
+
+              {word.word}{" "}
+            </span>
+        )}
+        </p>
+      }
+
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={() => exportRecording(recording)}>
+          <Download className="w-4 h-4 mr-2" />
+          Export
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleDelete}>
+          <Trash2 className="w-4 h-4 mr-2" />
+          Delete
+        </Button>
+      </div>
+    </Card>);
+
+};
@@ -0,0 +1,133 @@
+import { RefObject, useEffect, useState } from "react";
+import { useAuth } from "@clerk/clerk-react";
+import { Brain, Loader } from "lucide-react";
+import { toast } from "sonner";
+import WebCam from "react-webcam";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import {
+  StressBaselineProfile,
+  StressDetector,
+  getRecalibrationReason,
+  measureEnvironment } from
+"@/lib/analysis";
+import { loadStressBaseline, saveStressBaseline } from "@/lib/stress-baselines";
+
+interface StressCalibrationProps {
+  webcamRef: RefObject<WebCam>;
+  isWebCamEnabled: boolean;
+  className?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Calm calibration step before the interview. Captures the user's resting
+ * expressions once and stores them as their stress baseline, so answers are
+ * compared against how they look when relaxed rather than at the start of
+ * each answer.
+ */
+export const StressCalibration = ({ webcamRef, isWebCamEnabled, className }: StressCalibrationProps) => {
+  const { userId } = useAuth();
+  const [profile, setProfile] = useState<StressBaselineProfile | null>(null);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [progress, setProgress] = useState(0);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    loadStressBaseline(userId).
+    then(setProfile).
+    catch((error) => console.warn("Error loading stress baseline:", error));
+  }, [userId]);
+
+  const handleCalibrate = async () => {
+    const video = webcamRef.current?.video;
+    if (!userId || !video) return;
+
+    const detector = new StressDetector();
+    const unsubscribe = detector.events.on("calibrationProgress", (event) => setProgress(event.progress));
+    setIsCalibrating(true);
+    setProgress(0);
+
+    try {
+      const calibrated = (await detector.initialize(video)) && (await detector.startCalibration());
+      const baseline = detector.getBaseline();
+      if (!calibrated || !baseline) {
+        throw new Error("Calibration did not finish");
+      }
+
+      const now = Date.now();
+      const calibratedProfile: StressBaselineProfile = {
+        averageExpressions: baseline.averageExpressions,
+        sampleCount: baseline.expressions.length,
+        environment: measureEnvironment(video),
+        sessions: 1,
+        createdAt: now,
+        updatedAt: now,
+        needsRecalibration: false
+      };
+      await saveStressBaseline(userId, calibratedProfile);
+      setProfile(calibratedProfile);
+
+      toast.success("Baseline saved", {
+        description: "Stress detection will compare your answers against this calm baseline."
+      });
+    } catch (error) {
+      console.error("Error calibrating stress baseline:", error);
+      toast.error("Calibration failed", {
+        description: "Make sure your face is visible and well lit, then try again."
+      });
+    } finally {
+      unsubscribe();
+      detector.reset();
+      setIsCalibrating(false);
+    }
+  };
+
+  const reason = profile ? getRecalibrationReason(profile, Date.now()) : null;
+  const age = profile ? Math.floor((Date.now() - profile.updatedAt) / DAY_MS) : 0;
+
+  return (
+    <div className={cn("flex flex-col gap-3 p-4 border rounded-lg bg-purple-50 border-purple-200", className)}>
+      <div className="flex items-center gap-2">
+        <Brain className="w-5 h-5 text-purple-600" />
+        <h3 className="font-semibold text-purple-800">Stress Baseline</h3>
+      </div>
+
+      <p className="text-sm text-purple-700">
+        {!profile ?
+        "Calibrate once while relaxed so stress detection knows your resting expressions. Without a baseline, each answer is calibrated during its first 5 seconds." :
+        reason ?
+        `${reason}. Recalibrate for accurate stress detection.` :
+        `Calibrated ${age === 0 ? "today" : `${age} day${age === 1 ? "" : "s"} ago`} and refined over ${profile.sessions} session${profile.sessions === 1 ? "" : "s"}.`}
+      </p>
+
+      {isCalibrating &&
+      <div className="space-y-1">
+          <p className="text-xs text-purple-700">Look at the camera and relax...</p>
+          <div className="w-full bg-purple-100 rounded-full h-2">
+            <div
+            className="bg-purple-600 h-2 rounded-full transition-all duration-300"
+            style={{ width: `${progress * 100}%` }} />
+
+          </div>
+        </div>
+      }
+
+      <Button
+        size="sm"
+        variant="outline"
+        className="self-start"
+        onClick={handleCalibrate}
+        disabled={!isWebCamEnabled || isCalibrating || !userId}>
+
+        {isCalibrating && <Loader className="w-4 h-4 mr-2 animate-spin" />}
+        {profile ? "Recalibrate" : "Calibrate"}
+      </Button>
+      {!isWebCamEnabled &&
+      <p className="text-xs text-purple-600">Enable your webcam to calibrate.</p>
+      }
+    </div>);
+
+};
@@ -1,12 +1,21 @@
-import React, { useRef, useState, useEffect } from 'react';
+import React, { useRef, useState } from 'react';
 import { StressDetection } from './stress-detection';
 import { Play, Square, Video, VideoOff } from 'lucide-react';
 import { TooltipButton } from './tooltip-button';
 import WebCam from 'react-webcam';
+import { Button } from '@/components/ui/button';
+import { STRESS_PRESETS, StressPresetName } from '@/lib/analysis/stress-config';
+
+const PRESETS: Array<{name: StressPresetName;label: string;description: string;}> = [
+{ name: 'sensitive', label: 'Sensitive', description: 'Flags smaller, shorter changes. More false positives.' },
+{ name: 'balanced', label: 'Balanced', description: 'Default settings used during interviews.' },
+{ name: 'conservative', label: 'Conservative', description: 'Needs larger, sustained changes. Fewer false positives.' }];
+
 
 export const StressDetectionDemo: React.FC = () => {
   const [isWebCamActive, setIsWebCamActive] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
+  const [preset, setPreset] = useState<StressPresetName>('balanced');
   const [stressData, setStressData] = useState<{
     stress: boolean;
     confidence: number;
@@ -18,6 +27,7 @@ export const StressDetectionDemo: React.FC = () => {
   });
 
   const webcamRef = useRef<WebCam>(null);
+  const config = STRESS_PRESETS[preset];
 
   const handleStressDetected = (stress: boolean, confidence: number, features: string[]) => {
     setStressData({ stress, confidence, features });
@@ -81,6 +91,26 @@ export const StressDetectionDemo: React.FC = () => {
               disbaled={!isWebCamActive}
             />
           </div>
+
+          {/* Sensitivity */}
+          <div className="space-y-2">
+            <h3 className="font-medium text-gray-800">Sensitivity</h3>
+            <div className="flex gap-2">
+              {PRESETS.map((option) =>
+              <Button
+                key={option.name}
+                size="sm"
+                variant={preset === option.name ? 'default' : 'outline'}
+                onClick={() => setPreset(option.name)}>
+
+                  {option.label}
+                </Button>
+              )}
+            </div>
+            <p className="text-sm text-gray-600">
+              {PRESETS.find((option) => option.name === preset)?.description}
+            </p>
+          </div>
         </div>
 
         {/* Stress Detection Section */}
@@ -91,6 +121,7 @@ export const StressDetectionDemo: React.FC = () => {
             <StressDetection
               videoElement={webcamRef.current?.video || null}
               isRecording={isRecording}
+              config={preset}
               onStressDetected={handleStressDetected}
               className="w-full"
             />
@@ -158,7 +189,7 @@ export const StressDetectionDemo: React.FC = () => {
         <ol className="list-decimal list-inside space-y-2 text-blue-700">
           <li>Click "Turn On Camera" to enable your webcam</li>
           <li>Click "Start Detection" to begin stress analysis</li>
-          <li>The system will first calibrate by capturing your neutral expression for 5 seconds</li>
+          <li>The system will first calibrate by capturing your neutral expression for {config.calibrationDuration / 1000} seconds</li>
           <li>After calibration, real-time stress detection will begin</li>
           <li>Try different expressions to see how the system responds</li>
           <li>The system uses temporal smoothing to reduce false positives</li>
@@ -173,9 +204,10 @@ export const StressDetectionDemo: React.FC = () => {
             <h4 className="font-medium text-gray-800 mb-2">Detection Method</h4>
             <ul className="space-y-1">
               <li>• Uses face-api.js TinyFaceDetector</li>
-              <li>• Baseline calibration (5 seconds)</li>
-              <li>• Expression deviation analysis</li>
-              <li>• Temporal smoothing (5-frame window)</li>
+              <li>• Baseline calibration ({config.calibrationDuration / 1000} seconds)</li>
+              <li>• Expression deviation analysis (threshold {config.stressThreshold})</li>
+              <li>• Temporal smoothing ({config.smoothingWindow}-frame window)</li>
+              <li>• Stress reported above {Math.round(config.confidenceThreshold * 100)}% confidence</li>
             </ul>
           </div>
           <div>
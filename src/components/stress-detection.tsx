@@ -3,10 +3,15 @@ import { useStressDetection } from '@/hooks/useStressDetection';
 import { AlertTriangle, Brain, CheckCircle, Loader, Play, Square, RotateCcw } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { TooltipButton } from './tooltip-button';
+import type { AnalysisManager, StressConfigOverrides, StressPresetName } from '@/lib/analysis';
 
 interface StressDetectionProps {
   videoElement: HTMLVideoElement | null;
   isRecording: boolean;
+  /** Show the stress analyzer of this manager instead of running a separate detector. */
+  analysisManager?: AnalysisManager | null;
+  /** Settings or preset for the component's own detector; ignored when following a manager. */
+  config?: StressConfigOverrides | StressPresetName;
   onStressDetected?: (stress: boolean, confidence: number, features: string[]) => void;
   className?: string;
 }
@@ -14,23 +19,28 @@ interface StressDetectionProps {
 export const StressDetection: React.FC<StressDetectionProps> = ({
   videoElement,
   isRecording,
+  analysisManager,
+  config,
   onStressDetected,
   className
 }) => {
-  const [state, controls] = useStressDetection();
+  const following = !!analysisManager;
+  const [state, controls] = useStressDetection(analysisManager?.events ?? null, config);
   const hasInitialized = useRef(false);
 
   // Initialize when video element is available
   useEffect(() => {
+    if (following) return;
+
     if (videoElement && !hasInitialized.current) {
       hasInitialized.current = true;
       controls.initialize(videoElement);
     }
-  }, [videoElement, controls]);
+  }, [videoElement, controls, following]);
 
   // Handle recording state changes
   useEffect(() => {
-    if (!state.isInitialized) return;
+    if (following || !state.isInitialized) return;
 
     if (isRecording) {
       // Start detection when recording starts (after calibration)
@@ -43,7 +53,7 @@ export const StressDetection: React.FC<StressDetectionProps> = ({
         controls.stopDetection();
       }
     }
-  }, [isRecording, state.isInitialized, state.calibrationProgress, state.isDetecting, controls]);
+  }, [isRecording, state.isInitialized, state.calibrationProgress, state.isDetecting, controls, following]);
 
   // Notify parent component of stress changes
   useEffect(() => {
@@ -80,6 +90,15 @@ export const StressDetection: React.FC<StressDetectionProps> = ({
     return 'bg-red-100 border-red-200';
   };
 
+  if (!state.isInitialized && following && state.status !== 'loading') {
+    return (
+      <div className={cn("flex items-center gap-2 p-3 bg-gray-100 rounded-lg", className)}>
+        <Brain className="w-4 h-4 text-purple-600" />
+        <span className="text-sm text-gray-600">Stress detection starts when you begin recording.</span>
+      </div>
+    );
+  }
+
   if (!state.isInitialized) {
     return (
       <div className={cn("flex items-center gap-2 p-3 bg-gray-100 rounded-lg", className)}>
@@ -98,6 +117,7 @@ export const StressDetection: React.FC<StressDetectionProps> = ({
           <h3 className="font-semibold text-gray-800">Stress Detection</h3>
         </div>
         
+        {!following && (
         <div className="flex items-center gap-1">
           {state.calibrationProgress < 1 && (
             <TooltipButton
@@ -114,6 +134,7 @@ export const StressDetection: React.FC<StressDetectionProps> = ({
             onClick={handleReset}
           />
         </div>
+        )}
       </div>
 
       {/* Calibration Status */}
@@ -235,7 +256,7 @@ export const StressDetection: React.FC<StressDetectionProps> = ({
       )}
 
       {/* Instructions */}
-      {!state.isDetecting && state.calibrationProgress >= 1 && (
+      {!following && !state.isDetecting && state.calibrationProgress >= 1 && (
         <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg">
           <p className="text-xs text-gray-600">
             Stress detection is ready. Start recording to begin real-time analysis.
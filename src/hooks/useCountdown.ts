@@ -0,0 +1,28 @@
+import { useEffect, useRef, useState } from 'react';
+
+/**
+ * Whole seconds left until `deadline` (a timestamp), or null without one.
+ * `onExpire` is called once when the countdown reaches 0; the latest
+ * callback is used, so it may read current state.
+ */
+export const useCountdown = (deadline: number | null, onExpire?: () => void) => {
+  const [now, setNow] = useState(() => Date.now());
+  const onExpireRef = useRef(onExpire);
+  onExpireRef.current = onExpire;
+
+  useEffect(() => {
+    if (deadline === null) return;
+
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [deadline]);
+
+  const remaining = deadline === null ? null : Math.max(0, Math.ceil((deadline - now) / 1000));
+
+  useEffect(() => {
+    if (remaining === 0) onExpireRef.current?.();
+  }, [remaining, deadline]);
+
+  return remaining;
+};
@@ -1,7 +1,12 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { StressDetector, StressDetectionResult } from '@/lib/analysis/stress-detector';
+import { AnalysisEventBus, AnalyzerStatus } from '@/lib/analysis/events';
+import { StressConfigOverrides, StressPresetName } from '@/lib/analysis/stress-config';
+import { systemClock } from '@/lib/analysis/sources';
 
 export interface StressDetectionState {
+  /** Status of the shared stress analyzer when following an event bus. */
+  status?: AnalyzerStatus;
   isInitialized: boolean;
   isCalibrating: boolean;
   isDetecting: boolean;
@@ -44,10 +49,22 @@ const initialState: StressDetectionState = {
   }
 };
 
-export const useStressDetection = (): [StressDetectionState, StressDetectionControls] => {
+/**
+ * Stress detection state for the UI. By default the hook owns its own
+ * detector; pass the `events` bus of a running `AnalysisManager` to follow its
+ * stress analyzer instead of running a second detector. `config` (settings or
+ * a preset name) applies to the hook's own detector, including changes while
+ * it runs.
+ */
+export const useStressDetection = (
+events: AnalysisEventBus | null = null,
+config: StressConfigOverrides | StressPresetName = {})
+: [StressDetectionState, StressDetectionControls] => {
   const [state, setState] = useState<StressDetectionState>(initialState);
   const detectorRef = useRef<StressDetector | null>(null);
-  const updateIntervalRef = useRef<number | null>(null);
+  const unsubscribeRef = useRef<(() => void) | null>(null);
+  const configRef = useRef(config);
+  configRef.current = config;
 
   // Initialize detector
   const initialize = useCallback(async (videoElement: HTMLVideoElement): Promise<boolean> => {
@@ -55,7 +72,17 @@ export const useStressDetection = (): [StressDetectionState, StressDetectionCont
       setState(prev => ({ ...prev, error: null }));
       
       if (!detectorRef.current) {
-        detectorRef.current = new StressDetector();
+        detectorRef.current = new StressDetector(systemClock, configRef.current);
+        const detectorEvents = detectorRef.current.events;
+        const unsubscribers = [
+        detectorEvents.on('calibrationProgress', (event) => {
+          setState((prev) => ({ ...prev, calibrationProgress: event.progress }));
+        }),
+        detectorEvents.on('stressUpdate', (event) => {
+          setState((prev) => ({ ...prev, currentStress: event.result, stats: event.stats }));
+        })];
+
+        unsubscribeRef.current = () => unsubscribers.forEach((unsubscribe) => unsubscribe());
       }
 
       const success = await detectorRef.current.initialize(videoElement);
@@ -171,55 +198,63 @@ export const useStressDetection = (): [StressDetectionState, StressDetectionCont
     setState(initialState);
   }, []);
 
-  // Update state periodically when detecting
+  // Apply config changes to an existing detector. Compared by value so an
+  // inline config object doesn't reapply on every render.
+  const configKey = JSON.stringify(config);
   useEffect(() => {
-    if (state.isDetecting && detectorRef.current) {
-      updateIntervalRef.current = window.setInterval(() => {
-        if (detectorRef.current) {
-          const currentStress = detectorRef.current.getCurrentStressLevel();
-          const stats = detectorRef.current.getDetectionStats();
-          
-          setState(prev => ({
-            ...prev,
-            currentStress,
-            stats
-          }));
-        }
-      }, 500); // Update UI every 500ms
+    if (!detectorRef.current) return;
 
-      return () => {
-        if (updateIntervalRef.current) {
-          clearInterval(updateIntervalRef.current);
-          updateIntervalRef.current = null;
-        }
-      };
+    try {
+      detectorRef.current.setConfig(configRef.current);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Invalid stress detector config';
+      setState((prev) => ({ ...prev, error: errorMessage }));
     }
-  }, [state.isDetecting]);
+  }, [configKey]);
 
-  // Update calibration progress
+  // Follow a shared analyzer's events
   useEffect(() => {
-    if (state.isCalibrating && detectorRef.current) {
-      const progressInterval = setInterval(() => {
-        if (detectorRef.current) {
-          const progress = detectorRef.current.getCalibrationProgress();
-          setState(prev => ({ ...prev, calibrationProgress: progress }));
-          
-          // Stop updating when calibration is complete
-          if (progress >= 1 || !detectorRef.current.isCalibrationActive()) {
-            clearInterval(progressInterval);
-          }
+    if (!events) return;
+
+    const unsubscribers = [
+    events.on('statusChange', (event) => {
+      if (event.analyzer !== 'stress') return;
+      const { status, message } = event.state;
+
+      setState((prev) => {
+        if (status === 'idle' || status === 'loading') {
+          return { ...initialState, status };
         }
-      }, 200);
+        return {
+          ...prev,
+          status,
+          isInitialized: true,
+          isCalibrating: status === 'calibrating',
+          isDetecting: status === 'running' || status === 'degraded',
+          calibrationProgress: status === 'calibrating' ? prev.calibrationProgress : 1,
+          error: message || null
+        };
+      });
+    }),
+    events.on('calibrationProgress', (event) => {
+      setState((prev) => ({ ...prev, calibrationProgress: event.progress }));
+    }),
+    events.on('stressUpdate', (event) => {
+      setState((prev) => ({ ...prev, currentStress: event.result, stats: event.stats }));
+    })];
 
-      return () => clearInterval(progressInterval);
-    }
-  }, [state.isCalibrating]);
+
+    return () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      setState(initialState);
+    };
+  }, [events]);
 
   // Cleanup on unmount
   useEffect(() => {
     return () => {
-      if (updateIntervalRef.current) {
-        clearInterval(updateIntervalRef.current);
+      if (unsubscribeRef.current) {
+        unsubscribeRef.current();
       }
       if (detectorRef.current) {
         detectorRef.current.reset();
@@ -0,0 +1,117 @@
+import {
+  MAX_BASELINE_AGE_MS,
+  StressBaselineProfile,
+  applyBaselineSession,
+  averageExpressions,
+  expressionDistance,
+  getRecalibrationReason,
+  mergeBaseline } from
+'./baseline';
+
+const expressions = (overrides: Partial<Record<string, number>> = {}) => ({
+  neutral: 0.9,
+  happy: 0.05,
+  sad: 0.01,
+  angry: 0.01,
+  fearful: 0.01,
+  disgusted: 0.01,
+  surprised: 0.01,
+  ...overrides
+});
+
+const NOW = 1700000000000;
+
+const createProfile = (overrides: Partial<StressBaselineProfile> = {}): StressBaselineProfile => ({
+  averageExpressions: expressions(),
+  sampleCount: 15,
+  environment: { brightness: 0.5, width: 640, height: 480, deviceId: 'camera-1' },
+  sessions: 1,
+  createdAt: NOW,
+  updatedAt: NOW,
+  needsRecalibration: false,
+  ...overrides
+});
+
+describe('averageExpressions', () => {
+  test('should average each expression', () => {
+    const average = averageExpressions([expressions({ neutral: 0.8 }), expressions({ neutral: 0.6 })]);
+    expect(Math.round(average.neutral * 100)).toBe(70);
+    expect(average.happy).toBe(0.05);
+  });
+});
+
+describe('expressionDistance', () => {
+  test('should be 0 for identical scores and 1 for disjoint ones', () => {
+    expect(expressionDistance(expressions(), expressions())).toBe(0);
+
+    const allNeutral = expressions({ neutral: 1, happy: 0, sad: 0, angry: 0, fearful: 0, disgusted: 0, surprised: 0 });
+    const allFearful = expressions({ neutral: 0, happy: 0, sad: 0, angry: 0, fearful: 1, disgusted: 0, surprised: 0 });
+    expect(expressionDistance(allNeutral, allFearful)).toBe(1);
+  });
+});
+
+describe('mergeBaseline', () => {
+  test('should weight the stored baseline and the session by sample count', () => {
+    const merged = mergeBaseline(
+      createProfile({ sampleCount: 30 }),
+      { averageExpressions: expressions({ neutral: 0.6 }), sampleCount: 10 },
+      NOW + 1000
+    );
+
+    expect(Math.round(merged.averageExpressions.neutral * 1000)).toBe(825);
+    expect(merged.sampleCount).toBe(40);
+    expect(merged.sessions).toBe(2);
+    expect(merged.updatedAt).toBe(NOW + 1000);
+  });
+
+  test('should cap the weight of history', () => {
+    const merged = mergeBaseline(
+      createProfile({ sampleCount: 300 }),
+      { averageExpressions: expressions({ neutral: 0.6 }), sampleCount: 100 },
+      NOW
+    );
+
+    expect(Math.round(merged.averageExpressions.neutral * 1000)).toBe(800);
+    expect(merged.sampleCount).toBe(300);
+  });
+});
+
+describe('getRecalibrationReason', () => {
+  test('should reuse a recent baseline in the same environment', () => {
+    expect(getRecalibrationReason(createProfile(), NOW + 1000, createProfile().environment)).toBe(null);
+  });
+
+  test('should recalibrate old, drifted or re-lit baselines', () => {
+    expect(getRecalibrationReason(createProfile(), NOW + MAX_BASELINE_AGE_MS + 1)).toContain('30 days');
+    expect(getRecalibrationReason(createProfile({ needsRecalibration: true }), NOW)).toContain('no longer matched');
+    expect(getRecalibrationReason(
+      createProfile(),
+      NOW,
+      { brightness: 0.2, width: 640, height: 480, deviceId: 'camera-1' }
+    )).toContain('lighting or camera');
+    expect(getRecalibrationReason(
+      createProfile(),
+      NOW,
+      { brightness: 0.5, width: 640, height: 480, deviceId: 'camera-2' }
+    )).toContain('lighting or camera');
+  });
+});
+
+describe('applyBaselineSession', () => {
+  test('should flag drifted baselines without merging', () => {
+    const profile = createProfile();
+    const updated = applyBaselineSession(
+      profile,
+      { update: { averageExpressions: expressions({ neutral: 0.2 }), sampleCount: 50 }, drifted: true },
+      NOW
+    );
+
+    expect(updated.needsRecalibration).toBe(true);
+    expect(updated.averageExpressions).toEqual(profile.averageExpressions);
+  });
+
+  test('should leave the baseline alone when the session had no calm frames', () => {
+    const profile = createProfile();
+    expect(applyBaselineSession(profile, { update: null, drifted: false }, NOW)).toBe(profile);
+  });
+});
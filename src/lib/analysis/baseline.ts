@@ -0,0 +1,168 @@
+import { ExpressionScores } from './sources';
+
+/**
+ * Per-user stress baselines.
+ *
+ * A baseline is the user's average expression scores while calm. It is
+ * captured once in a dedicated calibration step, reused for every answer and
+ * nudged towards the calm frames of each later session, instead of being
+ * recomputed at the start of every answer when the candidate may already be
+ * nervous. It is recalibrated when it gets old, the camera setup changes, or
+ * it stops matching the user's face during a session (drift).
+ */
+
+export interface CameraEnvironment {
+  /** Mean luma of the frame, 0-1. */
+  brightness: number;
+  width: number;
+  height: number;
+  deviceId?: string;
+}
+
+export interface StressBaselineProfile {
+  averageExpressions: ExpressionScores;
+  sampleCount: number;
+  environment: CameraEnvironment;
+  /** Sessions that contributed to the baseline, including the calibration. */
+  sessions: number;
+  createdAt: number;
+  updatedAt: number;
+  /** Set when drift was detected; the next session should recalibrate. */
+  needsRecalibration?: boolean;
+}
+
+export interface BaselineUpdate {
+  averageExpressions: ExpressionScores;
+  sampleCount: number;
+}
+
+export const MAX_BASELINE_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+// Caps the weight of history so the baseline keeps adapting
+export const MAX_BASELINE_SAMPLES = 300;
+const BRIGHTNESS_TOLERANCE = 0.2;
+
+const EXPRESSION_KEYS: Array<keyof ExpressionScores> = [
+'neutral', 'happy', 'sad', 'angry', 'fearful', 'disgusted', 'surprised'];
+
+
+export const averageExpressions = (samples: ExpressionScores[]): ExpressionScores => {
+  const average = Object.fromEntries(EXPRESSION_KEYS.map((key) => [key, 0])) as unknown as ExpressionScores;
+  if (samples.length === 0) return average;
+
+  samples.forEach((sample) => {
+    EXPRESSION_KEYS.forEach((key) => {
+      average[key] += sample[key] / samples.length;
+    });
+  });
+  return average;
+};
+
+/**
+ * Half the summed absolute difference between two sets of scores, 0-1.
+ */
+export const expressionDistance = (a: ExpressionScores, b: ExpressionScores): number =>
+EXPRESSION_KEYS.reduce((sum, key) => sum + Math.abs(a[key] - b[key]), 0) / 2;
+
+/**
+ * Fold a session's calm frames into a stored baseline, weighting both by
+ * sample count.
+ */
+export const mergeBaseline = (
+profile: StressBaselineProfile,
+update: BaselineUpdate,
+now: number)
+: StressBaselineProfile => {
+  if (update.sampleCount === 0) return profile;
+
+  const previousWeight = Math.min(profile.sampleCount, MAX_BASELINE_SAMPLES - update.sampleCount);
+  const weight = Math.max(previousWeight, 0);
+  const total = weight + update.sampleCount;
+  const merged = { ...profile.averageExpressions };
+  EXPRESSION_KEYS.forEach((key) => {
+    merged[key] = (profile.averageExpressions[key] * weight + update.averageExpressions[key] * update.sampleCount) / total;
+  });
+
+  return {
+    ...profile,
+    averageExpressions: merged,
+    sampleCount: Math.min(profile.sampleCount + update.sampleCount, MAX_BASELINE_SAMPLES),
+    sessions: profile.sessions + 1,
+    updatedAt: now
+  };
+};
+
+export const environmentChanged = (stored: CameraEnvironment, current: CameraEnvironment): boolean =>
+Math.abs(stored.brightness - current.brightness) > BRIGHTNESS_TOLERANCE ||
+stored.width !== current.width ||
+stored.height !== current.height ||
+Boolean(stored.deviceId && current.deviceId && stored.deviceId !== current.deviceId);
+
+/**
+ * Why a stored baseline can't be reused, or null if it can.
+ */
+export const getRecalibrationReason = (
+profile: StressBaselineProfile,
+now: number,
+environment?: CameraEnvironment)
+: string | null => {
+  if (profile.needsRecalibration) {
+    return 'Your baseline no longer matched your expressions last session';
+  }
+  if (now - profile.updatedAt > MAX_BASELINE_AGE_MS) {
+    return 'Your baseline is more than 30 days old';
+  }
+  if (environment && environmentChanged(profile.environment, environment)) {
+    return 'Your lighting or camera has changed since calibration';
+  }
+  return null;
+};
+
+/**
+ * Brightness and resolution of the current camera frame.
+ */
+export const measureEnvironment = (video: HTMLVideoElement): CameraEnvironment => {
+  const stream = video.srcObject instanceof MediaStream ? video.srcObject : null;
+  const deviceId = stream?.getVideoTracks()[0]?.getSettings().deviceId;
+  const environment: CameraEnvironment = {
+    brightness: 0,
+    width: video.videoWidth,
+    height: video.videoHeight,
+    ...(deviceId ? { deviceId } : {})
+  };
+
+  const canvas = document.createElement('canvas');
+  canvas.width = 32;
+  canvas.height = 24;
+  const context = canvas.getContext('2d');
+  if (!context || video.videoWidth === 0) return environment;
+
+  context.drawImage(video, 0, 0, canvas.width, canvas.height);
+  const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+  let luma = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    luma += 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  }
+  environment.brightness = Math.round(luma / (data.length / 4) / 255 * 100) / 100;
+  return environment;
+};
+
+export interface BaselineSession {
+  /** Calm frames from the session, if any. */
+  update: BaselineUpdate | null;
+  drifted: boolean;
+}
+
+/**
+ * Stored baseline after a session: flagged for recalibration if it drifted,
+ * otherwise updated with the session's calm frames.
+ */
+export const applyBaselineSession = (
+profile: StressBaselineProfile,
+session: BaselineSession,
+now: number)
+: StressBaselineProfile => {
+  if (session.drifted) {
+    return { ...profile, needsRecalibration: true };
+  }
+  return session.update ? mergeBaseline(profile, session.update, now) : profile;
+};
@@ -0,0 +1,97 @@
+import type { StressDetectionResult } from './stress-detector';
+import type { InferenceBackendName } from './inference';
+
+/**
+ * Typed events emitted while analysis is running, so UI can subscribe to
+ * changes instead of polling analyzers for results.
+ */
+
+export type AnalyzerName = 'tone' | 'emotion' | 'gesture' | 'stress' | 'eyeContact';
+
+export const ANALYZER_LABELS: Record<AnalyzerName, string> = {
+  tone: 'Tone',
+  emotion: 'Emotion',
+  gesture: 'Body language',
+  stress: 'Stress',
+  eyeContact: 'Eye contact'
+};
+
+export type AnalyzerStatus = 'idle' | 'loading' | 'calibrating' | 'running' | 'degraded' | 'failed';
+
+export interface AnalyzerState {
+  status: AnalyzerStatus;
+  /** Why the analyzer is degraded or failed. */
+  message?: string;
+}
+
+export interface DetectionStats {
+  totalDetections: number;
+  stressDetections: number;
+  averageConfidence: number;
+  baselineAge: number;
+}
+
+export type AnalysisEvent =
+{type: 'statusChange';analyzer: AnalyzerName;state: AnalyzerState;timestamp: number;} |
+{type: 'calibrationProgress';progress: number;timestamp: number;} |
+{type: 'stressUpdate';result: StressDetectionResult;stats: DetectionStats;timestamp: number;} |
+{type: 'stressSpike';confidence: number;features: string[];timestamp: number;} |
+{type: 'baselineDrift';distance: number;timestamp: number;} |
+{type: 'faceLost';timestamp: number;} |
+{type: 'faceFound';timestamp: number;} |
+{type: 'emotionChange';from: string;to: string;timestamp: number;} |
+{type: 'inferenceRate';fps: number;backend: InferenceBackendName;timestamp: number;};
+
+export type AnalysisEventType = AnalysisEvent['type'];
+
+export type AnalysisEventOf<T extends AnalysisEventType> = Extract<AnalysisEvent, {type: T;}>;
+
+type Listener = (event: AnalysisEvent) => void;
+
+export class AnalysisEventBus {
+  private listeners = new Map<AnalysisEventType | '*', Set<Listener>>();
+
+  /**
+   * Listen for one event type. Returns a function that removes the listener.
+   */
+  on<T extends AnalysisEventType>(type: T, listener: (event: AnalysisEventOf<T>) => void): () => void {
+    return this.add(type, listener as Listener);
+  }
+
+  /**
+   * Listen for every event. Returns a function that removes the listener.
+   */
+  onAny(listener: Listener): () => void {
+    return this.add('*', listener);
+  }
+
+  emit(event: AnalysisEvent) {
+    [this.listeners.get(event.type), this.listeners.get('*')].forEach((listeners) => {
+      listeners?.forEach((listener) => {
+        try {
+          listener(event);
+        } catch (error) {
+          console.error(`Error in ${event.type} listener:`, error);
+        }
+      });
+    });
+  }
+
+  /**
+   * Forward every event from this bus to another one.
+   */
+  pipe(target: AnalysisEventBus): () => void {
+    return this.onAny((event) => target.emit(event));
+  }
+
+  private add(key: AnalysisEventType | '*', listener: Listener) {
+    if (!this.listeners.has(key)) {
+      this.listeners.set(key, new Set());
+    }
+    this.listeners.get(key)!.add(listener);
+
+    return () => {
+      this.listeners.get(key)?.delete(listener);
+    };
+  }
+}
@@ -0,0 +1,57 @@
+import {
+  analyzeFluency,
+  countFillers,
+  countRestarts,
+  FluencyAnalyzer,
+  tokenize } from
+'./fluency';
+
+describe('countFillers', () => {
+  test('should count filler words and phrases', () => {
+    const counts = countFillers(tokenize('Um, so you know, it is uh basically like a cache'));
+    expect(Object.fromEntries(counts)).toEqual({ um: 1, 'you know': 1, uh: 1, basically: 1, like: 1 });
+  });
+
+  test('should not count "like" used as a verb', () => {
+    expect(countFillers(tokenize('I like React and it looks like Vue')).size).toBe(0);
+  });
+});
+
+describe('countRestarts', () => {
+  test('should count repeated words and self-corrections', () => {
+    expect(countRestarts(tokenize('I I think the cache the cache is, sorry, the store is fast'))).toBe(3);
+    expect(countRestarts(tokenize('The cache stores results'))).toBe(0);
+  });
+});
+
+describe('analyzeFluency', () => {
+  test('should report long pauses between phrases', () => {
+    const analysis = analyzeFluency([
+    { transcript: 'a hash map stores keys', startTime: 0, endTime: 2000 },
+    { transcript: 'and values', startTime: 6000, endTime: 7000 }]
+    );
+
+    expect(analysis.longPauses).toEqual([{ timestamp: 2000, duration: 4000 }]);
+  });
+
+  test('should compute words per minute', () => {
+    const words = Array.from({ length: 40 }, () => 'word').join(' ');
+    const analysis = analyzeFluency([{ transcript: words, startTime: 0, endTime: 20000 }]);
+
+    expect(analysis.averageWpm).toBe(120);
+    expect(analysis.wpmTimeline.length).toBeGreaterThan(1);
+    analysis.wpmTimeline.forEach((window) => expect(Math.abs(window.wpm - 120)).toBeLessThan(15));
+  });
+});
+
+describe('FluencyAnalyzer', () => {
+  test('should time phrases from the first interim result', () => {
+    const analyzer = new FluencyAnalyzer();
+    analyzer.start();
+    analyzer.markSpeaking(1000);
+    analyzer.markSpeaking(1500);
+    analyzer.addResult('hello there', 3000);
+
+    expect(analyzer.getSegments()).toEqual([{ transcript: 'hello there', startTime: 1000, endTime: 3000 }]);
+  });
+});
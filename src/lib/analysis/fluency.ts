@@ -0,0 +1,220 @@
+import { FluencyAnalysis } from '@/types';
+
+/**
+ * Speech fluency analysis from speech-to-text results.
+ *
+ * The recognizer only reports when a phrase is final, so each phrase is timed
+ * from the first interim result (the speaker started talking) to the final
+ * result, and its words are spread evenly across that span. Gaps between
+ * phrases are silences.
+ */
+
+export interface TranscriptSegment {
+  transcript: string;
+  startTime: number;
+  endTime: number;
+}
+
+export interface TimedWord {
+  word: string;
+  timestamp: number;
+}
+
+const FILLER_PHRASES = ['you know', 'i mean', 'sort of', 'kind of'];
+const FILLER_WORDS = ['um', 'umm', 'uh', 'uhh', 'erm', 'er', 'ah', 'hmm', 'like', 'basically'];
+
+// "like" is only a filler when it isn't doing grammatical work
+const NON_FILLER_LIKE_PREFIXES = new Set([
+'i', 'you', 'we', 'they', 'would', 'look', 'looks', 'looked', 'feel', 'feels',
+'seem', 'seems', 'something', 'anything', 'more', 'much', 'not', "don't", "didn't"]
+);
+
+const CORRECTION_PHRASES = ['sorry', 'let me rephrase', 'let me start over', 'scratch that', 'what i meant'];
+
+// Silences longer than this inside an answer are reported
+export const LONG_PAUSE_MS = 3000;
+const WPM_WINDOW_MS = 10000;
+const WPM_STEP_MS = 5000;
+
+export const tokenize = (text: string): string[] =>
+text.toLowerCase().replace(/[^a-z0-9'\s]/g, ' ').split(/\s+/).filter(Boolean);
+
+/**
+ * Count filler words and phrases in a list of tokens.
+ */
+export const countFillers = (words: string[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  const add = (filler: string) => counts.set(filler, (counts.get(filler) || 0) + 1);
+
+  for (let i = 0; i < words.length; i++) {
+    const pair = `${words[i]} ${words[i + 1]}`;
+    const phrase = FILLER_PHRASES.find((filler) => filler === pair);
+    if (phrase) {
+      add(phrase);
+      i++;
+      continue;
+    }
+
+    if (!FILLER_WORDS.includes(words[i])) continue;
+    if (words[i] === 'like' && i > 0 && NON_FILLER_LIKE_PREFIXES.has(words[i - 1])) continue;
+    add(words[i]);
+  }
+
+  return counts;
+};
+
+/**
+ * Count restarts: immediately repeated runs of one to three words
+ * ("I I think", "the cache the cache is") and explicit self-corrections.
+ */
+export const countRestarts = (words: string[]): number => {
+  let restarts = 0;
+
+  for (let i = 0; i < words.length; i++) {
+    for (let size = 3; size >= 1; size--) {
+      const run = words.slice(i, i + size).join(' ');
+      const next = words.slice(i + size, i + size * 2).join(' ');
+      if (words.length >= i + size * 2 && run === next) {
+        restarts++;
+        i += size - 1;
+        break;
+      }
+    }
+  }
+
+  const text = words.join(' ');
+  CORRECTION_PHRASES.forEach((phrase) => {
+    restarts += text.split(new RegExp(`\\b${phrase}\\b`)).length - 1;
+  });
+
+  return restarts;
+};
+
+const spreadWords = (segment: TranscriptSegment, split: (text: string) => string[]): TimedWord[] => {
+  const words = split(segment.transcript);
+  const step = words.length > 1 ? (segment.endTime - segment.startTime) / (words.length - 1) : 0;
+  return words.map((word, i) => ({ word, timestamp: segment.startTime + step * i }));
+};
+
+/**
+ * Estimated time of every word in the transcript, keeping the original
+ * spelling and punctuation (for display).
+ */
+export const timeTranscript = (segments: TranscriptSegment[]): TimedWord[] =>
+segments.flatMap((segment) => spreadWords(segment, (text) => text.trim().split(/\s+/).filter(Boolean)));
+
+/**
+ * Words per minute over sliding windows. Answers shorter than one window get a
+ * single entry covering the whole answer.
+ */
+export const buildWpmTimeline = (words: TimedWord[]): Array<{timestamp: number;wpm: number;}> => {
+  if (words.length < 2) return [];
+
+  const first = words[0].timestamp;
+  const last = words[words.length - 1].timestamp;
+  const timeline: Array<{timestamp: number;wpm: number;}> = [];
+
+  for (let start = first; start < last; start += WPM_STEP_MS) {
+    const end = Math.min(start + WPM_WINDOW_MS, last);
+    if (timeline.length > 0 && end - start < WPM_WINDOW_MS / 2) break;
+
+    const count = words.filter((word) => word.timestamp >= start && word.timestamp <= end).length;
+    timeline.push({ timestamp: start, wpm: Math.round(count / (end - start) * 60000) });
+  }
+
+  return timeline;
+};
+
+export const analyzeFluency = (segments: TranscriptSegment[]): FluencyAnalysis => {
+  const timedWords = segments.flatMap((segment) => spreadWords(segment, tokenize));
+  const words = timedWords.map((word) => word.word);
+
+  const fillers = countFillers(words);
+  const fillerWords = Array.from(fillers.entries()).
+  map(([word, count]) => ({ word, count })).
+  sort((a, b) => b.count - a.count);
+  const fillerCount = fillerWords.reduce((sum, filler) => sum + filler.count, 0);
+  const fillerRate = words.length > 0 ? Math.round(fillerCount / words.length * 1000) / 10 : 0;
+
+  const longPauses: Array<{timestamp: number;duration: number;}> = [];
+  for (let i = 1; i < segments.length; i++) {
+    const gap = segments[i].startTime - segments[i - 1].endTime;
+    if (gap >= LONG_PAUSE_MS) {
+      longPauses.push({ timestamp: segments[i - 1].endTime, duration: gap });
+    }
+  }
+
+  const restarts = countRestarts(words);
+
+  const span = segments.length > 0 ? segments[segments.length - 1].endTime - segments[0].startTime : 0;
+  const averageWpm = span > 0 ? Math.round(words.length / span * 60000) : 0;
+  const wpmTimeline = buildWpmTimeline(timedWords);
+
+  const tips: string[] = [];
+  if (fillerRate > 5) {
+    tips.push(`You used ${fillerCount} filler words. Replace them with a short pause.`);
+  }
+  if (longPauses.length > 0) {
+    tips.push(`There ${longPauses.length === 1 ? 'was 1 long silence' : `were ${longPauses.length} long silences`}. Outline your answer before you start speaking.`);
+  }
+  if (restarts > 3) {
+    tips.push('You restarted sentences several times. Slow down and finish each thought before moving on.');
+  }
+  if (averageWpm > 170) {
+    tips.push('You spoke quickly. Slow down so key points land.');
+  } else if (averageWpm > 0 && averageWpm < 100) {
+    tips.push('Your pace was slow. Try to keep a steadier flow.');
+  }
+
+  return {
+    averageWpm,
+    wpmTimeline,
+    fillerWords,
+    fillerCount,
+    fillerRate,
+    longPauses,
+    restarts,
+    feedback: tips.length > 0 ? tips.join(' ') : 'Your delivery was fluent with a steady pace.'
+  };
+};
+
+export class FluencyAnalyzer {
+  private segments: TranscriptSegment[] = [];
+  private speechStart: number | null = null;
+
+  start() {
+    this.segments = [];
+    this.speechStart = null;
+  }
+
+  /**
+   * Called on interim results; marks when the current phrase started.
+   */
+  markSpeaking(timestamp: number = Date.now()) {
+    if (this.speechStart === null) {
+      this.speechStart = timestamp;
+    }
+  }
+
+  /**
+   * Called when a phrase is final.
+   */
+  addResult(transcript: string, timestamp: number = Date.now()) {
+    if (!transcript.trim()) return;
+
+    this.segments.push({
+      transcript,
+      startTime: Math.min(this.speechStart ?? timestamp, timestamp),
+      endTime: timestamp
+    });
+    this.speechStart = null;
+  }
+
+  getSegments(): TranscriptSegment[] {
+    return [...this.segments];
+  }
+
+  getAnalysis(): FluencyAnalysis {
+    return analyzeFluency(this.segments);
+  }
+}
@@ -0,0 +1,104 @@
+import {
+  MetricBaseline,
+  ModalityScorer,
+  computeFaceLandmarkFeatures,
+  eyeAspectRatio,
+  fuseModalities } from
+'./fusion';
+
+/**
+ * 68 landmarks with both eyes open or closed, and the nose shifted by `noseX`.
+ */
+const face = (eyesOpen: boolean, noseX: number = 100) => {
+  const points = Array.from({ length: 68 }, () => ({ x: 100, y: 100 }));
+  const eye = (start: number, left: number) => {
+    const lid = eyesOpen ? 4 : 0.5;
+    points[start] = { x: left, y: 100 };
+    points[start + 1] = { x: left + 5, y: 100 - lid };
+    points[start + 2] = { x: left + 10, y: 100 - lid };
+    points[start + 3] = { x: left + 15, y: 100 };
+    points[start + 4] = { x: left + 10, y: 100 + lid };
+    points[start + 5] = { x: left + 5, y: 100 + lid };
+  };
+  eye(36, 70);
+  eye(42, 115);
+  points[30] = { x: noseX, y: 120 };
+  return points;
+};
+
+describe('fuseModalities', () => {
+  test('should pass a face-only score through unchanged', () => {
+    const fused = fuseModalities({ face: { score: 0.7, features: ['eye widening'] } });
+
+    expect(Math.round(fused.confidence * 100)).toBe(70);
+    expect(fused.contributions).toEqual({ face: 1 });
+    expect(fused.features).toEqual(['face: eye widening']);
+  });
+
+  test('should not let calm or missing modalities dilute the score', () => {
+    const fused = fuseModalities({
+      face: { score: 0.7, features: [] },
+      voice: { score: 0, features: [] },
+      posture: null
+    });
+
+    expect(Math.round(fused.confidence * 100)).toBe(70);
+    expect(fused.contributions).toEqual({ face: 1, voice: 0 });
+  });
+
+  test('should let agreeing modalities reinforce each other', () => {
+    const voiceOnly = fuseModalities({ voice: { score: 1, features: ['pitch jitter'] } });
+    const combined = fuseModalities({
+      voice: { score: 1, features: ['pitch jitter'] },
+      posture: { score: 1, features: ['fidgeting'] }
+    });
+
+    expect(voiceOnly.confidence).toBeLessThan(0.6);
+    expect(combined.confidence).toBeGreaterThan(0.6);
+    expect(combined.features).toEqual(['voice: pitch jitter', 'posture: fidgeting']);
+    expect(combined.contributions).toEqual({ voice: 0.56, posture: 0.44 });
+  });
+});
+
+describe('MetricBaseline', () => {
+  test('should score values by standard deviations above the mean', () => {
+    const baseline = new MetricBaseline(1, 4);
+    [9, 11, 9, 11].forEach((value) => baseline.add(value));
+
+    expect(baseline.isReady()).toBe(true);
+    expect(baseline.score(8)).toBe(0);
+    expect(baseline.score(11)).toBe(0);
+    expect(Math.round(baseline.score(13) * 100)).toBe(67);
+    expect(baseline.score(20)).toBe(1);
+  });
+});
+
+describe('ModalityScorer', () => {
+  test('should stay unavailable until a baseline is ready', () => {
+    const scorer = new ModalityScorer({ jitter: { feature: 'pitch jitter', minSpread: 0.01 } });
+
+    for (let i = 0; i < 10; i++) {
+      expect(scorer.update({ jitter: 0.02 })).toBe(null);
+    }
+    expect(scorer.update({ jitter: null })).toBe(null);
+    expect(scorer.update({ jitter: 0.2 })).toEqual({ score: 1, features: ['pitch jitter'] });
+  });
+});
+
+describe('face landmark features', () => {
+  test('should measure eye openness', () => {
+    expect(eyeAspectRatio(face(true), 36)).toBeGreaterThan(0.5);
+    expect(eyeAspectRatio(face(false), 36)).toBeLessThan(0.2);
+  });
+
+  test('should count blinks per minute and head movement', () => {
+    const frames = [true, false, true, true, false, true].map((open, i) => ({
+      timestamp: i * 1000,
+      landmarks: face(open, 100 + i * 4.5)
+    }));
+    const features = computeFaceLandmarkFeatures(frames);
+
+    expect(features?.blinkRate).toBe(24);
+    expect(features?.headMovement).toBe(0.15);
+  });
+});
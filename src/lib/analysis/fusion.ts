@@ -0,0 +1,261 @@
+import { StressModality } from '@/types';
+import { FacePoint } from './sources';
+
+/**
+ * Multimodal stress fusion.
+ *
+ * Each modality turns its raw measurements into a 0-1 score of how far they
+ * rose above the user's own baseline for this session:
+ * - face: expression deviations (scored in `StressDetector`)
+ * - voice: pitch jitter, volume variation and speech rate (`ToneAnalyzer`)
+ * - posture: hand motion and fidgeting (`GestureAnalyzer`)
+ * - eyes: blink rate and head movement from face landmarks
+ *
+ * Scores are combined with a weighted noisy-OR, so calm modalities don't
+ * dilute a strong signal, agreeing modalities reinforce each other, and a
+ * missing modality simply contributes no evidence. Non-face weights are low
+ * enough that no single one can flag stress on its own.
+ */
+
+export const MODALITY_WEIGHTS: Record<StressModality, number> = {
+  face: 1.0,
+  voice: 0.5,
+  posture: 0.4,
+  eyes: 0.4
+};
+
+export interface ModalityReading {
+  /** 0 at or below baseline, 1 far above it. */
+  score: number;
+  features: string[];
+}
+
+export type ModalityReadings = Partial<Record<StressModality, ModalityReading | null>>;
+
+export interface FusedStress {
+  confidence: number;
+  /** Share of the evidence from each available modality, 0-1. */
+  contributions: Partial<Record<StressModality, number>>;
+  /** Cues from modalities that contributed, prefixed with the modality. */
+  features: string[];
+}
+
+export const fuseModalities = (
+readings: ModalityReadings,
+weights: Record<StressModality, number> = MODALITY_WEIGHTS)
+: FusedStress => {
+  const available = (Object.entries(readings) as Array<[StressModality, ModalityReading | null | undefined]>).
+  filter((entry): entry is [StressModality, ModalityReading] => !!entry[1]);
+
+  let calm = 1;
+  let totalEvidence = 0;
+  available.forEach(([modality, reading]) => {
+    const evidence = weights[modality] * reading.score;
+    calm *= 1 - evidence;
+    totalEvidence += evidence;
+  });
+
+  const contributions: Partial<Record<StressModality, number>> = {};
+  const features: string[] = [];
+  available.forEach(([modality, reading]) => {
+    const evidence = weights[modality] * reading.score;
+    contributions[modality] = totalEvidence > 0 ? Math.round(evidence / totalEvidence * 100) / 100 : 0;
+    if (evidence > 0) {
+      features.push(...reading.features.map((feature) => `${modality}: ${feature}`));
+    }
+  });
+
+  return { confidence: 1 - calm, contributions, features };
+};
+
+const clamp = (value: number) => Math.max(0, Math.min(1, value));
+
+/**
+ * Running mean and standard deviation of one measurement. Seeds from the
+ * first samples it sees (calibration, or the start of detection when a
+ * stored face baseline skips calibration), then scores later values by how
+ * many standard deviations they rise above the mean.
+ */
+export class MetricBaseline {
+  private samples: number[] = [];
+  private readonly minSamples: number;
+  private readonly minSpread: number;
+
+  /**
+   * @param minSpread Smallest standard deviation to assume, so a very steady
+   * baseline doesn't turn tiny changes into stress
+   */
+  constructor(minSpread: number, minSamples: number = 10) {
+    this.minSpread = minSpread;
+    this.minSamples = minSamples;
+  }
+
+  isReady() {
+    return this.samples.length >= this.minSamples;
+  }
+
+  add(value: number) {
+    if (!this.isReady()) {
+      this.samples.push(value);
+    }
+  }
+
+  /**
+   * 0 up to one standard deviation above the mean, rising to 1 at four.
+   */
+  score(value: number): number {
+    const mean = this.samples.reduce((sum, sample) => sum + sample, 0) / this.samples.length;
+    const variance = this.samples.reduce((sum, sample) => sum + (sample - mean) ** 2, 0) / this.samples.length;
+    const z = (value - mean) / Math.max(Math.sqrt(variance), this.minSpread);
+    return clamp((z - 1) / 3);
+  }
+
+  reset() {
+    this.samples = [];
+  }
+}
+
+interface MetricSpec {
+  feature: string;
+  minSpread: number;
+}
+
+/**
+ * A modality made of several measurements, each with its own baseline.
+ * Measurements that are missing for a frame are skipped; the modality is
+ * unavailable until at least one of its baselines is ready.
+ */
+export class ModalityScorer<K extends string> {
+  private specs: Record<K, MetricSpec>;
+  private baselines: Record<K, MetricBaseline>;
+
+  constructor(specs: Record<K, MetricSpec>) {
+    this.specs = specs;
+    this.baselines = Object.fromEntries(
+      Object.entries<MetricSpec>(specs).map(([key, spec]) => [key, new MetricBaseline(spec.minSpread)])
+    ) as Record<K, MetricBaseline>;
+  }
+
+  /**
+   * Feed one frame of measurements. Returns the modality reading, or null
+   * while no baseline is ready yet.
+   */
+  update(values: Partial<Record<K, number | null>> | null): ModalityReading | null {
+    if (!values) return null;
+
+    const scores: Array<{feature: string;score: number;}> = [];
+    (Object.keys(this.specs) as K[]).forEach((key) => {
+      const value = values[key];
+      if (value === null || value === undefined) return;
+
+      const baseline = this.baselines[key];
+      if (!baseline.isReady()) {
+        baseline.add(value);
+        return;
+      }
+      scores.push({ feature: this.specs[key].feature, score: baseline.score(value) });
+    });
+
+    if (scores.length === 0) return null;
+
+    return {
+      score: Math.max(...scores.map((entry) => entry.score)),
+      features: scores.filter((entry) => entry.score >= 0.3).map((entry) => entry.feature)
+    };
+  }
+
+  reset() {
+    Object.values<MetricBaseline>(this.baselines).forEach((baseline) => baseline.reset());
+  }
+}
+
+export const createVoiceScorer = () => new ModalityScorer({
+  pitchJitter: { feature: 'pitch jitter', minSpread: 0.01 },
+  volumeVariation: { feature: 'volume swings', minSpread: 0.1 },
+  speechRate: { feature: 'rushed speech', minSpread: 40 }
+});
+
+export const createPostureScorer = () => new ModalityScorer({
+  handMotion: { feature: 'hand motion', minSpread: 0.005 },
+  fidgeting: { feature: 'fidgeting', minSpread: 0.1 }
+});
+
+export const createEyesScorer = () => new ModalityScorer({
+  blinkRate: { feature: 'frequent blinking', minSpread: 5 },
+  headMovement: { feature: 'head movement', minSpread: 0.01 }
+});
+
+export interface VoiceFeatures {
+  /** Mean relative change between consecutive pitch estimates. */
+  pitchJitter: number | null;
+  /** Coefficient of variation of loudness while speaking. */
+  volumeVariation: number | null;
+  /** Words per minute, or null while not speaking. */
+  speechRate: number | null;
+}
+
+export interface MotionFeatures {
+  /** Mean wrist displacement per frame, in normalized image coordinates. */
+  handMotion: number;
+  /** 0-1: how much of the hand motion went nowhere (back and forth). */
+  fidgeting: number;
+}
+
+export interface FaceLandmarkFeatures {
+  blinkRate: number;
+  /** Mean nose movement per frame relative to the distance between the eyes. */
+  headMovement: number;
+}
+
+// Eye aspect ratio below which the eye counts as closed
+const EYE_CLOSED_RATIO = 0.2;
+
+const distance = (a: FacePoint, b: FacePoint) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Eye aspect ratio of the six landmarks starting at `start` (36 for the
+ * left eye, 42 for the right one in the 68-point model).
+ */
+export const eyeAspectRatio = (points: FacePoint[], start: number): number => {
+  const [p1, p2, p3, p4, p5, p6] = points.slice(start, start + 6);
+  const width = distance(p1, p4);
+  return width > 0 ? (distance(p2, p6) + distance(p3, p5)) / (2 * width) : 0;
+};
+
+/**
+ * Blink rate and head movement over a window of landmark frames. Blinks are
+ * counted as closed-to-open transitions, which undercounts at low frame
+ * rates; the score only compares against the same user's baseline, so the
+ * bias cancels out.
+ */
+export const computeFaceLandmarkFeatures = (
+frames: Array<{timestamp: number;landmarks: FacePoint[];}>)
+: FaceLandmarkFeatures | null => {
+  if (frames.length < 3) return null;
+
+  const duration = frames[frames.length - 1].timestamp - frames[0].timestamp;
+  if (duration <= 0) return null;
+
+  let blinks = 0;
+  let movement = 0;
+  frames.forEach((frame, i) => {
+    const ratio = (eyeAspectRatio(frame.landmarks, 36) + eyeAspectRatio(frame.landmarks, 42)) / 2;
+    if (i === 0) return;
+
+    const previous = frames[i - 1].landmarks;
+    const previousRatio = (eyeAspectRatio(previous, 36) + eyeAspectRatio(previous, 42)) / 2;
+    if (previousRatio < EYE_CLOSED_RATIO && ratio >= EYE_CLOSED_RATIO) {
+      blinks++;
+    }
+
+    const eyeDistance = distance(frame.landmarks[39], frame.landmarks[42]);
+    if (eyeDistance > 0) {
+      movement += distance(frame.landmarks[30], previous[30]) / eyeDistance;
+    }
+  });
+
+  return {
+    blinkRate: blinks / duration * 60000,
+    headMovement: movement / (frames.length - 1)
+  };
+};
@@ -0,0 +1,154 @@
+import { analyzeEyeContact, EyeContactAnalyzer, estimateHeadPose, gazeDirection, GazeSample, HeadPose } from './gaze';
+import { FakeClock } from './replay';
+import { ExpressionSource, FacePoint } from './sources';
+
+jest.mock('face-api.js', () => ({
+  nets: {},
+  detectSingleFace: jest.fn(),
+  TinyFaceDetectorOptions: jest.fn()
+}));
+jest.mock('@mediapipe/pose', () => ({ Pose: jest.fn() }));
+jest.mock('@mediapipe/camera_utils', () => ({ Camera: jest.fn() }));
+
+/**
+ * 68 landmarks with the eye corners 100px apart and the chin 120px below
+ * them, nose placed for the given pose and everything rotated by `roll`.
+ */
+const face = ({ yaw, pitch }: HeadPose, roll: number = 0): FacePoint[] => {
+  const points: FacePoint[] = Array.from({ length: 68 }, () => ({ x: 150, y: 150 }));
+  points[36] = { x: 100, y: 100 };
+  points[45] = { x: 200, y: 100 };
+  points[8] = { x: 150, y: 220 };
+  points[30] = { x: 150 + yaw * 100, y: 100 + (0.42 + pitch) * 120 };
+
+  const cos = Math.cos(roll);
+  const sin = Math.sin(roll);
+  return points.map(({ x, y }) => ({
+    x: 150 + (x - 150) * cos - (y - 150) * sin,
+    y: 150 + (x - 150) * sin + (y - 150) * cos
+  }));
+};
+
+const LEVEL: HeadPose = { yaw: 0, pitch: 0 };
+
+const samples = (duration: number, pose: (timestamp: number) => HeadPose | null): GazeSample[] =>
+Array.from({ length: duration / 200 }, (_, i) => ({ timestamp: i * 200, pose: pose(i * 200) }));
+
+describe('estimateHeadPose', () => {
+  test('should read a level face as facing the camera', () => {
+    const pose = estimateHeadPose(face(LEVEL))!;
+
+    expect(pose.yaw).toBeCloseTo(0);
+    expect(pose.pitch).toBeCloseTo(0);
+  });
+
+  test('should measure turns and tilts relative to the eye line', () => {
+    const pose = estimateHeadPose(face({ yaw: 0.2, pitch: 0.1 }, Math.PI / 6))!;
+
+    expect(pose.yaw).toBeCloseTo(0.2);
+    expect(pose.pitch).toBeCloseTo(0.1);
+  });
+
+  test('should reject degenerate landmarks', () => {
+    const points = face(LEVEL);
+    points[45] = points[36];
+
+    expect(estimateHeadPose(points)).toBeNull();
+  });
+});
+
+describe('gazeDirection', () => {
+  test('should report the strongest direction past its threshold', () => {
+    expect(gazeDirection(LEVEL)).toBeNull();
+    expect(gazeDirection({ yaw: 0.05, pitch: 0.04 })).toBeNull();
+    expect(gazeDirection({ yaw: 0.2, pitch: 0 })).toBe('left');
+    expect(gazeDirection({ yaw: -0.2, pitch: 0 })).toBe('right');
+    expect(gazeDirection({ yaw: 0.12, pitch: 0.2 })).toBe('down');
+    expect(gazeDirection({ yaw: 0, pitch: -0.1 })).toBe('up');
+    expect(gazeDirection(null)).toBe('offscreen');
+  });
+});
+
+describe('analyzeEyeContact', () => {
+  test('should report look-away events longer than a second', () => {
+    const analysis = analyzeEyeContact(samples(10000, (timestamp) => {
+      if (timestamp >= 2000 && timestamp < 4000) return { yaw: 0, pitch: 0.2 };
+      if (timestamp >= 6000 && timestamp < 6400) return { yaw: 0.3, pitch: 0 };
+      return LEVEL;
+    }));
+
+    expect(analysis.eyeContactPercentage).toBe(76);
+    expect(analysis.lookAwayEvents).toEqual([{ timestamp: 2000, duration: 2000, direction: 'down' }]);
+    expect(analysis.readingDetected).toBe(false);
+    expect(analysis.timeline).toHaveLength(10);
+    expect(analysis.timeline[2]).toEqual({ timestamp: 2000, eyeContact: 0 });
+    expect(analysis.timeline[6]).toEqual({ timestamp: 6000, eyeContact: 60 });
+  });
+
+  test('should count frames without a face as looking off screen', () => {
+    const analysis = analyzeEyeContact(samples(4000, (timestamp) => timestamp < 2000 ? null : LEVEL));
+
+    expect(analysis.eyeContactPercentage).toBe(50);
+    expect(analysis.lookAwayEvents).toEqual([{ timestamp: 0, duration: 2000, direction: 'offscreen' }]);
+  });
+
+  test('should detect reading from line returns', () => {
+    // Two-second lines: drift right across the screen, then snap back
+    const analysis = analyzeEyeContact(samples(12000, (timestamp) => ({
+      yaw: -0.04 + timestamp % 2000 / 2000 * 0.08,
+      pitch: 0.04
+    })));
+
+    expect(analysis.eyeContactPercentage).toBe(100);
+    expect(analysis.readingDetected).toBe(true);
+    expect(analysis.readingPercentage).toBeGreaterThan(80);
+    expect(analysis.feedback).toContain('read from the screen');
+  });
+
+  test('should not mistake repeated look-aways for reading', () => {
+    const analysis = analyzeEyeContact(samples(12000, (timestamp) => ({
+      yaw: timestamp % 3000 < 1500 ? 0 : 0.3,
+      pitch: 0
+    })));
+
+    expect(analysis.readingDetected).toBe(false);
+    expect(analysis.lookAwayEvents.every((event) => event.direction === 'left')).toBe(true);
+  });
+
+  test('should explain when nothing was captured', () => {
+    const analysis = analyzeEyeContact([]);
+
+    expect(analysis.eyeContactPercentage).toBe(0);
+    expect(analysis.feedback).toBe('No eye contact data was captured for this answer.');
+  });
+});
+
+describe('EyeContactAnalyzer', () => {
+  test('should sample the landmarks of the shared expression source', async () => {
+    const clock = new FakeClock(0);
+    let pose: HeadPose | null = LEVEL;
+    const source: ExpressionSource = {
+      detect: async () => pose ? { neutral: 1, happy: 0, sad: 0, angry: 0, fearful: 0, disgusted: 0, surprised: 0 } : null,
+      getLandmarks: () => pose ? face(pose) : null
+    };
+    const analyzer = new EyeContactAnalyzer(clock);
+
+    expect(await analyzer.start(source)).toBe(true);
+    await clock.advanceTo(2000);
+    pose = null;
+    await clock.advanceTo(4000);
+    analyzer.stop();
+
+    const analysis = analyzer.getAnalysis();
+    expect(analysis.eyeContactPercentage).toBe(50);
+    expect(analysis.lookAwayEvents).toHaveLength(1);
+    expect(analysis.lookAwayEvents[0].direction).toBe('offscreen');
+  });
+
+  test('should not start without face landmarks', async () => {
+    const analyzer = new EyeContactAnalyzer(new FakeClock(0));
+    const started = await analyzer.start({ detect: async () => null });
+
+    expect(started).toBe(false);
+  });
+});
@@ -0,0 +1,354 @@
+import { EyeContactAnalysis, GazeDirection } from '@/types';
+import { loadFaceModels } from './models';
+import {
+  AnalysisClock,
+  ExpressionSource,
+  FacePoint,
+  isVideoElement,
+  systemClock,
+  VideoExpressionSource } from
+'./sources';
+
+/**
+ * Eye contact from face-api's 68 face landmarks.
+ *
+ * The 68-point model has no pupils, so gaze is estimated from head pose:
+ * where the nose tip sits between the outer eye corners (yaw) and between the
+ * eye line and the chin (pitch). Candidates rarely look far off with their
+ * eyes alone for long, so this catches the look-aways that matter.
+ *
+ * Reading shows up as the head drifting slowly along a line of text and
+ * snapping back at the start of the next one, while level with or tilted
+ * down toward the screen.
+ */
+
+export interface HeadPose {
+  /** 0 when facing the camera, positive when the candidate turns to their left. */
+  yaw: number;
+  /** 0 at a level gaze, positive when looking down. */
+  pitch: number;
+}
+
+export interface GazeSample {
+  timestamp: number;
+  /** Null when no face was found. */
+  pose: HeadPose | null;
+}
+
+// Nose tip position between the eye line and chin on a level face
+const NEUTRAL_PITCH = 0.42;
+
+// Roughly 20 degrees of head rotation
+export const LOOK_AWAY_YAW = 0.1;
+export const LOOK_AWAY_PITCH = 0.08;
+
+// Shorter glances away are normal and not reported
+export const MIN_LOOK_AWAY_MS = 1000;
+
+// A line return is a quick yaw jump back after at least this long drifting
+const LINE_RETURN_YAW = 0.05;
+const MIN_LINE_MS = 1000;
+// Line returns this close together belong to the same stretch of reading
+const READING_GAP_MS = 6000;
+const MIN_LINE_RETURNS = 2;
+const READING_MIN_PERCENTAGE = 15;
+
+const TIMELINE_STEP_MS = 1000;
+const SAMPLE_INTERVAL_MS = 200;
+
+/**
+ * Head pose from 68 face landmarks, or null if they are degenerate.
+ * Measured along the eye line so head roll doesn't read as yaw or pitch.
+ */
+export const estimateHeadPose = (points: FacePoint[]): HeadPose | null => {
+  const left = points[36];
+  const right = points[45];
+  const nose = points[30];
+  const chin = points[8];
+  if (!left || !right || !nose || !chin) return null;
+
+  const width = Math.hypot(right.x - left.x, right.y - left.y);
+  if (width === 0) return null;
+
+  // Unit vectors along the eye line and down the face
+  const ux = (right.x - left.x) / width;
+  const uy = (right.y - left.y) / width;
+  const vx = -uy;
+  const vy = ux;
+
+  const mid = { x: (left.x + right.x) / 2, y: (left.y + right.y) / 2 };
+  const noseOffset = { x: nose.x - mid.x, y: nose.y - mid.y };
+  const chinDrop = (chin.x - mid.x) * vx + (chin.y - mid.y) * vy;
+  if (chinDrop <= 0) return null;
+
+  return {
+    yaw: (noseOffset.x * ux + noseOffset.y * uy) / width,
+    pitch: (noseOffset.x * vx + noseOffset.y * vy) / chinDrop - NEUTRAL_PITCH
+  };
+};
+
+/**
+ * Where the candidate is looking, or null when they face the camera.
+ */
+export const gazeDirection = (pose: HeadPose | null): GazeDirection | null => {
+  if (!pose) return 'offscreen';
+
+  const yaw = Math.abs(pose.yaw) / LOOK_AWAY_YAW;
+  const pitch = Math.abs(pose.pitch) / LOOK_AWAY_PITCH;
+  if (yaw < 1 && pitch < 1) return null;
+
+  if (yaw >= pitch) {
+    return pose.yaw > 0 ? 'left' : 'right';
+  }
+  return pose.pitch > 0 ? 'down' : 'up';
+};
+
+const mostCommon = <T>(values: T[]): T => {
+  const counts = new Map<T, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return [...counts.entries()].reduce((best, entry) => entry[1] > best[1] ? entry : best)[0];
+};
+
+export const findLookAwayEvents = (samples: GazeSample[]): EyeContactAnalysis['lookAwayEvents'] => {
+  const events: EyeContactAnalysis['lookAwayEvents'] = [];
+  let run: Array<{timestamp: number;direction: GazeDirection;}> = [];
+
+  const close = (end: number) => {
+    if (run.length > 0 && end - run[0].timestamp >= MIN_LOOK_AWAY_MS) {
+      events.push({
+        timestamp: run[0].timestamp,
+        duration: end - run[0].timestamp,
+        direction: mostCommon(run.map((sample) => sample.direction))
+      });
+    }
+    run = [];
+  };
+
+  samples.forEach((sample) => {
+    const direction = gazeDirection(sample.pose);
+    if (direction) {
+      run.push({ timestamp: sample.timestamp, direction });
+    } else {
+      close(sample.timestamp);
+    }
+  });
+  if (samples.length > 0) {
+    close(samples[samples.length - 1].timestamp);
+  }
+
+  return events;
+};
+
+// Reading happens within the camera's yaw range, level or looking down
+const isFacingScreen = (pose: HeadPose) =>
+Math.abs(pose.yaw) < LOOK_AWAY_YAW && pose.pitch > -LOOK_AWAY_PITCH;
+
+/**
+ * Stretches of reading-like head movement: at least `MIN_LINE_RETURNS` line
+ * returns, each within `READING_GAP_MS` of the previous one.
+ */
+export const findReadingSpans = (samples: GazeSample[]): Array<{start: number;end: number;}> => {
+  const returns: Array<{lineStart: number;timestamp: number;}> = [];
+  let drift = 0;
+  let driftStart: number | null = null;
+
+  samples.forEach((sample, i) => {
+    const previous = samples[i - 1];
+    if (!sample.pose || !previous?.pose) {
+      drift = 0;
+      driftStart = sample.pose ? sample.timestamp : null;
+      return;
+    }
+
+    const delta = sample.pose.yaw - previous.pose.yaw;
+    const isReturn =
+    driftStart !== null &&
+    Math.abs(delta) >= LINE_RETURN_YAW &&
+    Math.sign(delta) !== Math.sign(drift) &&
+    Math.abs(drift) >= Math.abs(delta) / 2 &&
+    previous.timestamp - driftStart >= MIN_LINE_MS &&
+    isFacingScreen(previous.pose) &&
+    isFacingScreen(sample.pose);
+
+    if (isReturn) {
+      returns.push({ lineStart: driftStart!, timestamp: sample.timestamp });
+      drift = 0;
+      driftStart = sample.timestamp;
+    } else {
+      drift += delta;
+    }
+  });
+
+  const spans: Array<{start: number;end: number;}> = [];
+  let group: typeof returns = [];
+  const close = () => {
+    if (group.length >= MIN_LINE_RETURNS) {
+      spans.push({ start: group[0].lineStart, end: group[group.length - 1].timestamp });
+    }
+    group = [];
+  };
+
+  returns.forEach((lineReturn) => {
+    const last = group[group.length - 1];
+    if (last && lineReturn.timestamp - last.timestamp > READING_GAP_MS) {
+      close();
+    }
+    group.push(lineReturn);
+  });
+  close();
+
+  return spans;
+};
+
+const buildTimeline = (samples: GazeSample[]): EyeContactAnalysis['timeline'] => {
+  const timeline: EyeContactAnalysis['timeline'] = [];
+  if (samples.length === 0) return timeline;
+
+  const start = samples[0].timestamp;
+  let bucket: GazeSample[] = [];
+  let bucketStart = start;
+
+  const close = () => {
+    if (bucket.length === 0) return;
+    const looking = bucket.filter((sample) => !gazeDirection(sample.pose)).length;
+    timeline.push({ timestamp: bucketStart, eyeContact: Math.round(looking / bucket.length * 100) });
+    bucket = [];
+  };
+
+  samples.forEach((sample) => {
+    const step = start + Math.floor((sample.timestamp - start) / TIMELINE_STEP_MS) * TIMELINE_STEP_MS;
+    if (step !== bucketStart) {
+      close();
+      bucketStart = step;
+    }
+    bucket.push(sample);
+  });
+  close();
+
+  return timeline;
+};
+
+const DIRECTION_LABELS: Record<GazeDirection, string> = {
+  left: 'to your left',
+  right: 'to your right',
+  up: 'up',
+  down: 'down',
+  offscreen: 'away from the screen'
+};
+
+export const analyzeEyeContact = (samples: GazeSample[]): EyeContactAnalysis => {
+  if (samples.length === 0) {
+    return {
+      eyeContactPercentage: 0,
+      lookAwayEvents: [],
+      readingDetected: false,
+      readingPercentage: 0,
+      timeline: [],
+      feedback: 'No eye contact data was captured for this answer.'
+    };
+  }
+
+  const looking = samples.filter((sample) => !gazeDirection(sample.pose)).length;
+  const eyeContactPercentage = Math.round(looking / samples.length * 100);
+  const lookAwayEvents = findLookAwayEvents(samples);
+
+  const duration = samples[samples.length - 1].timestamp - samples[0].timestamp;
+  const readingTime = findReadingSpans(samples).reduce((total, span) => total + span.end - span.start, 0);
+  const readingPercentage = duration > 0 ? Math.min(100, Math.round(readingTime / duration * 100)) : 0;
+  const readingDetected = readingPercentage >= READING_MIN_PERCENTAGE;
+
+  let feedback: string;
+  if (eyeContactPercentage >= 70) {
+    feedback = 'Good eye contact. You faced the camera for most of your answer.';
+  } else if (eyeContactPercentage >= 40) {
+    feedback = 'Look at the camera more often, especially while making your key points.';
+  } else {
+    feedback = 'You looked away from the camera for most of your answer. Face it as you would an interviewer.';
+  }
+  if (lookAwayEvents.length > 0 && eyeContactPercentage < 70) {
+    const direction = mostCommon(lookAwayEvents.map((event) => event.direction));
+    feedback += ` You mostly looked ${DIRECTION_LABELS[direction]}.`;
+  }
+  if (readingDetected) {
+    feedback = `Parts of your answer looked read from the screen. Glance at notes briefly, then speak to the camera. ${feedback}`;
+  }
+
+  return {
+    eyeContactPercentage,
+    lookAwayEvents,
+    readingDetected,
+    readingPercentage,
+    timeline: buildTimeline(samples),
+    feedback
+  };
+};
+
+export class EyeContactAnalyzer {
+  private clock: AnalysisClock;
+  private isAnalyzing: boolean = false;
+  private samples: GazeSample[] = [];
+  private sampleInterval: number | null = null;
+  private source: ExpressionSource | null = null;
+
+  constructor(clock: AnalysisClock = systemClock) {
+    this.clock = clock;
+  }
+
+  async start(input: HTMLVideoElement | ExpressionSource) {
+    try {
+      if (isVideoElement(input) && !(await loadFaceModels())) {
+        throw new Error('Face models could not be loaded');
+      }
+      const source = isVideoElement(input) ? new VideoExpressionSource(input, { withLandmarks: true }) : input;
+      if (!source.getLandmarks) {
+        throw new Error('Expression source does not track face landmarks');
+      }
+
+      this.source = source;
+      this.samples = [];
+      this.isAnalyzing = true;
+      this.sampleInterval = this.clock.setInterval(() => {
+        this.sample();
+      }, SAMPLE_INTERVAL_MS);
+
+      return true;
+    } catch (error) {
+      console.error('Error starting eye contact analysis:', error);
+      return false;
+    }
+  }
+
+  stop() {
+    this.isAnalyzing = false;
+    if (this.sampleInterval) {
+      this.clock.clearInterval(this.sampleInterval);
+      this.sampleInterval = null;
+    }
+  }
+
+  private async sample() {
+    if (!this.isAnalyzing || !this.source) return;
+
+    try {
+      const expressions = await this.source.detect();
+      const timestamp = this.clock.now();
+      if (!expressions) {
+        this.samples.push({ timestamp, pose: null });
+        return;
+      }
+
+      // A face without landmarks says nothing about where it is looking
+      const landmarks = this.source.getLandmarks?.();
+      const pose = landmarks ? estimateHeadPose(landmarks) : null;
+      if (pose) {
+        this.samples.push({ timestamp, pose });
+      }
+    } catch (error) {
+      console.error('Error estimating gaze:', error);
+    }
+  }
+
+  getAnalysis(): EyeContactAnalysis {
+    return analyzeEyeContact(this.samples);
+  }
+}
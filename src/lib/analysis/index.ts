@@ -1,57 +1,81 @@
-import * as faceapi from 'face-api.js';
-import { Camera } from '@mediapipe/camera_utils';
-import { Pose, Results } from '@mediapipe/pose';
-import { EmotionAnalysis, GestureAnalysis, ToneAnalysis, StressAnalysis } from '@/types';
-import { StressDetector, StressDetectionResult } from './stress-detector';
-
-
-export const initFaceModels = async () => {
-  try {
-    await Promise.all([
-    faceapi.nets.tinyFaceDetector.loadFromUri('/models'),
-    faceapi.nets.faceLandmark68Net.loadFromUri('/models'),
-    faceapi.nets.faceRecognitionNet.loadFromUri('/models'),
-    faceapi.nets.faceExpressionNet.loadFromUri('/models')]
-    );
-    console.log('Face-api models loaded successfully');
-    return true;
-  } catch (error) {
-    console.error('Error loading face-api models:', error);
-    return false;
-  }
-};
+import { EmotionAnalysis, GestureAnalysis, ToneAnalysis, StressAnalysis, StressModality } from '@/types';
+import { ModalityProviders, StressDetector, StressDetectionResult } from './stress-detector';
+import { ANALYZER_LABELS, AnalysisEventBus, AnalyzerName, AnalyzerState, AnalyzerStatus } from './events';
+import {
+  BaselineSession,
+  StressBaselineProfile,
+  getRecalibrationReason,
+  measureEnvironment } from
+'./baseline';
+import { MotionFeatures, VoiceFeatures } from './fusion';
+import { StressConfigOverrides, StressPresetName } from './stress-config';
+import { SharedInference, startSharedInference } from './inference';
+import { loadFaceModels } from './models';
+import { EyeContactAnalyzer } from './gaze';
+import {
+  AnalysisClock,
+  AudioSource,
+  ExpressionScores,
+  ExpressionSource,
+  isMediaStream,
+  isVideoElement,
+  MediaPipePoseSource,
+  MicrophoneAudioSource,
+  PoseLandmark,
+  PoseSource,
+  systemClock,
+  VideoExpressionSource } from
+'./sources';
+import {
+  buildPitchTimeline,
+  estimatePitch,
+  getRMS,
+  MONOTONE_THRESHOLD_SEMITONES,
+  normalizePitch,
+  PitchSample,
+  summarizePitch } from
+'./pitch';
 
 
 export class ToneAnalyzer {
-  private audioContext: AudioContext | null = null;
-  private analyzer: AnalyserNode | null = null;
-  private microphone: MediaStreamAudioSourceNode | null = null;
-  private dataArray: Uint8Array | null = null;
+  private clock: AnalysisClock;
+  private source: AudioSource | null = null;
+  private dataArray: Float32Array | null = null;
 
   private isAnalyzing: boolean = false;
-  private pitchValues: number[] = [];
+  private pitchSamples: PitchSample[] = [];
+  private loudnessSamples: Array<{timestamp: number;rms: number;}> = [];
+  private wordSamples: Array<{timestamp: number;count: number;}> = [];
+  private lastPitchEstimate: number = 0;
   private wordCount: number = 0;
   private startTime: number = 0;
   private confidenceScore: number = 50;
 
-  constructor() {
-    this.startTime = Date.now();
+  // Run F0 estimation at ~20Hz rather than on every animation frame
+  private readonly PITCH_INTERVAL = 50;
+  // Frames quieter than this RMS are treated as silence
+  private readonly SILENCE_RMS = 0.01;
+  // Keep 5 minutes of voiced frames at most
+  private readonly MAX_PITCH_SAMPLES = 6000;
+  // Windows for the vocal stress features
+  private readonly VOICE_WINDOW = 3000;
+  private readonly SPEECH_RATE_WINDOW = 10000;
+
+  constructor(clock: AnalysisClock = systemClock) {
+    this.clock = clock;
+    this.startTime = clock.now();
   }
 
-  async start(stream: MediaStream) {
+  async start(input: MediaStream | AudioSource) {
     try {
-      this.audioContext = new AudioContext();
-      this.analyzer = this.audioContext.createAnalyser();
-      this.analyzer.fftSize = 2048;
-
-      this.microphone = this.audioContext.createMediaStreamSource(stream);
-      this.microphone.connect(this.analyzer);
-
-      const bufferLength = this.analyzer.frequencyBinCount;
-      this.dataArray = new Uint8Array(bufferLength);
+      this.source = isMediaStream(input) ? new MicrophoneAudioSource(input) : input;
+      this.dataArray = new Float32Array(this.source.frameSize);
 
       this.isAnalyzing = true;
-      this.startTime = Date.now();
+      this.startTime = this.clock.now();
+      this.pitchSamples = [];
+      this.loudnessSamples = [];
+      this.wordSamples = [];
       this.analyze();
 
       return true;
@@ -63,12 +87,10 @@ export class ToneAnalyzer {
 
   stop() {
     this.isAnalyzing = false;
-    if (this.audioContext) {
-      this.audioContext.close();
-      this.audioContext = null;
+    if (this.source) {
+      this.source.close();
+      this.source = null;
     }
-    this.analyzer = null;
-    this.microphone = null;
     this.dataArray = null;
   }
 
@@ -76,6 +98,7 @@ export class ToneAnalyzer {
   processSpeech(text: string) {
     const words = text.trim().split(/\s+/);
     this.wordCount = words.length;
+    this.wordSamples.push({ timestamp: this.clock.now(), count: this.wordCount });
   }
 
 
@@ -84,39 +107,77 @@ export class ToneAnalyzer {
   }
 
   private analyze() {
-    if (!this.isAnalyzing || !this.analyzer || !this.dataArray) return;
-
-
-    this.analyzer.getByteFrequencyData(this.dataArray);
+    if (!this.isAnalyzing || !this.source || !this.dataArray) return;
+
+    const now = this.clock.now();
+    if (now - this.lastPitchEstimate >= this.PITCH_INTERVAL) {
+      this.lastPitchEstimate = now;
+      this.source.read(this.dataArray);
+
+      const rms = getRMS(this.dataArray);
+      if (rms >= this.SILENCE_RMS) {
+        this.loudnessSamples.push({ timestamp: now, rms });
+        if (this.loudnessSamples.length > this.MAX_PITCH_SAMPLES) {
+          this.loudnessSamples.shift();
+        }
 
+        const pitchHz = estimatePitch(this.dataArray, this.source.sampleRate);
+        if (pitchHz !== null) {
+          this.pitchSamples.push({ timestamp: now, pitchHz });
 
-    let sum = 0;
-    for (let i = 0; i < this.dataArray.length; i++) {
-      sum += this.dataArray[i];
+          if (this.pitchSamples.length > this.MAX_PITCH_SAMPLES) {
+            this.pitchSamples.shift();
+          }
+        }
+      }
     }
-    const averageFrequency = sum / this.dataArray.length;
 
 
-    const normalizedPitch = Math.min(100, averageFrequency / 255 * 100);
-    this.pitchValues.push(normalizedPitch);
-
+    this.clock.requestFrame(() => this.analyze());
+  }
 
-    if (this.pitchValues.length > 100) {
-      this.pitchValues.shift();
+  /**
+   * Vocal stress features over the last few seconds
+   */
+  getVoiceFeatures(): VoiceFeatures | null {
+    if (!this.isAnalyzing) return null;
+
+    const now = this.clock.now();
+    const windowStart = now - this.VOICE_WINDOW;
+
+    const pitches = this.pitchSamples.filter((sample) => sample.timestamp > windowStart);
+    let jitter = 0;
+    let jitterCount = 0;
+    for (let i = 1; i < pitches.length; i++) {
+      // Only compare estimates from the same voiced run
+      if (pitches[i].timestamp - pitches[i - 1].timestamp <= this.PITCH_INTERVAL * 2) {
+        jitter += Math.abs(pitches[i].pitchHz - pitches[i - 1].pitchHz) / pitches[i - 1].pitchHz;
+        jitterCount++;
+      }
     }
 
+    const loudness = this.loudnessSamples.filter((sample) => sample.timestamp > windowStart).map((sample) => sample.rms);
+    const meanLoudness = loudness.reduce((sum, rms) => sum + rms, 0) / loudness.length;
+    const loudnessSpread = Math.sqrt(loudness.reduce((sum, rms) => sum + (rms - meanLoudness) ** 2, 0) / loudness.length);
+
+    const rateStart = Math.max(now - this.SPEECH_RATE_WINDOW, this.startTime);
+    const wordsBefore = [...this.wordSamples].reverse().find((sample) => sample.timestamp <= rateStart)?.count ?? 0;
+    const recentWords = this.wordCount - wordsBefore;
 
-    requestAnimationFrame(() => this.analyze());
+    return {
+      pitchJitter: jitterCount >= 5 ? jitter / jitterCount : null,
+      volumeVariation: loudness.length >= 5 ? loudnessSpread / meanLoudness : null,
+      speechRate: recentWords > 0 && now > rateStart ? recentWords / ((now - rateStart) / 60000) : null
+    };
   }
 
   getAnalysis(): ToneAnalysis {
 
-    const avgPitch = this.pitchValues.length > 0 ?
-    this.pitchValues.reduce((a, b) => a + b, 0) / this.pitchValues.length :
-    50;
+    const summary = summarizePitch(this.pitchSamples.map((sample) => sample.pitchHz));
+    const monotone = summary !== null && summary.variabilitySemitones < MONOTONE_THRESHOLD_SEMITONES;
 
 
-    const durationMinutes = (Date.now() - this.startTime) / 60000;
+    const durationMinutes = (this.clock.now() - this.startTime) / 60000;
     const speed = durationMinutes > 0 ? Math.round(this.wordCount / durationMinutes) : 0;
 
 
@@ -129,14 +190,19 @@ export class ToneAnalyzer {
 
 
     let feedback = "";
-    if (avgPitch > 75) feedback = "Try lowering your pitch for a more authoritative tone.";else
-    if (avgPitch < 25) feedback = "Try varying your pitch more to sound more engaging.";else
+    if (!summary) feedback = "Not enough voiced speech was detected to analyze your pitch.";else
+    if (monotone) feedback = "Your pitch stays very flat. Vary your intonation to emphasize key points and sound more engaging.";else
+    if (summary.variabilitySemitones > 8) feedback = "Your pitch swings widely. A steadier intonation will sound more composed.";else
     if (speed > 160) feedback = "Consider slowing down to improve clarity.";else
     if (speed < 100) feedback = "Try speaking a bit faster to maintain engagement.";else
     feedback = "Your tone is well-balanced. Maintain this level of delivery.";
 
     return {
-      pitch: Math.round(avgPitch),
+      pitch: summary ? normalizePitch(summary.medianHz) : 50,
+      pitchHz: summary ? Math.round(summary.medianHz) : 0,
+      pitchVariance: summary ? Math.round(summary.variabilitySemitones * 10) / 10 : 0,
+      monotone,
+      pitchTimeline: buildPitchTimeline(this.pitchSamples, this.startTime),
       speed,
       confidence,
       feedback
@@ -146,20 +212,29 @@ export class ToneAnalyzer {
 
 
 export class EmotionAnalyzer {
+  readonly events = new AnalysisEventBus();
+  private clock: AnalysisClock;
   private isAnalyzing: boolean = false;
   private emotionTimeline: Array<{emotion: string;timestamp: number;}> = [];
   private detectionInterval: number | null = null;
-  private video: HTMLVideoElement | null = null;
+  private source: ExpressionSource | null = null;
 
-  async start(video: HTMLVideoElement) {
+  constructor(clock: AnalysisClock = systemClock) {
+    this.clock = clock;
+  }
+
+  async start(input: HTMLVideoElement | ExpressionSource) {
     try {
-      this.video = video;
+      if (isVideoElement(input) && !(await loadFaceModels())) {
+        throw new Error('Face models could not be loaded');
+      }
+      this.source = isVideoElement(input) ? new VideoExpressionSource(input, { withLandmarks: true }) : input;
       this.isAnalyzing = true;
 
 
-      this.detectionInterval = window.setInterval(() => {
+      this.detectionInterval = this.clock.setInterval(() => {
         this.detectEmotions();
-      }, 1000) as unknown as number;
+      }, 1000);
 
       return true;
     } catch (error) {
@@ -171,60 +246,69 @@ export class EmotionAnalyzer {
   stop() {
     this.isAnalyzing = false;
     if (this.detectionInterval) {
-      clearInterval(this.detectionInterval);
+      this.clock.clearInterval(this.detectionInterval);
       this.detectionInterval = null;
     }
   }
 
   private async detectEmotions() {
-    if (!this.isAnalyzing || !this.video) return;
+    if (!this.isAnalyzing || !this.source) return;
 
     try {
-      const detections = await faceapi.detectAllFaces(this.video, new faceapi.TinyFaceDetectorOptions()).
-      withFaceLandmarks().
-      withFaceExpressions();
+      const expressions = await this.source.detect();
 
-      if (detections && detections.length > 0) {
-        const expressions = detections[0].expressions;
+      if (expressions) {
+        this.processExpressions(expressions);
+      }
+    } catch (error) {
+      console.error('Error detecting emotions:', error);
+    }
+  }
 
+  private processExpressions(expressions: ExpressionScores) {
+    let dominantEmotion = 'neutral';
+    let maxScore = expressions.neutral;
 
-        let dominantEmotion = 'neutral';
-        let maxScore = expressions.neutral;
+    if (expressions.happy > maxScore) {
+      dominantEmotion = 'happiness';
+      maxScore = expressions.happy;
+    }
+    if (expressions.sad > maxScore) {
+      dominantEmotion = 'sadness';
+      maxScore = expressions.sad;
+    }
+    if (expressions.angry > maxScore) {
+      dominantEmotion = 'anger';
+      maxScore = expressions.angry;
+    }
+    if (expressions.surprised > maxScore) {
+      dominantEmotion = 'surprise';
+      maxScore = expressions.surprised;
+    }
+    if (expressions.fearful > maxScore) {
+      dominantEmotion = 'frustration';
+      maxScore = expressions.fearful;
+    }
 
-        if (expressions.happy > maxScore) {
-          dominantEmotion = 'happiness';
-          maxScore = expressions.happy;
-        }
-        if (expressions.sad > maxScore) {
-          dominantEmotion = 'sadness';
-          maxScore = expressions.sad;
-        }
-        if (expressions.angry > maxScore) {
-          dominantEmotion = 'anger';
-          maxScore = expressions.angry;
-        }
-        if (expressions.surprised > maxScore) {
-          dominantEmotion = 'surprise';
-          maxScore = expressions.surprised;
-        }
-        if (expressions.fearful > maxScore) {
-          dominantEmotion = 'frustration';
-          maxScore = expressions.fearful;
-        }
 
+    const previous = this.emotionTimeline[this.emotionTimeline.length - 1];
+    if (previous && previous.emotion !== dominantEmotion) {
+      this.events.emit({
+        type: 'emotionChange',
+        from: previous.emotion,
+        to: dominantEmotion,
+        timestamp: this.clock.now()
+      });
+    }
 
-        this.emotionTimeline.push({
-          emotion: dominantEmotion,
-          timestamp: Date.now()
-        });
+    this.emotionTimeline.push({
+      emotion: dominantEmotion,
+      timestamp: this.clock.now()
+    });
 
 
-        if (this.emotionTimeline.length > 60) {
-          this.emotionTimeline.shift();
-        }
-      }
-    } catch (error) {
-      console.error('Error detecting emotions:', error);
+    if (this.emotionTimeline.length > 60) {
+      this.emotionTimeline.shift();
     }
   }
 
@@ -289,48 +373,28 @@ export class EmotionAnalyzer {
 
 
 export class GestureAnalyzer {
-  private pose: Pose | null = null;
-  private camera: Camera | null = null;
+  private source: PoseSource | null = null;
   private isAnalyzing: boolean = false;
   private postureSamples: string[] = [];
   private handMovementSamples: string[] = [];
   private facialEngagementSamples: string[] = [];
   private bodyLanguageSamples: string[] = [];
+  private wristHistory: Array<{left: PoseLandmark;right: PoseLandmark;}> = [];
 
-  async start(video: HTMLVideoElement) {
+  // Frames for the fidgeting features (~2-10 seconds at the shared inference rate)
+  private readonly MOTION_WINDOW = 30;
+
+  async start(input: HTMLVideoElement | PoseSource) {
     try {
+      this.source = isVideoElement(input) ? new MediaPipePoseSource(input) : input;
 
-      this.pose = new Pose({
-        locateFile: (file) => {
-          return `https://cdn.jsdelivr.net/npm/@mediapipe/pose/${file}`;
+      this.isAnalyzing = true;
+      await this.source.start((landmarks) => {
+        if (this.isAnalyzing) {
+          this.processLandmarks(landmarks);
         }
       });
 
-      this.pose.setOptions({
-        modelComplexity: 1,
-        smoothLandmarks: true,
-        minDetectionConfidence: 0.5,
-        minTrackingConfidence: 0.5
-      });
-
-      this.pose.onResults((results) => {
-        this.processResults(results);
-      });
-
-
-      this.camera = new Camera(video, {
-        onFrame: async () => {
-          if (this.pose && this.isAnalyzing) {
-            await this.pose.send({ image: video });
-          }
-        },
-        width: 640,
-        height: 480
-      });
-
-      this.isAnalyzing = true;
-      await this.camera.start();
-
       return true;
     } catch (error) {
       console.error('Error starting gesture analysis:', error);
@@ -340,30 +404,30 @@ export class GestureAnalyzer {
 
   stop() {
     this.isAnalyzing = false;
-    if (this.camera) {
-      this.camera.stop();
-      this.camera = null;
+    this.wristHistory = [];
+    if (this.source) {
+      this.source.stop();
+      this.source = null;
     }
-    this.pose = null;
   }
 
-  private processResults(results: Results) {
-    if (!results.poseLandmarks) return;
+  private processLandmarks(landmarks: PoseLandmark[]) {
+    this.analyzePosture(landmarks);
 
 
-    this.analyzePosture(results.poseLandmarks);
+    this.trackWrists(landmarks);
 
 
-    this.analyzeHandMovements(results.poseLandmarks);
+    this.analyzeHandMovements(landmarks);
 
 
-    this.analyzeFacialEngagement(results.poseLandmarks);
+    this.analyzeFacialEngagement(landmarks);
 
 
-    this.analyzeBodyLanguage(results.poseLandmarks);
+    this.analyzeBodyLanguage(landmarks);
   }
 
-  private analyzePosture(landmarks: any[]) {
+  private analyzePosture(landmarks: PoseLandmark[]) {
 
     const leftShoulder = landmarks[11];
     const rightShoulder = landmarks[12];
@@ -384,7 +448,7 @@ export class GestureAnalyzer {
     }
   }
 
-  private analyzeHandMovements(landmarks: any[]) {
+  private analyzeHandMovements(landmarks: PoseLandmark[]) {
 
     const leftWrist = landmarks[15];
     const rightWrist = landmarks[16];
@@ -420,14 +484,49 @@ export class GestureAnalyzer {
     }
   }
 
-  private analyzeFacialEngagement(landmarks: any[]) {
+  private trackWrists(landmarks: PoseLandmark[]) {
+    const left = landmarks[15];
+    const right = landmarks[16];
+    if (!left || !right) return;
+
+    this.wristHistory.push({ left, right });
+    if (this.wristHistory.length > this.MOTION_WINDOW) {
+      this.wristHistory.shift();
+    }
+  }
+
+  /**
+   * Hand motion and fidgeting over the last second. Fidgeting is motion that
+   * goes back and forth instead of somewhere.
+   */
+  getMotionFeatures(): MotionFeatures | null {
+    if (!this.isAnalyzing || this.wristHistory.length < 10) return null;
+
+    const distance = (a: PoseLandmark, b: PoseLandmark) => Math.hypot(a.x - b.x, a.y - b.y);
+    let path = 0;
+    for (let i = 1; i < this.wristHistory.length; i++) {
+      path += distance(this.wristHistory[i].left, this.wristHistory[i - 1].left);
+      path += distance(this.wristHistory[i].right, this.wristHistory[i - 1].right);
+    }
+
+    const first = this.wristHistory[0];
+    const last = this.wristHistory[this.wristHistory.length - 1];
+    const net = distance(first.left, last.left) + distance(first.right, last.right);
+
+    return {
+      handMotion: path / (this.wristHistory.length - 1),
+      fidgeting: path > 0.05 ? 1 - Math.min(net / path, 1) : 0
+    };
+  }
+
+  private analyzeFacialEngagement(landmarks: PoseLandmark[]) {
 
     const nose = landmarks[0];
     const leftEye = landmarks[2];
     const rightEye = landmarks[5];
 
     if (nose && leftEye && rightEye) {
-      const visibility = (nose.visibility + leftEye.visibility + rightEye.visibility) / 3;
+      const visibility = ((nose.visibility ?? 0) + (leftEye.visibility ?? 0) + (rightEye.visibility ?? 0)) / 3;
 
       if (visibility > 0.8) {
         this.facialEngagementSamples.push('high');
@@ -444,7 +543,7 @@ export class GestureAnalyzer {
     }
   }
 
-  private analyzeBodyLanguage(landmarks: any[]) {
+  private analyzeBodyLanguage(landmarks: PoseLandmark[]) {
 
     const leftShoulder = landmarks[11];
     const rightShoulder = landmarks[12];
@@ -531,27 +630,118 @@ export class GestureAnalyzer {
 
 
 export class StressAnalyzer {
+  readonly events = new AnalysisEventBus();
+  private clock: AnalysisClock;
   private stressDetector: StressDetector;
   private isAnalyzing: boolean = false;
   private stressTimeline: Array<{stress: boolean;confidence: number;timestamp: number;}> = [];
-  private video: HTMLVideoElement | null = null;
+  private baselineProfile: StressBaselineProfile | null = null;
+  private usingStoredBaseline: boolean = false;
+  private drifted: boolean = false;
+  private lastSession: BaselineSession | null = null;
+  private contributionTotals: Partial<Record<StressModality, number>> = {};
+  private stressFeatures = new Set<string>();
+
+  constructor(clock: AnalysisClock = systemClock, config: StressConfigOverrides | StressPresetName = {}) {
+    this.clock = clock;
+    this.stressDetector = new StressDetector(clock, config);
+    this.stressDetector.events.pipe(this.events);
+    this.stressDetector.events.on('baselineDrift', () => this.recalibrate());
+  }
+
+  /**
+   * Voice and body signals to fuse with facial expressions
+   */
+  attachModalities(providers: ModalityProviders) {
+    this.stressDetector.attachModalities(providers);
+  }
+
+  setConfig(config: StressConfigOverrides | StressPresetName) {
+    this.stressDetector.setConfig(config);
+  }
+
+  /**
+   * Stored baseline to use instead of calibrating at the start of each answer
+   */
+  setBaselineProfile(profile: StressBaselineProfile | null) {
+    this.baselineProfile = profile;
+  }
+
+  /**
+   * Calm frames and drift from the last stopped session, for updating the
+   * stored baseline. Null if the session didn't use the stored baseline.
+   */
+  getBaselineSession(): BaselineSession | null {
+    return this.lastSession;
+  }
+
+  private async calibrate(input: HTMLVideoElement | ExpressionSource) {
+    const profile = this.baselineProfile;
+    if (profile) {
+      const video = isVideoElement(input) ? input : input.video;
+      const environment = video ? measureEnvironment(video) : undefined;
+      const reason = getRecalibrationReason(profile, this.clock.now(), environment);
+      if (!reason) {
+        this.stressDetector.loadBaseline(profile.averageExpressions, profile.updatedAt);
+        this.usingStoredBaseline = true;
+        return true;
+      }
+      console.log(`Not using stored stress baseline: ${reason}`);
+    }
+
+    this.events.emit({
+      type: 'statusChange',
+      analyzer: 'stress',
+      state: { status: 'calibrating' },
+      timestamp: this.clock.now()
+    });
+    return this.stressDetector.startCalibration();
+  }
+
+  /**
+   * The baseline stopped matching the user's face: calibrate again in place
+   */
+  private async recalibrate() {
+    if (!this.isAnalyzing) return;
 
-  constructor() {
-    this.stressDetector = new StressDetector();
+    this.drifted = true;
+    this.stressDetector.stopDetection();
+    this.events.emit({
+      type: 'statusChange',
+      analyzer: 'stress',
+      state: { status: 'calibrating', message: 'Baseline drifted, recalibrating' },
+      timestamp: this.clock.now()
+    });
+
+    const calibrated = await this.stressDetector.startCalibration();
+    if (!this.isAnalyzing) return;
+
+    const restarted = calibrated && this.stressDetector.startDetection();
+    this.events.emit({
+      type: 'statusChange',
+      analyzer: 'stress',
+      state: restarted ? { status: 'running' } : { status: 'failed', message: 'Recalibration failed' },
+      timestamp: this.clock.now()
+    });
   }
 
-  async start(video: HTMLVideoElement) {
+  async start(input: HTMLVideoElement | ExpressionSource) {
     try {
-      this.video = video;
-      
       // Initialize the stress detector
-      const initialized = await this.stressDetector.initialize(video);
+      const initialized = isVideoElement(input) ?
+      await this.stressDetector.initialize(input, { withLandmarks: true }) :
+      this.stressDetector.attachSource(input);
       if (!initialized) {
         throw new Error('Failed to initialize stress detector');
       }
 
-      // Start calibration automatically
-      const calibrated = await this.stressDetector.startCalibration();
+      // Use the stored baseline, or calibrate now if there isn't a usable one
+      this.lastSession = null;
+      this.contributionTotals = {};
+      this.stressFeatures.clear();
+      this.usingStoredBaseline = false;
+      this.drifted = false;
+      const calibrated = await this.calibrate(input);
       if (!calibrated) {
         throw new Error('Failed to calibrate stress detector');
       }
@@ -573,6 +763,12 @@ export class StressAnalyzer {
   }
 
   stop() {
+    if (this.isAnalyzing && this.usingStoredBaseline) {
+      this.lastSession = {
+        update: this.drifted ? null : this.stressDetector.getCalmUpdate(),
+        drifted: this.drifted
+      };
+    }
     this.isAnalyzing = false;
     this.stressDetector.reset();
   }
@@ -581,27 +777,52 @@ export class StressAnalyzer {
     if (!this.isAnalyzing) return;
 
     // Track stress levels every second
-    const trackingInterval = setInterval(() => {
+    const trackingInterval = this.clock.setInterval(() => {
       if (!this.isAnalyzing) {
-        clearInterval(trackingInterval);
+        this.clock.clearInterval(trackingInterval);
         return;
       }
 
       const currentStress = this.stressDetector.getCurrentStressLevel();
+      this.recordContributions(currentStress);
       this.stressTimeline.push({
         stress: currentStress.stress,
         confidence: currentStress.confidence,
-        timestamp: Date.now()
+        timestamp: this.clock.now()
       });
 
       // Keep only last 5 minutes of data
-      const fiveMinutesAgo = Date.now() - (5 * 60 * 1000);
+      const fiveMinutesAgo = this.clock.now() - (5 * 60 * 1000);
       this.stressTimeline = this.stressTimeline.filter(
         entry => entry.timestamp > fiveMinutesAgo
       );
     }, 1000);
   }
 
+  /**
+   * Accumulate each modality's share of the stress score, weighted by how
+   * stressed the user looked at the time, and the cues seen while stressed
+   */
+  private recordContributions(result: StressDetectionResult) {
+    Object.entries(result.contributions || {}).forEach(([modality, share]) => {
+      const key = modality as StressModality;
+      this.contributionTotals[key] = (this.contributionTotals[key] || 0) + share * result.confidence;
+    });
+    if (result.stress) {
+      result.features.forEach((feature) => this.stressFeatures.add(feature));
+    }
+  }
+
+  private getContributions(): Partial<Record<StressModality, number>> {
+    const total = Object.values(this.contributionTotals).reduce((sum, value) => sum + value, 0);
+    return Object.fromEntries(
+      Object.entries(this.contributionTotals).map(([modality, value]) => [
+      modality,
+      total > 0 ? Math.round(value / total * 100) / 100 : 0]
+      )
+    );
+  }
+
   getAnalysis(): StressAnalysis {
     const currentStress = this.stressDetector.getCurrentStressLevel();
     const stats = this.stressDetector.getDetectionStats();
@@ -626,7 +847,8 @@ export class StressAnalyzer {
     return {
       stress: currentStress.stress,
       confidence: currentStress.confidence,
-      features: currentStress.features,
+      features: this.stressFeatures.size > 0 ? [...this.stressFeatures] : currentStress.features,
+      contributions: this.getContributions(),
       timeline: this.stressTimeline,
       feedback
     };
@@ -646,47 +868,187 @@ export class StressAnalyzer {
 }
 
 
+export interface AnalysisSources {
+  expressions: ExpressionSource;
+  pose: PoseSource;
+  audio: AudioSource;
+}
+
+const ANALYZERS: AnalyzerName[] = ['tone', 'emotion', 'gesture', 'stress', 'eyeContact'];
+
+// Analyzers that depend on seeing the candidate's face
+const FACE_ANALYZERS: AnalyzerName[] = ['emotion', 'stress', 'eyeContact'];
+
 export class AnalysisManager {
+  /** Status changes plus events forwarded from the individual analyzers. */
+  readonly events = new AnalysisEventBus();
+  private clock: AnalysisClock;
   private toneAnalyzer: ToneAnalyzer;
   private emotionAnalyzer: EmotionAnalyzer;
   private gestureAnalyzer: GestureAnalyzer;
   private stressAnalyzer: StressAnalyzer;
+  private eyeContactAnalyzer: EyeContactAnalyzer;
+  private inference: SharedInference | null = null;
   private isAnalyzing: boolean = false;
-
-  constructor() {
-    this.toneAnalyzer = new ToneAnalyzer();
-    this.emotionAnalyzer = new EmotionAnalyzer();
+  private states = {} as Record<AnalyzerName, AnalyzerState>;
+
+  /**
+   * @param stressConfig Stress detector settings or preset (see `stress-config.ts`)
+   */
+  constructor(clock: AnalysisClock = systemClock, stressConfig: StressConfigOverrides | StressPresetName = {}) {
+    this.clock = clock;
+    this.toneAnalyzer = new ToneAnalyzer(clock);
+    this.emotionAnalyzer = new EmotionAnalyzer(clock);
     this.gestureAnalyzer = new GestureAnalyzer();
-    this.stressAnalyzer = new StressAnalyzer();
+    this.stressAnalyzer = new StressAnalyzer(clock, stressConfig);
+    this.eyeContactAnalyzer = new EyeContactAnalyzer(clock);
+    this.stressAnalyzer.attachModalities({
+      voice: () => this.toneAnalyzer.getVoiceFeatures(),
+      motion: () => this.gestureAnalyzer.getMotionFeatures()
+    });
+    ANALYZERS.forEach((analyzer) => this.states[analyzer] = { status: 'idle' });
+
+    this.events.on('statusChange', (event) => {
+      this.states[event.analyzer] = event.state;
+    });
+    this.emotionAnalyzer.events.pipe(this.events);
+    this.stressAnalyzer.events.pipe(this.events);
+
+    this.events.on('faceLost', () => {
+      FACE_ANALYZERS.
+      filter((analyzer) => this.states[analyzer].status === 'running').
+      forEach((analyzer) => this.setStatus(analyzer, 'degraded', 'Face not detected'));
+    });
+    this.events.on('faceFound', () => {
+      FACE_ANALYZERS.
+      filter((analyzer) => this.states[analyzer].status === 'degraded').
+      forEach((analyzer) => this.setStatus(analyzer, 'running'));
+    });
   }
 
   async start(videoElement: HTMLVideoElement, audioStream: MediaStream) {
     try {
+      ANALYZERS.forEach((analyzer) => this.setStatus(analyzer, 'loading'));
+
+      // One inference pass per frame, shared by the face and pose analyzers
+      let inference: SharedInference | null = null;
+      try {
+        inference = await startSharedInference(videoElement, this.clock);
+        if (ANALYZERS.every((analyzer) => this.states[analyzer].status === 'idle')) {
+          // Stopped while the models were loading
+          inference.stop();
+          return false;
+        }
+        inference.events.pipe(this.events);
+        this.inference = inference;
+      } catch (error) {
+        console.error('Error starting face and pose inference:', error);
+      }
 
-      await initFaceModels();
-
+      const face = inference?.getCapabilities().face ? inference.expressions : null;
+      const pose = inference?.getCapabilities().pose ? inference.pose : null;
+      if (!face) {
+        FACE_ANALYZERS.forEach((analyzer) => this.setStatus(analyzer, 'failed', 'Face models could not be loaded'));
+      }
+      if (!pose) {
+        this.setStatus('gesture', 'failed', 'Pose model could not be loaded');
+      }
 
-      await Promise.all([
-      this.toneAnalyzer.start(audioStream),
-      this.emotionAnalyzer.start(videoElement),
-      this.gestureAnalyzer.start(videoElement),
-      this.stressAnalyzer.start(videoElement)]
-      );
+      return await this.startAnalyzers({
+        tone: () => this.toneAnalyzer.start(audioStream),
+        emotion: face ? () => this.emotionAnalyzer.start(face) : null,
+        gesture: pose ? () => this.gestureAnalyzer.start(pose) : null,
+        stress: face ? () => this.stressAnalyzer.start(face) : null,
+        eyeContact: face ? () => this.eyeContactAnalyzer.start(face) : null
+      });
+    } catch (error) {
+      console.error('Error starting analysis:', error);
+      return false;
+    }
+  }
 
-      this.isAnalyzing = true;
-      return true;
+  /**
+   * Start against recorded inputs instead of a live camera and microphone.
+   * Used by the replay harness.
+   */
+  async startFromSources(sources: AnalysisSources) {
+    try {
+      ANALYZERS.forEach((analyzer) => this.setStatus(analyzer, 'loading'));
+
+      return await this.startAnalyzers({
+        tone: () => this.toneAnalyzer.start(sources.audio),
+        emotion: () => this.emotionAnalyzer.start(sources.expressions),
+        gesture: () => this.gestureAnalyzer.start(sources.pose),
+        stress: () => this.stressAnalyzer.start(sources.expressions),
+        eyeContact: () => this.eyeContactAnalyzer.start(sources.expressions)
+      });
     } catch (error) {
       console.error('Error starting analysis:', error);
       return false;
     }
   }
 
+  /**
+   * Start each analyzer independently and record whether it came up. Resolves
+   * to true if at least one analyzer is running.
+   */
+  private async startAnalyzers(starters: Record<AnalyzerName, (() => Promise<boolean>) | null>) {
+    const results = await Promise.all(ANALYZERS.map(async (analyzer) => {
+      const start = starters[analyzer];
+      if (!start) return false;
+
+      const success = await start();
+      const { status } = this.states[analyzer];
+      if (status === 'idle') {
+        // Stopped while still starting up
+        return false;
+      }
+      if (!success) {
+        this.setStatus(analyzer, 'failed', `${ANALYZER_LABELS[analyzer]} analysis could not be started`);
+      } else if (status === 'loading' || status === 'calibrating') {
+        this.setStatus(analyzer, 'running');
+      }
+      return success;
+    }));
+
+    this.isAnalyzing = results.some(Boolean);
+    return this.isAnalyzing;
+  }
+
+  private setStatus(analyzer: AnalyzerName, status: AnalyzerStatus, message?: string) {
+    this.events.emit({
+      type: 'statusChange',
+      analyzer,
+      state: message ? { status, message } : { status },
+      timestamp: this.clock.now()
+    });
+  }
+
   stop() {
     this.toneAnalyzer.stop();
     this.emotionAnalyzer.stop();
     this.gestureAnalyzer.stop();
     this.stressAnalyzer.stop();
+    this.eyeContactAnalyzer.stop();
+    this.inference?.stop();
+    this.inference = null;
     this.isAnalyzing = false;
+    ANALYZERS.forEach((analyzer) => this.setStatus(analyzer, 'idle'));
+  }
+
+  /**
+   * Stored per-user stress baseline to use for the next answers
+   */
+  setStressBaseline(profile: StressBaselineProfile | null) {
+    this.stressAnalyzer.setBaselineProfile(profile);
+  }
+
+  getStressBaselineSession() {
+    return this.stressAnalyzer.getBaselineSession();
+  }
+
+  getAnalyzerStates(): Record<AnalyzerName, AnalyzerState> {
+    return { ...this.states };
   }
 
   updateSpeechText(text: string) {
@@ -699,7 +1061,8 @@ export class AnalysisManager {
       toneAnalysis: this.toneAnalyzer.getAnalysis(),
       emotionAnalysis: this.emotionAnalyzer.getAnalysis(),
       gestureAnalysis: this.gestureAnalyzer.getAnalysis(),
-      stressAnalysis: this.stressAnalyzer.getAnalysis()
+      stressAnalysis: this.stressAnalyzer.getAnalysis(),
+      eyeContactAnalysis: this.eyeContactAnalyzer.getAnalysis()
     };
   }
 
@@ -709,4 +1072,13 @@ export class AnalysisManager {
 }
 
 // Export stress detection components
-export { StressDetector, type StressDetectionResult } from './stress-detector';
\ No newline at end of file
+export { StressDetector, type StressDetectionResult } from './stress-detector';
+export { FluencyAnalyzer } from './fluency';
+export { EyeContactAnalyzer, analyzeEyeContact, estimateHeadPose, gazeDirection, type GazeSample, type HeadPose } from './gaze';
+export * from './sources';
+export * from './events';
+export * from './baseline';
+export * from './fusion';
+export * from './stress-config';
+export * from './inference';
+export * from './models';
\ No newline at end of file
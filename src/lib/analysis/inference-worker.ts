@@ -0,0 +1,147 @@
+import * as faceapi from 'face-api.js';
+import { Pose } from '@mediapipe/pose';
+import { createPoseModel, loadFaceModels, verifiedFetch } from './models';
+import type {
+  InferenceCapabilities,
+  InferenceRequest,
+  InferenceResponse,
+  InferenceResult } from
+'./inference';
+import type { PoseLandmark } from './sources';
+
+/**
+ * Worker side of `WorkerInferenceBackend` (see `inference.ts`). Receives one
+ * frame per tick as an ImageBitmap, runs face-api on it through an
+ * OffscreenCanvas and MediaPipe Pose on it directly, and posts the results
+ * back.
+ */
+
+interface WorkerScope {
+  postMessage(message: InferenceResponse): void;
+  onmessage: ((event: MessageEvent<InferenceRequest>) => void) | null;
+}
+
+const scope = self as unknown as WorkerScope;
+
+let capabilities: InferenceCapabilities = { face: false, pose: false };
+let canvas: OffscreenCanvas | null = null;
+let pose: Pose | null = null;
+let poseLandmarks: PoseLandmark[] | null = null;
+
+class Unavailable {}
+
+/**
+ * face-api and MediaPipe are typed against DOM elements, which don't exist in
+ * a worker. Their worker counterparts work for everything the libraries do
+ * with them, but the types don't overlap, so they are cast here and only here.
+ */
+const workerDom = {
+  Canvas: OffscreenCanvas as unknown as typeof HTMLCanvasElement,
+  CanvasRenderingContext2D: OffscreenCanvasRenderingContext2D as unknown as typeof CanvasRenderingContext2D,
+  /** Stands in for DOM images and videos, which face-api is never given here. */
+  Unavailable: Unavailable as unknown as typeof HTMLImageElement & typeof HTMLVideoElement,
+  createCanvas: () => new OffscreenCanvas(1, 1) as unknown as HTMLCanvasElement,
+  /** MediaPipe accepts ImageBitmaps in workers, its types only list DOM elements. */
+  fromBitmap: (frame: ImageBitmap) => frame as unknown as HTMLCanvasElement
+};
+
+// face-api only recognizes browser and Node environments, so describe the
+// worker to it: canvases are OffscreenCanvases and there are no DOM images
+const patchFaceApiEnv = () => {
+  faceapi.env.setEnv({
+    Canvas: workerDom.Canvas,
+    CanvasRenderingContext2D: workerDom.CanvasRenderingContext2D,
+    Image: workerDom.Unavailable,
+    ImageData,
+    Video: workerDom.Unavailable,
+    createCanvasElement: workerDom.createCanvas,
+    createImageElement: () => {
+      throw new Error('Images are not available in the inference worker');
+    },
+    fetch: verifiedFetch,
+    readFile: () => Promise.reject(new Error('Files are not available in the inference worker'))
+  });
+};
+
+const loadPose = async () => {
+  try {
+    pose = await createPoseModel();
+    pose.onResults((results) => {
+      poseLandmarks = results.poseLandmarks ?? null;
+    });
+    return true;
+  } catch (error) {
+    console.error('Error loading pose model in worker:', error);
+    pose = null;
+    return false;
+  }
+};
+
+const detectFace = async (frame: ImageBitmap, result: InferenceResult) => {
+  if (!canvas) {
+    canvas = new OffscreenCanvas(frame.width, frame.height);
+  } else if (canvas.width !== frame.width || canvas.height !== frame.height) {
+    canvas.width = frame.width;
+    canvas.height = frame.height;
+  }
+
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Could not get an OffscreenCanvas context');
+  }
+  context.drawImage(frame, 0, 0);
+
+  const pixels = faceapi.tf.browser.fromPixels(context.getImageData(0, 0, frame.width, frame.height));
+  try {
+    const detection = await faceapi.
+    detectSingleFace(pixels, new faceapi.TinyFaceDetectorOptions()).
+    withFaceLandmarks().
+    withFaceExpressions();
+    if (detection) {
+      const { neutral, happy, sad, angry, fearful, disgusted, surprised } = detection.expressions;
+      result.expressions = { neutral, happy, sad, angry, fearful, disgusted, surprised };
+      result.landmarks = detection.landmarks.positions.map(({ x, y }) => ({ x, y }));
+    }
+  } finally {
+    pixels.dispose();
+  }
+};
+
+const run = async (id: number, frame: ImageBitmap) => {
+  try {
+    const result: InferenceResult = { expressions: null, landmarks: null, pose: null };
+
+    if (capabilities.face) {
+      await detectFace(frame, result);
+    }
+    if (pose) {
+      poseLandmarks = null;
+      await pose.send({ image: workerDom.fromBitmap(frame) });
+      result.pose = poseLandmarks;
+    }
+
+    scope.postMessage({ type: 'result', id, result });
+  } catch (error) {
+    scope.postMessage({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+  } finally {
+    frame.close();
+  }
+};
+
+scope.onmessage = async (event) => {
+  const request = event.data;
+
+  if (request.type === 'load') {
+    try {
+      patchFaceApiEnv();
+      const [face, poseLoaded] = await Promise.all([loadFaceModels(), loadPose()]);
+      capabilities = { face, pose: poseLoaded };
+      scope.postMessage({ type: 'loaded', capabilities });
+    } catch (error) {
+      scope.postMessage({ type: 'error', id: null, message: error instanceof Error ? error.message : String(error) });
+    }
+    return;
+  }
+
+  run(request.id, request.frame);
+};
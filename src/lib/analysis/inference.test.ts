@@ -0,0 +1,83 @@
+import {
+  FrameRateController,
+  InferenceBackend,
+  InferenceResult,
+  SharedInference } from
+'./inference';
+import { FakeClock } from './replay';
+import { PoseLandmark } from './sources';
+
+const expressions = {
+  neutral: 0.9,
+  happy: 0.05,
+  sad: 0.01,
+  angry: 0.01,
+  fearful: 0.01,
+  disgusted: 0.01,
+  surprised: 0.01
+};
+
+const createBackend = (result: InferenceResult) => {
+  const backend = {
+    name: 'main-thread' as const,
+    runs: 0,
+    load: async () => ({ face: true, pose: true }),
+    run: async () => {
+      backend.runs++;
+      return result;
+    },
+    close: () => {}
+  };
+  return backend satisfies InferenceBackend;
+};
+
+describe('FrameRateController', () => {
+  test('should slow down when inference uses most of the frame budget', () => {
+    const rate = new FrameRateController(3, 15);
+    expect(rate.getFps()).toBe(15);
+
+    for (let i = 0; i < 10; i++) {
+      rate.record(300);
+    }
+    expect(rate.getFps()).toBe(3);
+  });
+
+  test('should speed up again once there is room', () => {
+    const rate = new FrameRateController(3, 15);
+    for (let i = 0; i < 10; i++) {
+      rate.record(300);
+    }
+    for (let i = 0; i < 50; i++) {
+      rate.record(10);
+    }
+    expect(rate.getFps()).toBe(15);
+  });
+});
+
+describe('SharedInference', () => {
+  test('should run once per tick and share the result', async () => {
+    const clock = new FakeClock();
+    const pose: PoseLandmark[] = [{ x: 0.5, y: 0.5, z: 0 }];
+    const backend = createBackend({ expressions, landmarks: [{ x: 1, y: 2 }], pose });
+    const inference = new SharedInference(backend, clock, { minFps: 5, maxFps: 5 });
+
+    expect(await inference.start()).toEqual({ face: true, pose: true });
+    const received: PoseLandmark[][] = [];
+    await inference.pose.start((landmarks) => received.push(landmarks));
+
+    await clock.advanceTo(1000);
+
+    // The first tick runs during start, then one every 200ms
+    expect(backend.runs).toBe(6);
+    expect(received).toHaveLength(5);
+    expect(await inference.expressions.detect()).toEqual(expressions);
+    expect(await inference.expressions.detect()).toEqual(expressions);
+    expect(inference.expressions.getLandmarks?.()).toEqual([{ x: 1, y: 2 }]);
+    expect(backend.runs).toBe(6);
+
+    inference.stop();
+    await clock.advanceTo(2000);
+    expect(backend.runs).toBe(6);
+    expect(await inference.expressions.detect()).toBe(null);
+  });
+});
@@ -0,0 +1,399 @@
+import * as faceapi from 'face-api.js';
+import { Pose } from '@mediapipe/pose';
+import { AnalysisEventBus } from './events';
+import { createPoseModel, loadFaceModels } from './models';
+import {
+  AnalysisClock,
+  ExpressionScores,
+  ExpressionSource,
+  FacePoint,
+  PoseLandmark,
+  PoseSource,
+  systemClock } from
+'./sources';
+
+/**
+ * Shared face and pose inference.
+ *
+ * The emotion, stress and gesture analyzers all look at the same camera.
+ * Rather than each running its own face-api or MediaPipe models on the main
+ * thread, `SharedInference` grabs one frame per tick and runs face detection,
+ * expressions, landmarks and pose on it once. Where the browser supports it
+ * this happens in a Web Worker on an OffscreenCanvas. The results reach every
+ * analyzer through the `expressions` and `pose` sources, and the tick rate
+ * adapts to how long inference takes on this device.
+ */
+
+export interface InferenceResult {
+  expressions: ExpressionScores | null;
+  landmarks: FacePoint[] | null;
+  pose: PoseLandmark[] | null;
+}
+
+export interface InferenceCapabilities {
+  face: boolean;
+  pose: boolean;
+}
+
+export type InferenceBackendName = 'worker' | 'main-thread';
+
+export interface InferenceBackend {
+  readonly name: InferenceBackendName;
+  /** Load the models. Resolves to the models that loaded. */
+  load(): Promise<InferenceCapabilities>;
+  /** Grab the current frame and run each loaded model on it once. */
+  run(): Promise<InferenceResult>;
+  close(): void;
+}
+
+export type InferenceRequest =
+{type: 'load';} |
+{type: 'run';id: number;frame: ImageBitmap;};
+
+export type InferenceResponse =
+{type: 'loaded';capabilities: InferenceCapabilities;} |
+{type: 'result';id: number;result: InferenceResult;} |
+{type: 'error';id: number | null;message: string;};
+
+const EMPTY_RESULT: InferenceResult = { expressions: null, landmarks: null, pose: null };
+
+/**
+ * Picks the inference rate from how long recent ticks took. Drops the rate
+ * when inference uses most of the frame budget and raises it again slowly
+ * once there is room.
+ */
+export class FrameRateController {
+  private readonly minFps: number;
+  private readonly maxFps: number;
+  private fps: number;
+  private averageDuration: number | null = null;
+
+  constructor(minFps: number = 3, maxFps: number = 15) {
+    this.minFps = minFps;
+    this.maxFps = maxFps;
+    this.fps = maxFps;
+  }
+
+  getFps() {
+    return this.fps;
+  }
+
+  getInterval() {
+    return 1000 / this.fps;
+  }
+
+  /**
+   * Record how long one tick's inference took, in ms. Returns the new rate.
+   */
+  record(duration: number): number {
+    this.averageDuration = this.averageDuration === null ?
+    duration :
+    this.averageDuration * 0.7 + duration * 0.3;
+
+    const interval = this.getInterval();
+    if (this.averageDuration > interval * 0.8) {
+      this.fps = Math.max(this.minFps, Math.floor(this.fps * 0.75));
+    } else if (this.averageDuration < interval * 0.4) {
+      this.fps = Math.min(this.maxFps, this.fps + 1);
+    }
+    return this.fps;
+  }
+}
+
+interface SharedInferenceOptions {
+  minFps?: number;
+  maxFps?: number;
+  /** The camera being analyzed, passed on to the expression source. */
+  video?: HTMLVideoElement;
+}
+
+export class SharedInference {
+  /** Emits `inferenceRate` when the tick rate changes. */
+  readonly events = new AnalysisEventBus();
+  readonly expressions: ExpressionSource;
+  readonly pose: PoseSource;
+  private backend: InferenceBackend;
+  private clock: AnalysisClock;
+  private rate: FrameRateController;
+  private capabilities: InferenceCapabilities = { face: false, pose: false };
+  private latest: InferenceResult = EMPTY_RESULT;
+  private poseListeners = new Set<(landmarks: PoseLandmark[]) => void>();
+  private isRunning: boolean = false;
+  private timer: number | null = null;
+
+  constructor(backend: InferenceBackend, clock: AnalysisClock = systemClock, { minFps, maxFps, video }: SharedInferenceOptions = {}) {
+    this.backend = backend;
+    this.clock = clock;
+    this.rate = new FrameRateController(minFps, maxFps);
+
+    this.expressions = {
+      video,
+      detect: async () => this.latest.expressions,
+      getLandmarks: () => this.latest.landmarks
+    };
+
+    let listener: ((landmarks: PoseLandmark[]) => void) | null = null;
+    this.pose = {
+      start: async (onLandmarks) => {
+        listener = onLandmarks;
+        this.poseListeners.add(onLandmarks);
+      },
+      stop: () => {
+        if (listener) {
+          this.poseListeners.delete(listener);
+          listener = null;
+        }
+      }
+    };
+  }
+
+  getBackendName(): InferenceBackendName {
+    return this.backend.name;
+  }
+
+  getCapabilities(): InferenceCapabilities {
+    return this.capabilities;
+  }
+
+  getFps() {
+    return this.rate.getFps();
+  }
+
+  /**
+   * Load the models and run the first tick, so analyzers see a result as
+   * soon as they start. Resolves to the models that loaded.
+   */
+  async start(): Promise<InferenceCapabilities> {
+    this.capabilities = await this.backend.load();
+    if (!this.capabilities.face && !this.capabilities.pose) {
+      return this.capabilities;
+    }
+
+    this.isRunning = true;
+    await this.tick();
+    return this.capabilities;
+  }
+
+  stop() {
+    this.isRunning = false;
+    if (this.timer !== null) {
+      this.clock.clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.poseListeners.clear();
+    this.latest = EMPTY_RESULT;
+    this.backend.close();
+  }
+
+  private async tick() {
+    if (!this.isRunning) return;
+
+    const startedAt = this.clock.now();
+    try {
+      const result = await this.backend.run();
+      if (!this.isRunning) return;
+
+      this.latest = result;
+      if (result.pose) {
+        const landmarks = result.pose;
+        this.poseListeners.forEach((listener) => listener(landmarks));
+      }
+    } catch (error) {
+      console.warn('Error running shared inference:', error);
+    }
+    if (!this.isRunning) return;
+
+    const elapsed = this.clock.now() - startedAt;
+    const previousFps = this.rate.getFps();
+    const fps = this.rate.record(elapsed);
+    if (fps !== previousFps) {
+      this.events.emit({ type: 'inferenceRate', fps, backend: this.backend.name, timestamp: this.clock.now() });
+    }
+
+    this.timer = this.clock.setTimeout(() => {
+      this.timer = null;
+      this.tick();
+    }, Math.max(0, this.rate.getInterval() - elapsed));
+  }
+}
+
+/**
+ * Runs inference in `inference-worker.ts`. Frames are sent as transferred
+ * ImageBitmaps, so nothing is copied on the main thread.
+ */
+export class WorkerInferenceBackend implements InferenceBackend {
+  readonly name = 'worker';
+  private video: HTMLVideoElement;
+  private worker: Worker;
+  private nextId: number = 1;
+  private pending = new Map<number, {resolve: (result: InferenceResult) => void;reject: (error: Error) => void;}>();
+  private loading: {resolve: (capabilities: InferenceCapabilities) => void;reject: (error: Error) => void;} | null = null;
+
+  constructor(video: HTMLVideoElement) {
+    this.video = video;
+    // Classic worker, because MediaPipe loads its WASM with importScripts.
+    // Builds bundle it into a single script; the dev server can't (see
+    // supportsInferenceWorker)
+    this.worker = new Worker(new URL('./inference-worker.ts', import.meta.url), { type: 'classic' });
+    this.worker.onmessage = (event: MessageEvent<InferenceResponse>) => this.handleMessage(event.data);
+    this.worker.onerror = (event) => this.fail(new Error(event.message || 'Inference worker failed'));
+  }
+
+  load(): Promise<InferenceCapabilities> {
+    return new Promise((resolve, reject) => {
+      this.loading = { resolve, reject };
+      this.post({ type: 'load' });
+    });
+  }
+
+  async run(): Promise<InferenceResult> {
+    const frame = await createImageBitmap(this.video);
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.post({ type: 'run', id, frame }, [frame]);
+    });
+  }
+
+  close() {
+    this.worker.terminate();
+    this.fail(new Error('Inference worker closed'));
+  }
+
+  private post(request: InferenceRequest, transfer: Transferable[] = []) {
+    this.worker.postMessage(request, transfer);
+  }
+
+  private handleMessage(response: InferenceResponse) {
+    if (response.type === 'loaded') {
+      this.loading?.resolve(response.capabilities);
+      this.loading = null;
+      return;
+    }
+
+    if (response.type === 'error' && response.id === null) {
+      this.fail(new Error(response.message));
+      return;
+    }
+    if (response.id === null) return;
+
+    const request = this.pending.get(response.id);
+    if (!request) return;
+    this.pending.delete(response.id);
+
+    if (response.type === 'result') {
+      request.resolve(response.result);
+    } else {
+      request.reject(new Error(response.message));
+    }
+  }
+
+  private fail(error: Error) {
+    this.loading?.reject(error);
+    this.loading = null;
+    this.pending.forEach((request) => request.reject(error));
+    this.pending.clear();
+  }
+}
+
+/**
+ * Runs the same models on the main thread, for browsers without
+ * OffscreenCanvas or when the worker can't start.
+ */
+export class MainThreadInferenceBackend implements InferenceBackend {
+  readonly name = 'main-thread';
+  private video: HTMLVideoElement;
+  private capabilities: InferenceCapabilities = { face: false, pose: false };
+  private pose: Pose | null = null;
+  private poseLandmarks: PoseLandmark[] | null = null;
+
+  constructor(video: HTMLVideoElement) {
+    this.video = video;
+  }
+
+  async load(): Promise<InferenceCapabilities> {
+    const [face, pose] = await Promise.all([loadFaceModels(), this.loadPose()]);
+    this.capabilities = { face, pose };
+    return this.capabilities;
+  }
+
+  async run(): Promise<InferenceResult> {
+    const result: InferenceResult = { expressions: null, landmarks: null, pose: null };
+
+    if (this.capabilities.face) {
+      const detection = await faceapi.
+      detectSingleFace(this.video, new faceapi.TinyFaceDetectorOptions()).
+      withFaceLandmarks().
+      withFaceExpressions();
+      if (detection) {
+        result.expressions = detection.expressions;
+        result.landmarks = detection.landmarks.positions.map(({ x, y }) => ({ x, y }));
+      }
+    }
+
+    if (this.pose) {
+      this.poseLandmarks = null;
+      await this.pose.send({ image: this.video });
+      result.pose = this.poseLandmarks;
+    }
+
+    return result;
+  }
+
+  close() {
+    this.pose?.close();
+    this.pose = null;
+  }
+
+  private async loadPose() {
+    try {
+      this.pose = await createPoseModel();
+      this.pose.onResults((results) => {
+        this.poseLandmarks = results.poseLandmarks ?? null;
+      });
+      return true;
+    } catch (error) {
+      console.error('Error loading pose model:', error);
+      this.pose = null;
+      return false;
+    }
+  }
+}
+
+/**
+ * The worker only runs in production builds: the dev server serves it as an
+ * ES module, which a classic worker can't load, so dev uses the main thread.
+ */
+export const supportsInferenceWorker = () =>
+import.meta.env.PROD &&
+typeof Worker !== 'undefined' &&
+typeof OffscreenCanvas !== 'undefined' &&
+typeof createImageBitmap !== 'undefined';
+
+/**
+ * Start shared inference for a live camera. Uses the worker when the browser
+ * supports it and every model loads there, and the main thread otherwise.
+ */
+export const startSharedInference = async (
+video: HTMLVideoElement,
+clock: AnalysisClock = systemClock,
+options: Omit<SharedInferenceOptions, 'video'> = {})
+: Promise<SharedInference> => {
+  if (supportsInferenceWorker()) {
+    const inference = new SharedInference(new WorkerInferenceBackend(video), clock, { ...options, video });
+    try {
+      const capabilities = await inference.start();
+      if (capabilities.face && capabilities.pose) {
+        return inference;
+      }
+      console.warn('Inference worker could not load every model, using the main thread');
+    } catch (error) {
+      console.warn('Inference worker failed to start, using the main thread:', error);
+    }
+    inference.stop();
+  }
+
+  const inference = new SharedInference(new MainThreadInferenceBackend(video), clock, { ...options, video });
+  await inference.start();
+  return inference;
+};
@@ -0,0 +1,32 @@
+import { ModelIntegrityError, ModelManifest, checkIntegrity } from './models';
+
+const encode = (text: string) => new TextEncoder().encode(text).buffer as ArrayBuffer;
+
+const createManifest = async (path: string, data: ArrayBuffer): Promise<ModelManifest> => {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  const sha256 = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return { version: 'test', files: { [path]: { sha256, size: data.byteLength } } };
+};
+
+describe('checkIntegrity', () => {
+  test('should accept files matching the manifest and skip unlisted ones', async () => {
+    const manifest = await createManifest('/models/tiny_face_detector_model-shard1', encode('weights'));
+
+    await checkIntegrity(manifest, '/models/tiny_face_detector_model-shard1', encode('weights'));
+    await checkIntegrity(manifest, '/models/unlisted', encode('anything'));
+  });
+
+  test('should reject files that were changed', async () => {
+    const manifest = await createManifest('/models/tiny_face_detector_model-shard1', encode('weights'));
+
+    let error: unknown = null;
+    try {
+      await checkIntegrity(manifest, '/models/tiny_face_detector_model-shard1', encode('tampered'));
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(ModelIntegrityError);
+    expect((error as ModelIntegrityError).path).toBe('/models/tiny_face_detector_model-shard1');
+  });
+});
@@ -0,0 +1,169 @@
+import * as faceapi from 'face-api.js';
+import { Pose } from '@mediapipe/pose';
+
+/**
+ * The one place analysis models are loaded from.
+ *
+ * face-api weights and MediaPipe Pose files are both served by the app
+ * itself under `/models` (the Pose files are copied from `@mediapipe/pose` by
+ * the `modelAssets` Vite plugin), so analysis works offline and in the
+ * Android build. The build also writes `/models/manifest.json` with a
+ * version and a SHA-256 for every file. face-api weights are checked against
+ * it as they load. The service worker (`public/sw.js`) checks every model file
+ * it caches, Pose files included.
+ */
+
+export const MODELS_URL = '/models';
+export const MODEL_MANIFEST_URL = `${MODELS_URL}/manifest.json`;
+export const POSE_ASSETS_URL = `${MODELS_URL}/mediapipe/pose`;
+
+export const POSE_OPTIONS = {
+  modelComplexity: 1,
+  smoothLandmarks: true,
+  minDetectionConfidence: 0.5,
+  minTrackingConfidence: 0.5
+} as const;
+
+export interface ModelManifest {
+  /** Changes whenever any file changes. Names the service worker cache. */
+  version: string;
+  /** Keyed by path, e.g. `/models/tiny_face_detector_model-shard1`. */
+  files: Record<string, {sha256: string;size: number;precache?: boolean;}>;
+}
+
+export type FaceModel =
+'tinyFaceDetector' |
+'faceLandmark68Net' |
+'faceLandmark68TinyNet' |
+'faceExpressionNet';
+
+/** Detection, full landmarks and expressions: what shared inference runs. */
+export const DEFAULT_FACE_MODELS: FaceModel[] = ['tinyFaceDetector', 'faceLandmark68Net', 'faceExpressionNet'];
+
+export class ModelIntegrityError extends Error {
+  path: string;
+
+  constructor(path: string, expected: string, actual: string) {
+    super(`Model file ${path} failed its integrity check (expected ${expected}, got ${actual})`);
+    this.name = 'ModelIntegrityError';
+    this.path = path;
+  }
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Throws `ModelIntegrityError` if `data` doesn't match the manifest entry for
+ * `path`. Files the manifest doesn't list are not checked.
+ */
+export const checkIntegrity = async (manifest: ModelManifest, path: string, data: ArrayBuffer) => {
+  const entry = manifest.files[path];
+  if (!entry) return;
+
+  const actual = toHex(await crypto.subtle.digest('SHA-256', data));
+  if (actual !== entry.sha256) {
+    throw new ModelIntegrityError(path, entry.sha256, actual);
+  }
+};
+
+let manifestRequest: Promise<ModelManifest | null> | null = null;
+
+/**
+ * The model manifest, fetched once. Null if it can't be loaded, in which
+ * case files load unchecked.
+ */
+export const loadModelManifest = (): Promise<ModelManifest | null> => {
+  if (!manifestRequest) {
+    manifestRequest = fetch(MODEL_MANIFEST_URL).
+    then((response) => {
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      return response.json() as Promise<ModelManifest>;
+    }).
+    catch((error) => {
+      console.warn('Model manifest unavailable, loading models without integrity checks:', error);
+      manifestRequest = null;
+      return null;
+    });
+  }
+  return manifestRequest;
+};
+
+/**
+ * `fetch` that checks model files against the manifest before returning them.
+ */
+export const verifiedFetch = async (url: string, init?: RequestInit): Promise<Response> => {
+  const response = await fetch(url, init);
+  const manifest = await loadModelManifest();
+  if (!response.ok || !manifest) return response;
+
+  const path = new URL(url, globalThis.location.href).pathname;
+  if (!manifest.files[path]) return response;
+
+  const data = await response.arrayBuffer();
+  await checkIntegrity(manifest, path, data);
+  return new Response(data, { status: response.status, statusText: response.statusText, headers: response.headers });
+};
+
+const faceModelLoads = new Map<FaceModel, Promise<void>>();
+let faceApiFetchPatched = false;
+
+/**
+ * Load face-api models once per page (or worker). Concurrent callers share
+ * the same download. Resolves to false if any model failed to load; the
+ * next call retries it.
+ */
+export const loadFaceModels = async (models: FaceModel[] = DEFAULT_FACE_MODELS): Promise<boolean> => {
+  try {
+    await Promise.all(models.map((model) => {
+      const net = faceapi.nets[model];
+      if (net.isLoaded) return Promise.resolve();
+
+      if (!faceApiFetchPatched) {
+        faceapi.env.monkeyPatch({ fetch: verifiedFetch });
+        faceApiFetchPatched = true;
+      }
+
+      let load = faceModelLoads.get(model);
+      if (!load) {
+        load = net.loadFromUri(MODELS_URL).catch((error) => {
+          faceModelLoads.delete(model);
+          throw error;
+        });
+        faceModelLoads.set(model, load);
+      }
+      return load;
+    }));
+    return true;
+  } catch (error) {
+    console.error('Error loading face-api models:', error);
+    return false;
+  }
+};
+
+/**
+ * A MediaPipe Pose instance using the self-hosted files, initialized so
+ * loading errors surface here rather than on the first frame.
+ */
+export const createPoseModel = async (): Promise<Pose> => {
+  const pose = new Pose({ locateFile: (file) => `${POSE_ASSETS_URL}/${file}` });
+  pose.setOptions(POSE_OPTIONS);
+  await pose.initialize();
+  return pose;
+};
+
+/**
+ * Cache model files for offline use. Production builds only, so the dev
+ * server's files are never served stale.
+ */
+export const registerModelCache = async () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  try {
+    await navigator.serviceWorker.register('/sw.js');
+  } catch (error) {
+    console.warn('Model cache service worker could not be registered:', error);
+  }
+};
@@ -0,0 +1,67 @@
+import {
+  buildPitchTimeline,
+  estimatePitch,
+  getRMS,
+  normalizePitch,
+  summarizePitch } from
+'./pitch';
+
+const SAMPLE_RATE = 44100;
+
+const sine = (frequency: number, length = 2048) =>
+Float32Array.from({ length }, (_, i) => 0.5 * Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE));
+
+describe('estimatePitch', () => {
+  test.each([90, 140, 220, 400])('should detect a %d Hz tone', (frequency) => {
+    const pitch = estimatePitch(sine(frequency), SAMPLE_RATE);
+    expect(pitch).not.toBeNull();
+    expect(Math.abs(pitch! - frequency)).toBeLessThan(frequency * 0.01);
+  });
+
+  test('should return null for silence', () => {
+    expect(estimatePitch(new Float32Array(2048), SAMPLE_RATE)).toBeNull();
+    expect(getRMS(new Float32Array(2048))).toBe(0);
+  });
+});
+
+describe('summarizePitch', () => {
+  test('should report no variation for a constant pitch', () => {
+    const summary = summarizePitch([120, 120, 120]);
+    expect(summary!.medianHz).toBe(120);
+    expect(summary!.variabilitySemitones).toBeCloseTo(0);
+  });
+
+  test('should measure variation in semitones', () => {
+    // One octave apart: +/- 6 semitones around the geometric middle
+    const summary = summarizePitch([100, 200]);
+    expect(summary!.variabilitySemitones).toBeCloseTo(6);
+  });
+
+  test('should return null without samples', () => {
+    expect(summarizePitch([])).toBeNull();
+  });
+});
+
+describe('normalizePitch', () => {
+  test('should clamp to the speaking range', () => {
+    expect(normalizePitch(50)).toBe(0);
+    expect(normalizePitch(150)).toBe(50);
+    expect(normalizePitch(500)).toBe(100);
+  });
+});
+
+describe('buildPitchTimeline', () => {
+  test('should bucket samples per second and leave gaps as null', () => {
+    const timeline = buildPitchTimeline([
+    { timestamp: 1000, pitchHz: 110 },
+    { timestamp: 1500, pitchHz: 130 },
+    { timestamp: 3200, pitchHz: 200 }],
+    1000);
+
+    expect(timeline).toEqual([
+    { timestamp: 1000, pitchHz: 120 },
+    { timestamp: 2000, pitchHz: null },
+    { timestamp: 3000, pitchHz: 200 }]
+    );
+  });
+});
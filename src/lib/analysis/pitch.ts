@@ -0,0 +1,178 @@
+/**
+ * Fundamental frequency (F0) estimation for the ToneAnalyzer.
+ *
+ * Uses the YIN algorithm (de Cheveigné & Kawahara, 2002) on time-domain
+ * samples: a cumulative mean normalized difference function is searched for
+ * the first dip below a threshold, then refined with parabolic interpolation.
+ */
+
+export interface PitchEstimatorOptions {
+  minFrequency?: number;
+  maxFrequency?: number;
+  threshold?: number;
+}
+
+export interface PitchSample {
+  timestamp: number;
+  pitchHz: number;
+}
+
+export interface PitchSummary {
+  meanHz: number;
+  medianHz: number;
+  minHz: number;
+  maxHz: number;
+  /** Standard deviation of pitch in semitones around the median. */
+  variabilitySemitones: number;
+}
+
+// Typical adult speaking range, used to normalise pitch to 0-100
+export const SPEECH_MIN_HZ = 75;
+export const SPEECH_MAX_HZ = 300;
+
+// Speech with less than ~2 semitones of variation is perceived as flat
+export const MONOTONE_THRESHOLD_SEMITONES = 2;
+
+/**
+ * Estimate the F0 of a buffer in Hz, or null if it is unvoiced / aperiodic.
+ */
+export const estimatePitch = (
+buffer: Float32Array,
+sampleRate: number,
+{ minFrequency = 60, maxFrequency = 500, threshold = 0.15 }: PitchEstimatorOptions = {})
+: number | null => {
+  const maxLag = Math.min(Math.floor(sampleRate / minFrequency), Math.floor(buffer.length / 2));
+  const minLag = Math.max(2, Math.floor(sampleRate / maxFrequency));
+  const windowSize = buffer.length - maxLag;
+
+  if (windowSize <= 0 || maxLag <= minLag) {
+    return null;
+  }
+
+  // Difference function
+  const difference = new Float32Array(maxLag + 1);
+  for (let lag = 1; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let i = 0; i < windowSize; i++) {
+      const delta = buffer[i] - buffer[i + lag];
+      sum += delta * delta;
+    }
+    difference[lag] = sum;
+  }
+
+  // Cumulative mean normalized difference
+  const normalized = new Float32Array(maxLag + 1);
+  normalized[0] = 1;
+  let runningSum = 0;
+  for (let lag = 1; lag <= maxLag; lag++) {
+    runningSum += difference[lag];
+    normalized[lag] = runningSum > 0 ? difference[lag] * lag / runningSum : 1;
+  }
+
+  // First dip below the threshold, followed down to its local minimum
+  let tau = -1;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    if (normalized[lag] < threshold) {
+      while (lag + 1 <= maxLag && normalized[lag + 1] < normalized[lag]) {
+        lag++;
+      }
+      tau = lag;
+      break;
+    }
+  }
+
+  if (tau === -1) {
+    return null;
+  }
+
+  // Parabolic interpolation for sub-sample accuracy
+  let refinedTau = tau;
+  if (tau > 1 && tau < maxLag) {
+    const previous = normalized[tau - 1];
+    const current = normalized[tau];
+    const next = normalized[tau + 1];
+    const denominator = 2 * (previous - 2 * current + next);
+    if (denominator !== 0) {
+      refinedTau = tau + (previous - next) / denominator;
+    }
+  }
+
+  const frequency = sampleRate / refinedTau;
+  return frequency >= minFrequency && frequency <= maxFrequency ? frequency : null;
+};
+
+/**
+ * Root mean square amplitude, used to skip silent frames.
+ */
+export const getRMS = (buffer: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < buffer.length; i++) {
+    sum += buffer[i] * buffer[i];
+  }
+  return Math.sqrt(sum / buffer.length);
+};
+
+export const hzToSemitones = (frequency: number, reference: number): number =>
+12 * Math.log2(frequency / reference);
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+export const summarizePitch = (values: number[]): PitchSummary | null => {
+  if (values.length === 0) {
+    return null;
+  }
+
+  const medianHz = median(values);
+  const meanHz = values.reduce((a, b) => a + b, 0) / values.length;
+  const semitones = values.map((value) => hzToSemitones(value, medianHz));
+  const meanSemitone = semitones.reduce((a, b) => a + b, 0) / semitones.length;
+  const variance = semitones.reduce((sum, value) => sum + Math.pow(value - meanSemitone, 2), 0) / semitones.length;
+
+  return {
+    meanHz,
+    medianHz,
+    minHz: Math.min(...values),
+    maxHz: Math.max(...values),
+    variabilitySemitones: Math.sqrt(variance)
+  };
+};
+
+/**
+ * Map a frequency onto 0-100 within the typical speaking range (log scale).
+ */
+export const normalizePitch = (frequency: number): number => {
+  const position = Math.log(frequency / SPEECH_MIN_HZ) / Math.log(SPEECH_MAX_HZ / SPEECH_MIN_HZ);
+  return Math.round(Math.max(0, Math.min(1, position)) * 100);
+};
+
+/**
+ * Median pitch for every second from `startTime` to the last sample. Seconds
+ * without voiced speech are reported as null.
+ */
+export const buildPitchTimeline = (
+samples: PitchSample[],
+startTime: number)
+: Array<{timestamp: number;pitchHz: number | null;}> => {
+  if (samples.length === 0) {
+    return [];
+  }
+
+  const lastSecond = Math.floor((samples[samples.length - 1].timestamp - startTime) / 1000);
+  const buckets: number[][] = Array.from({ length: lastSecond + 1 }, () => []);
+
+  samples.forEach((sample) => {
+    const second = Math.floor((sample.timestamp - startTime) / 1000);
+    if (second >= 0 && second <= lastSecond) {
+      buckets[second].push(sample.pitchHz);
+    }
+  });
+
+  return buckets.map((bucket, second) => ({
+    timestamp: startTime + second * 1000,
+    pitchHz: bucket.length > 0 ? Math.round(median(bucket)) : null
+  }));
+};
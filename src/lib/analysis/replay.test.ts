@@ -0,0 +1,195 @@
+import { AnalysisRecording, FakeClock, RECORDING_VERSION, replayRecording } from './replay';
+import { AnalysisEvent } from './events';
+
+// Replays never touch the real models or camera
+jest.mock('face-api.js', () => ({
+  nets: {},
+  detectSingleFace: jest.fn(),
+  TinyFaceDetectorOptions: jest.fn()
+}));
+jest.mock('@mediapipe/pose', () => ({ Pose: jest.fn() }));
+jest.mock('@mediapipe/camera_utils', () => ({ Camera: jest.fn() }));
+
+const SAMPLE_RATE = 16000;
+const FRAME_SIZE = 1024;
+
+const expressions = (overrides: Partial<Record<string, number>> = {}) => ({
+  neutral: 0.9,
+  happy: 0.05,
+  sad: 0.01,
+  angry: 0.01,
+  fearful: 0.01,
+  disgusted: 0.01,
+  surprised: 0.01,
+  ...overrides
+});
+
+const landmarks = (shoulderTilt: number) =>
+Array.from({ length: 33 }, (_, i) => {
+  const points: Record<number, {x: number;y: number;}> = {
+    11: { x: 0.35, y: 0.5 },
+    12: { x: 0.65, y: 0.5 + shoulderTilt },
+    13: { x: 0.3, y: 0.65 },
+    14: { x: 0.7, y: 0.65 },
+    15: { x: 0.32, y: 0.75 },
+    16: { x: 0.68, y: 0.75 }
+  };
+  return { ...(points[i] || { x: 0.5, y: 0.3 }), z: 0, visibility: 0.95 };
+});
+
+const tone = (frequency: number) =>
+Array.from({ length: FRAME_SIZE }, (_, i) => 0.3 * Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE));
+
+/**
+ * 20 seconds: calm for the first 10 (including calibration), then fearful,
+ * with level shoulders and a steady 140Hz voice throughout.
+ */
+const createRecording = (): AnalysisRecording => {
+  const duration = 20000;
+  const times = (step: number) => Array.from({ length: Math.floor(duration / step) }, (_, i) => i * step);
+
+  return {
+    version: RECORDING_VERSION,
+    startTime: 1700000000000,
+    duration,
+    expressions: times(250).map((timestamp) => ({
+      timestamp,
+      expressions: timestamp < 10000 ? expressions() : expressions({ neutral: 0.1, fearful: 0.85 })
+    })),
+    pose: times(100).map((timestamp) => ({ timestamp, landmarks: landmarks(0.01) })),
+    audio: {
+      sampleRate: SAMPLE_RATE,
+      frameSize: FRAME_SIZE,
+      frames: times(100).map((timestamp) => ({ timestamp, samples: tone(140) }))
+    },
+    transcript: [
+    { timestamp: 5000, text: 'I would start by' },
+    { timestamp: 15000, text: 'I would start by measuring where the time goes' }]
+
+  };
+};
+
+describe('FakeClock', () => {
+  test('should fire timers in order of due time', async () => {
+    const clock = new FakeClock(0);
+    const fired: string[] = [];
+
+    clock.setTimeout(() => fired.push('timeout'), 150);
+    const interval = clock.setInterval(() => fired.push(`interval@${clock.now()}`), 100);
+
+    await clock.advanceTo(250);
+    clock.clearInterval(interval);
+    await clock.advanceTo(1000);
+
+    expect(fired).toEqual(['interval@100', 'timeout', 'interval@200']);
+    expect(clock.now()).toBe(1000);
+  });
+});
+
+describe('replayRecording', () => {
+  test('should produce identical results on every run', async () => {
+    const first = await replayRecording(createRecording());
+    const second = await replayRecording(createRecording());
+
+    expect(second).toEqual(first);
+  });
+
+  test('should run every analyzer from the recorded frames', async () => {
+    const recording = createRecording();
+    const results = await replayRecording(recording);
+
+    expect(results.toneAnalysis.pitchHz).toBeGreaterThanOrEqual(138);
+    expect(results.toneAnalysis.pitchHz).toBeLessThanOrEqual(142);
+    expect(results.toneAnalysis.monotone).toBe(true);
+    expect(results.toneAnalysis.speed).toBe(27);
+
+    expect(results.emotionAnalysis.timeline).toHaveLength(20);
+    expect(results.emotionAnalysis.timeline[0]).toEqual({
+      emotion: 'neutral',
+      timestamp: recording.startTime + 1000
+    });
+    expect(results.emotionAnalysis.timeline[19].emotion).toBe('frustration');
+
+    expect(results.gestureAnalysis.posture).toBe('good');
+    expect(results.gestureAnalysis.facialEngagement).toBe('high');
+  });
+
+  test('should flag stress only after the expression change', async () => {
+    const recording = createRecording();
+    const { stressAnalysis } = await replayRecording(recording);
+    const stressedAt = stressAnalysis.timeline.
+    filter((entry) => entry.stress).
+    map((entry) => entry.timestamp - recording.startTime);
+
+    expect(stressAnalysis.stress).toBe(true);
+    expect(stressedAt.length).toBeGreaterThan(0);
+    expect(Math.min(...stressedAt)).toBeGreaterThanOrEqual(10000);
+  });
+
+  test('should emit status changes and typed events', async () => {
+    const recording = createRecording();
+    const events: AnalysisEvent[] = [];
+    await replayRecording(recording, { onEvent: (event) => events.push(event) });
+
+    const stressStatuses = events.
+    filter((event) => event.type === 'statusChange' && event.analyzer === 'stress').
+    map((event) => event.type === 'statusChange' && event.state.status);
+    expect(stressStatuses).toEqual(['loading', 'calibrating', 'running', 'idle']);
+
+    const spikes = events.filter((event) => event.type === 'stressSpike');
+    expect(spikes).toHaveLength(1);
+    expect(spikes[0].timestamp - recording.startTime).toBeGreaterThanOrEqual(10000);
+
+    expect(events.filter((event) => event.type === 'emotionChange')).toEqual([
+    { type: 'emotionChange', from: 'neutral', to: 'frustration', timestamp: recording.startTime + 10000 }]
+    );
+  });
+
+  test('should degrade face analyzers while the face is lost', async () => {
+    const recording = createRecording();
+    recording.expressions = recording.expressions.map((frame) =>
+    frame.timestamp >= 12000 && frame.timestamp < 15000 ? { ...frame, expressions: null } : frame
+    );
+    const events: AnalysisEvent[] = [];
+    await replayRecording(recording, { onEvent: (event) => events.push(event) });
+
+    const types = events.map((event) => event.type);
+    expect(types).toContain('faceLost');
+    expect(types.indexOf('faceFound')).toBeGreaterThan(types.indexOf('faceLost'));
+    expect(events).toContainEqual(expect.objectContaining({
+      type: 'statusChange',
+      analyzer: 'emotion',
+      state: { status: 'degraded', message: 'Face not detected' }
+    }));
+  });
+
+  test('should fuse voice and posture when the face stays calm', async () => {
+    const recording = createRecording();
+    recording.expressions = recording.expressions.map((frame) => ({ ...frame, expressions: expressions() }));
+    recording.audio.frames = recording.audio.frames.map((frame, i) =>
+    frame.timestamp < 10000 ? frame : { ...frame, samples: tone(i % 2 === 0 ? 140 : 180) }
+    );
+    recording.pose = recording.pose.map((frame, i) => {
+      if (frame.timestamp < 10000) return frame;
+      const offset = i % 2 === 0 ? 0.03 : -0.03;
+      const points = landmarks(0.01);
+      points[15] = { ...points[15], x: points[15].x + offset };
+      points[16] = { ...points[16], x: points[16].x - offset };
+      return { ...frame, landmarks: points };
+    });
+
+    const { stressAnalysis } = await replayRecording(recording);
+
+    expect(stressAnalysis.timeline.some((entry) => entry.stress)).toBe(true);
+    expect(stressAnalysis.contributions?.face).toBe(0);
+    expect(stressAnalysis.contributions?.voice).toBeGreaterThan(0);
+    expect(stressAnalysis.contributions?.posture).toBeGreaterThan(0);
+    expect(stressAnalysis.features).toContain('voice: pitch jitter');
+    expect(stressAnalysis.features).toContain('posture: fidgeting');
+  });
+
+  test('should reject recordings too short to calibrate', async () => {
+    const recording = { ...createRecording(), duration: 3000 };
+    await expect(replayRecording(recording)).rejects.toThrow('calibration');
+  });
+});
@@ -0,0 +1,265 @@
+import { AnalysisManager } from './index';
+import { AnalysisEvent } from './events';
+import {
+  AnalysisClock,
+  AudioSource,
+  ExpressionScores,
+  ExpressionSource,
+  FacePoint,
+  PoseLandmark,
+  PoseSource } from
+'./sources';
+
+/**
+ * Offline replay of recorded analysis inputs.
+ *
+ * A recording holds what the live detectors produced during a session:
+ * face-api expression scores, MediaPipe pose landmarks and raw audio frames.
+ * Replaying it drives a real `AnalysisManager` on a fake clock, so the
+ * analyzers (timers, calibration, smoothing) behave exactly as they would
+ * live and `getAnalysisResults()` is identical on every run.
+ */
+
+export const RECORDING_VERSION = 1;
+
+export interface AnalysisRecording {
+  version: typeof RECORDING_VERSION;
+  /** Epoch ms of the start of the session; frame timestamps are offsets from it. */
+  startTime: number;
+  /** Session length in ms. */
+  duration: number;
+  /** Expression scores, or null when no face was detected, with optional 68-point face landmarks. */
+  expressions: Array<{timestamp: number;expressions: ExpressionScores | null;landmarks?: FacePoint[] | null;}>;
+  pose: Array<{timestamp: number;landmarks: PoseLandmark[];}>;
+  audio: {
+    sampleRate: number;
+    frameSize: number;
+    frames: Array<{timestamp: number;samples: number[];}>;
+  };
+  /** Cumulative transcript as reported by speech-to-text. */
+  transcript?: Array<{timestamp: number;text: string;}>;
+}
+
+export type AnalysisResults = ReturnType<AnalysisManager['getAnalysisResults']>;
+
+// Approximate display refresh used for requestFrame
+const FRAME_INTERVAL = 1000 / 60;
+
+const flushMicrotasks = async () => {
+  for (let i = 0; i < 20; i++) {
+    await Promise.resolve();
+  }
+};
+
+interface Timer {
+  id: number;
+  due: number;
+  interval: number | null;
+  callback: () => void;
+}
+
+/**
+ * Clock whose time only moves when `advanceTo` is called. Timers fire in
+ * order of due time (then creation order), and pending promise callbacks are
+ * flushed after each one so async detection steps complete before the next
+ * timer runs.
+ */
+export class FakeClock implements AnalysisClock {
+  private time: number;
+  private timers: Timer[] = [];
+  private nextId: number = 1;
+
+  constructor(startTime: number = 0) {
+    this.time = startTime;
+  }
+
+  now() {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, ms: number) {
+    return this.schedule(callback, ms, null);
+  }
+
+  setInterval(callback: () => void, ms: number) {
+    return this.schedule(callback, ms, Math.max(1, ms));
+  }
+
+  clearInterval(id: number) {
+    this.timers = this.timers.filter((timer) => timer.id !== id);
+  }
+
+  requestFrame(callback: () => void) {
+    return this.setTimeout(callback, FRAME_INTERVAL);
+  }
+
+  async advanceTo(time: number) {
+    for (;;) {
+      const next = this.timers.
+      filter((timer) => timer.due <= time).
+      sort((a, b) => a.due - b.due || a.id - b.id)[0];
+      if (!next) break;
+
+      this.time = next.due;
+      if (next.interval === null) {
+        this.clearInterval(next.id);
+      } else {
+        next.due += next.interval;
+      }
+
+      next.callback();
+      await flushMicrotasks();
+    }
+
+    this.time = time;
+  }
+
+  private schedule(callback: () => void, ms: number, interval: number | null) {
+    const id = this.nextId++;
+    this.timers.push({ id, due: this.time + Math.max(0, ms), interval, callback });
+    return id;
+  }
+}
+
+/**
+ * Latest entry at or before `offset`, assuming entries are sorted by timestamp.
+ */
+const latestAt = <T extends {timestamp: number;},>(entries: T[], offset: number): T | null => {
+  let latest: T | null = null;
+  for (const entry of entries) {
+    if (entry.timestamp > offset) break;
+    latest = entry;
+  }
+  return latest;
+};
+
+export class RecordedExpressionSource implements ExpressionSource {
+  private recording: AnalysisRecording;
+  private clock: AnalysisClock;
+
+  constructor(recording: AnalysisRecording, clock: AnalysisClock) {
+    this.recording = recording;
+    this.clock = clock;
+  }
+
+  async detect() {
+    return this.currentFrame()?.expressions ?? null;
+  }
+
+  getLandmarks() {
+    return this.currentFrame()?.landmarks ?? null;
+  }
+
+  private currentFrame() {
+    const offset = this.clock.now() - this.recording.startTime;
+    return latestAt(this.recording.expressions, offset);
+  }
+}
+
+export class RecordedPoseSource implements PoseSource {
+  private recording: AnalysisRecording;
+  private clock: AnalysisClock;
+  private timers: number[] = [];
+
+  constructor(recording: AnalysisRecording, clock: AnalysisClock) {
+    this.recording = recording;
+    this.clock = clock;
+  }
+
+  async start(onLandmarks: (landmarks: PoseLandmark[]) => void) {
+    const elapsed = this.clock.now() - this.recording.startTime;
+    this.timers = this.recording.pose.
+    filter((frame) => frame.timestamp >= elapsed).
+    map((frame) =>
+    this.clock.setTimeout(() => onLandmarks(frame.landmarks), frame.timestamp - elapsed)
+    );
+  }
+
+  stop() {
+    this.timers.forEach((id) => this.clock.clearInterval(id));
+    this.timers = [];
+  }
+}
+
+export class RecordedAudioSource implements AudioSource {
+  private recording: AnalysisRecording;
+  private clock: AnalysisClock;
+
+  constructor(recording: AnalysisRecording, clock: AnalysisClock) {
+    this.recording = recording;
+    this.clock = clock;
+  }
+
+  get sampleRate() {
+    return this.recording.audio.sampleRate;
+  }
+
+  get frameSize() {
+    return this.recording.audio.frameSize;
+  }
+
+  read(buffer: Float32Array) {
+    const offset = this.clock.now() - this.recording.startTime;
+    const frame = latestAt(this.recording.audio.frames, offset);
+
+    buffer.fill(0);
+    if (frame) {
+      buffer.set(frame.samples.slice(0, buffer.length));
+    }
+  }
+
+  close() {}
+}
+
+interface ReplayOptions {
+  /** Receives every event the manager emits during the replay. */
+  onEvent?: (event: AnalysisEvent) => void;
+}
+
+/**
+ * Replay a recording through a fresh `AnalysisManager` and return its results
+ * at the end of the session.
+ */
+export const replayRecording = async (
+recording: AnalysisRecording,
+{ onEvent }: ReplayOptions = {})
+: Promise<AnalysisResults> => {
+  if (recording.version !== RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version: ${recording.version}`);
+  }
+
+  const clock = new FakeClock(recording.startTime);
+  const manager = new AnalysisManager(clock);
+  if (onEvent) {
+    manager.events.onAny(onEvent);
+  }
+
+  // Stress calibration only resolves once the clock has moved, so the start
+  // promise is checked after the session has been played.
+  let success: boolean | null = null;
+  manager.startFromSources({
+    expressions: new RecordedExpressionSource(recording, clock),
+    pose: new RecordedPoseSource(recording, clock),
+    audio: new RecordedAudioSource(recording, clock)
+  }).then((result) => {
+    success = result;
+  });
+  await flushMicrotasks();
+
+  recording.transcript?.forEach((entry) => {
+    clock.setTimeout(() => manager.updateSpeechText(entry.text), entry.timestamp);
+  });
+
+  await clock.advanceTo(recording.startTime + recording.duration);
+  if (success === null) {
+    manager.stop();
+    throw new Error('Recording ended before analysis finished starting (stress calibration needs 5 seconds)');
+  }
+  if (!success) {
+    throw new Error('Analysis failed to start from the recording');
+  }
+
+  const results = manager.getAnalysisResults();
+  manager.stop();
+  return results;
+};
@@ -0,0 +1,197 @@
+import * as faceapi from 'face-api.js';
+import { Camera } from '@mediapipe/camera_utils';
+import { Pose } from '@mediapipe/pose';
+import { createPoseModel } from './models';
+
+/**
+ * Inputs and timing for the analyzers.
+ *
+ * Live sessions read from the webcam and microphone on the system clock. The
+ * replay harness (`replay.ts`) swaps in recorded frames and a fake clock so
+ * the same analyzer code runs deterministically in tests.
+ */
+
+export interface AnalysisClock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): number;
+  setInterval(callback: () => void, ms: number): number;
+  clearInterval(id: number): void;
+  requestFrame(callback: () => void): number;
+}
+
+export const systemClock: AnalysisClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => window.setTimeout(callback, ms),
+  setInterval: (callback, ms) => window.setInterval(callback, ms),
+  clearInterval: (id) => window.clearInterval(id),
+  requestFrame: (callback) => window.requestAnimationFrame(callback)
+};
+
+/**
+ * face-api expression probabilities as plain data. `faceapi.FaceExpressions`
+ * is assignable to this, and it can be serialized into a recording.
+ */
+export interface ExpressionScores {
+  neutral: number;
+  happy: number;
+  sad: number;
+  angry: number;
+  fearful: number;
+  disgusted: number;
+  surprised: number;
+}
+
+export interface PoseLandmark {
+  x: number;
+  y: number;
+  z: number;
+  visibility?: number;
+}
+
+/** A face-api 68-point landmark in video pixels. */
+export interface FacePoint {
+  x: number;
+  y: number;
+}
+
+export interface ExpressionSource {
+  /** Expressions for the current frame, or null when no face is found. */
+  detect(): Promise<ExpressionScores | null>;
+  /** 68 face landmarks from the last `detect()`, if the source tracks them. */
+  getLandmarks?(): FacePoint[] | null;
+  /** The live camera the frames come from, for measuring lighting. */
+  readonly video?: HTMLVideoElement;
+}
+
+export interface PoseSource {
+  start(onLandmarks: (landmarks: PoseLandmark[]) => void): Promise<void>;
+  stop(): void;
+}
+
+export interface AudioSource {
+  readonly sampleRate: number;
+  readonly frameSize: number;
+  /** Copy the most recent time-domain samples into `buffer`. */
+  read(buffer: Float32Array): void;
+  close(): void;
+}
+
+export const isVideoElement = (input: unknown): input is HTMLVideoElement =>
+typeof HTMLVideoElement !== 'undefined' && input instanceof HTMLVideoElement;
+
+export const isMediaStream = (input: unknown): input is MediaStream =>
+typeof input === 'object' && input !== null && 'getAudioTracks' in input;
+
+interface VideoExpressionOptions {
+  withLandmarks?: boolean;
+  /** Use the tiny landmark model instead of the full one. */
+  tinyLandmarks?: boolean;
+}
+
+export class VideoExpressionSource implements ExpressionSource {
+  readonly video: HTMLVideoElement;
+  private withLandmarks: boolean;
+  private tinyLandmarks: boolean;
+  private landmarks: FacePoint[] | null = null;
+
+  constructor(video: HTMLVideoElement, { withLandmarks = false, tinyLandmarks = false }: VideoExpressionOptions = {}) {
+    this.video = video;
+    this.withLandmarks = withLandmarks;
+    this.tinyLandmarks = tinyLandmarks;
+  }
+
+  async detect(): Promise<ExpressionScores | null> {
+    const options = new faceapi.TinyFaceDetectorOptions();
+    if (!this.withLandmarks) {
+      const detection = await faceapi.detectSingleFace(this.video, options).withFaceExpressions();
+      return detection?.expressions ?? null;
+    }
+
+    const detection = await faceapi.
+    detectSingleFace(this.video, options).
+    withFaceLandmarks(this.tinyLandmarks).
+    withFaceExpressions();
+    this.landmarks = detection ? detection.landmarks.positions.map(({ x, y }) => ({ x, y })) : null;
+
+    return detection?.expressions ?? null;
+  }
+
+  getLandmarks() {
+    return this.landmarks;
+  }
+}
+
+export class MediaPipePoseSource implements PoseSource {
+  private video: HTMLVideoElement;
+  private pose: Pose | null = null;
+  private camera: Camera | null = null;
+  private isRunning: boolean = false;
+
+  constructor(video: HTMLVideoElement) {
+    this.video = video;
+  }
+
+  async start(onLandmarks: (landmarks: PoseLandmark[]) => void) {
+    this.pose = await createPoseModel();
+
+    this.pose.onResults((results) => {
+      if (results.poseLandmarks) {
+        onLandmarks(results.poseLandmarks);
+      }
+    });
+
+    this.camera = new Camera(this.video, {
+      onFrame: async () => {
+        if (this.pose && this.isRunning) {
+          await this.pose.send({ image: this.video });
+        }
+      },
+      width: 640,
+      height: 480
+    });
+
+    this.isRunning = true;
+    await this.camera.start();
+  }
+
+  stop() {
+    this.isRunning = false;
+    if (this.camera) {
+      this.camera.stop();
+      this.camera = null;
+    }
+    this.pose = null;
+  }
+}
+
+export class MicrophoneAudioSource implements AudioSource {
+  private audioContext: AudioContext;
+  private analyzer: AnalyserNode;
+  private microphone: MediaStreamAudioSourceNode;
+
+  constructor(stream: MediaStream) {
+    this.audioContext = new AudioContext();
+    this.analyzer = this.audioContext.createAnalyser();
+    this.analyzer.fftSize = 2048;
+
+    this.microphone = this.audioContext.createMediaStreamSource(stream);
+    this.microphone.connect(this.analyzer);
+  }
+
+  get sampleRate() {
+    return this.audioContext.sampleRate;
+  }
+
+  get frameSize() {
+    return this.analyzer.fftSize;
+  }
+
+  read(buffer: Float32Array) {
+    this.analyzer.getFloatTimeDomainData(buffer);
+  }
+
+  close() {
+    this.microphone.disconnect();
+    this.audioContext.close();
+  }
+}
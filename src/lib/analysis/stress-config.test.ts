@@ -0,0 +1,49 @@
+import {
+  STRESS_PRESETS,
+  StressConfigError,
+  resolveStressConfig } from
+'./stress-config';
+import { StressDetector } from './stress-detector';
+
+describe('resolveStressConfig', () => {
+  test('should default to the balanced preset', () => {
+    expect(resolveStressConfig()).toEqual(STRESS_PRESETS.balanced);
+    expect(resolveStressConfig('sensitive')).toEqual(STRESS_PRESETS.sensitive);
+  });
+
+  test('should fill in missing values, including nested weights', () => {
+    const config = resolveStressConfig({ stressThreshold: 0.3, modalityWeights: { voice: 0.2 } });
+
+    expect(config.stressThreshold).toBe(0.3);
+    expect(config.smoothingWindow).toBe(STRESS_PRESETS.balanced.smoothingWindow);
+    expect(config.modalityWeights).toEqual({ ...STRESS_PRESETS.balanced.modalityWeights, voice: 0.2 });
+  });
+
+  test('should list every out-of-range value', () => {
+    let error: unknown = null;
+    try {
+      resolveStressConfig({ smoothingWindow: 0, detectionInterval: 50, expressionWeights: { angry: 3 } });
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(StressConfigError);
+    const issues = (error as StressConfigError).issues;
+    expect(issues.length).toBe(3);
+    expect(issues.some((issue) => issue.startsWith('expressionWeights.angry'))).toBe(true);
+  });
+});
+
+describe('StressDetector config', () => {
+  test('should reject an invalid config', () => {
+    expect(() => new StressDetector(undefined, { confidenceThreshold: 0 })).toThrow();
+  });
+
+  test('should apply a new config', () => {
+    const detector = new StressDetector(undefined, 'conservative');
+    expect(detector.getConfig().smoothingWindow).toBe(9);
+
+    detector.setConfig({ smoothingWindow: 2 });
+    expect(detector.getConfig().smoothingWindow).toBe(2);
+  });
+});
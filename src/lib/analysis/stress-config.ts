@@ -0,0 +1,128 @@
+import { z } from 'zod';
+import { MODALITY_WEIGHTS } from './fusion';
+
+/**
+ * Tunable settings for `StressDetector`. Pass a partial config (or a preset
+ * name) to the detector, `StressAnalyzer`, `AnalysisManager` or
+ * `useStressDetection`; missing values come from the balanced preset and
+ * every value is range-checked.
+ */
+
+const weight = (max: number) => z.number().min(0).max(max);
+
+export const stressConfigSchema = z.object({
+  /** How long calibration collects the baseline, in ms. */
+  calibrationDuration: z.number().int().min(1000).max(30000),
+  /** Baseline samples to collect during calibration. */
+  calibrationSamplesTarget: z.number().int().min(1).max(100),
+  /** Minimum rise of an expression above baseline to count as a stress cue. */
+  stressThreshold: z.number().min(0).max(1),
+  /** Minimum fused score for a frame to count as stressed. */
+  confidenceThreshold: z.number().gt(0).max(1),
+  /** Frames used for temporal smoothing. */
+  smoothingWindow: z.number().int().min(1).max(30),
+  /** Time between detections, in ms. */
+  detectionInterval: z.number().int().min(100).max(2000),
+  /** Weight of each stress-related expression. */
+  expressionWeights: z.object({
+    angry: weight(2),
+    fearful: weight(2),
+    sad: weight(2),
+    disgusted: weight(2),
+    surprised: weight(2)
+  }),
+  /** Reliability of each modality in the fused score (see `fusion.ts`). */
+  modalityWeights: z.object({
+    face: weight(1),
+    voice: weight(1),
+    posture: weight(1),
+    eyes: weight(1)
+  })
+});
+
+export type StressDetectorConfig = z.infer<typeof stressConfigSchema>;
+
+export type StressConfigOverrides = Partial<Omit<StressDetectorConfig, 'expressionWeights' | 'modalityWeights'>> & {
+  expressionWeights?: Partial<StressDetectorConfig['expressionWeights']>;
+  modalityWeights?: Partial<StressDetectorConfig['modalityWeights']>;
+};
+
+export type StressPresetName = 'sensitive' | 'balanced' | 'conservative';
+
+const BALANCED: StressDetectorConfig = {
+  calibrationDuration: 5000,
+  calibrationSamplesTarget: 15,
+  stressThreshold: 0.25,
+  confidenceThreshold: 0.6,
+  smoothingWindow: 5,
+  detectionInterval: 333,
+  expressionWeights: {
+    angry: 1.0,
+    fearful: 1.0,
+    sad: 0.8,
+    disgusted: 0.7,
+    surprised: 0.3
+  },
+  modalityWeights: { ...MODALITY_WEIGHTS }
+};
+
+export const STRESS_PRESETS: Record<StressPresetName, StressDetectorConfig> = {
+  // Flags smaller, shorter changes; more false positives
+  sensitive: {
+    ...BALANCED,
+    stressThreshold: 0.15,
+    confidenceThreshold: 0.45,
+    smoothingWindow: 3,
+    detectionInterval: 250,
+    modalityWeights: { face: 1.0, voice: 0.6, posture: 0.5, eyes: 0.5 }
+  },
+  balanced: BALANCED,
+  // Needs larger, sustained changes; fewer false positives
+  conservative: {
+    ...BALANCED,
+    calibrationDuration: 8000,
+    calibrationSamplesTarget: 24,
+    stressThreshold: 0.35,
+    confidenceThreshold: 0.75,
+    smoothingWindow: 9,
+    modalityWeights: { face: 1.0, voice: 0.4, posture: 0.3, eyes: 0.3 }
+  }
+};
+
+export class StressConfigError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid stress detector config: ${issues.join('; ')}`);
+    this.name = 'StressConfigError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Fill in a partial config from the balanced preset (or the named preset) and
+ * validate it. Throws `StressConfigError` listing every out-of-range value.
+ */
+export const resolveStressConfig = (
+config: StressConfigOverrides | StressPresetName = {})
+: StressDetectorConfig => {
+  const overrides = typeof config === 'string' ? STRESS_PRESETS[config] : config;
+  if (!overrides) {
+    throw new StressConfigError([`unknown preset "${config}"`]);
+  }
+
+  const merged = {
+    ...BALANCED,
+    ...overrides,
+    expressionWeights: { ...BALANCED.expressionWeights, ...overrides.expressionWeights },
+    modalityWeights: { ...BALANCED.modalityWeights, ...overrides.modalityWeights }
+  };
+
+  const result = stressConfigSchema.safeParse(merged);
+  if (!result.success) {
+    throw new StressConfigError(
+      result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+    );
+  }
+  return result.data;
+};
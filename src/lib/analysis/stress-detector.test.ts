@@ -14,6 +14,9 @@ jest.mock('face-api.js', () => ({
       loadFromUri: jest.fn().mockResolvedValue(true)
     }
   },
+  env: {
+    monkeyPatch: jest.fn()
+  },
   detectSingleFace: jest.fn(),
   TinyFaceDetectorOptions: jest.fn()
 }));
@@ -1,69 +1,137 @@
-import * as faceapi from 'face-api.js';
+import {
+  AnalysisClock,
+  ExpressionScores,
+  ExpressionSource,
+  FacePoint,
+  systemClock,
+  VideoExpressionSource } from
+'./sources';
+import { AnalysisEventBus, DetectionStats } from './events';
+import { loadFaceModels } from './models';
+import { BaselineUpdate, averageExpressions, expressionDistance } from './baseline';
+import {
+  ModalityReadings,
+  MotionFeatures,
+  VoiceFeatures,
+  computeFaceLandmarkFeatures,
+  createEyesScorer,
+  createPostureScorer,
+  createVoiceScorer,
+  fuseModalities } from
+'./fusion';
+import { StressModality } from '@/types';
+import {
+  StressConfigOverrides,
+  StressDetectorConfig,
+  StressPresetName,
+  resolveStressConfig } from
+'./stress-config';
 
 export interface StressDetectionResult {
   stress: boolean;
   confidence: number;
   features: string[];
+  /** Share of the score from each modality that was available. */
+  contributions?: Partial<Record<StressModality, number>>;
   rawData?: {
-    baseline: faceapi.FaceExpressions | null;
-    current: faceapi.FaceExpressions | null;
+    baseline: ExpressionScores | null;
+    current: ExpressionScores | null;
     deviations: Record<string, number>;
   };
 }
 
 export interface BaselineCalibration {
-  expressions: faceapi.FaceExpressions[];
-  averageExpressions: faceapi.FaceExpressions;
+  expressions: ExpressionScores[];
+  averageExpressions: ExpressionScores;
   timestamp: number;
 }
 
+/**
+ * Live readings from the other analyzers, polled on every detection.
+ */
+export interface ModalityProviders {
+  voice?: () => VoiceFeatures | null;
+  motion?: () => MotionFeatures | null;
+}
+
 export class StressDetector {
+  /** Calibration progress, smoothed stress updates, spikes and face tracking. */
+  readonly events = new AnalysisEventBus();
+  private clock: AnalysisClock;
   private baseline: BaselineCalibration | null = null;
   private isCalibrating: boolean = false;
   private isDetecting: boolean = false;
-  private video: HTMLVideoElement | null = null;
-  private calibrationSamples: faceapi.FaceExpressions[] = [];
+  private source: ExpressionSource | null = null;
+  private calibrationSamples: ExpressionScores[] = [];
   private detectionHistory: StressDetectionResult[] = [];
   private detectionInterval: number | null = null;
+  private lastSmoothedStress: boolean = false;
+  private missedFrames: number = 0;
+  private faceVisible: boolean = true;
+  private calmSamples: ExpressionScores[] = [];
+  private recentExpressions: ExpressionScores[] = [];
+  private drifted: boolean = false;
+  private providers: ModalityProviders = {};
+  private voiceScorer = createVoiceScorer();
+  private postureScorer = createPostureScorer();
+  private eyesScorer = createEyesScorer();
+  private landmarkHistory: Array<{timestamp: number;landmarks: FacePoint[];}> = [];
   
-  // Configuration
-  private readonly CALIBRATION_DURATION = 5000; // 5 seconds
-  private readonly CALIBRATION_SAMPLES_TARGET = 15; // ~3 samples per second
-  private readonly STRESS_THRESHOLD = 0.25; // Minimum deviation to consider stress
-  private readonly CONFIDENCE_THRESHOLD = 0.6; // Minimum confidence for stress detection
-  private readonly SMOOTHING_WINDOW = 5; // Number of frames for temporal smoothing
-  private readonly DETECTION_INTERVAL = 333; // ~3 FPS for detection
-
-  // Stress-related expressions (higher values indicate stress)
-  private readonly STRESS_EXPRESSIONS = {
-    angry: 1.0,      // Direct stress indicator
-    fearful: 1.0,    // Direct stress indicator  
-    sad: 0.8,        // Moderate stress indicator
-    disgusted: 0.7,  // Moderate stress indicator
-    surprised: 0.3,  // Mild stress indicator (can indicate anxiety)
-  };
+  // Thresholds, timing and weights (see stress-config.ts)
+  private config: StressDetectorConfig;
+  // Copied when a calibration starts, so setConfig() can't change one midway
+  private calibrationConfig: Pick<StressDetectorConfig, 'calibrationDuration' | 'calibrationSamplesTarget'>;
 
-  constructor() {
+  private readonly FACE_LOST_FRAMES = 3; // ~1 second without a face
+  private readonly DRIFT_WINDOW = 90; // ~30 seconds of detections
+  private readonly DRIFT_THRESHOLD = 0.4; // Expression distance from baseline
+  private readonly MAX_CALM_SAMPLES = 300;
+  private readonly LANDMARK_WINDOW = 10000; // Blink rate and head movement window
+
+  /**
+   * @param config Partial settings or a preset name; throws
+   * `StressConfigError` if a value is out of range
+   */
+  constructor(clock: AnalysisClock = systemClock, config: StressConfigOverrides | StressPresetName = {}) {
+    this.clock = clock;
+    this.config = resolveStressConfig(config);
+    this.calibrationConfig = this.config;
     this.reset();
   }
 
+  getConfig(): StressDetectorConfig {
+    return this.config;
+  }
+
   /**
-   * Initialize the stress detector with a video element
+   * Change settings at runtime. A new detection interval applies immediately;
+   * calibration settings apply to the next calibration, as one in progress
+   * keeps the settings it started with.
    */
-  async initialize(videoElement: HTMLVideoElement): Promise<boolean> {
+  setConfig(config: StressConfigOverrides | StressPresetName): void {
+    this.config = resolveStressConfig(config);
+
+    if (this.isDetecting && this.detectionInterval) {
+      this.clock.clearInterval(this.detectionInterval);
+      this.detectionInterval = this.clock.setInterval(() => {
+        this.detectStress();
+      }, this.config.detectionInterval);
+    }
+  }
+
+  /**
+   * Initialize the stress detector with a video element. With landmarks, blink
+   * rate and head movement are used as well.
+   */
+  async initialize(videoElement: HTMLVideoElement, { withLandmarks = false }: {withLandmarks?: boolean;} = {}): Promise<boolean> {
     try {
-      this.video = videoElement;
-      
-      // Ensure face-api models are loaded
-      if (!faceapi.nets.tinyFaceDetector.isLoaded) {
-        console.log('Loading face-api models for stress detection...');
-        await Promise.all([
-          faceapi.nets.tinyFaceDetector.loadFromUri('/models'),
-          faceapi.nets.faceLandmark68TinyNet.loadFromUri('/models'),
-          faceapi.nets.faceExpressionNet.loadFromUri('/models')
-        ]);
+      this.source = new VideoExpressionSource(videoElement, { withLandmarks, tinyLandmarks: true });
+
+      const loaded = await loadFaceModels(['tinyFaceDetector', 'faceLandmark68TinyNet', 'faceExpressionNet']);
+      if (!loaded) {
+        throw new Error('Face models could not be loaded');
       }
-      
+
       return true;
     } catch (error) {
       console.error('Error initializing stress detector:', error);
@@ -71,34 +139,71 @@ export class StressDetector {
     }
   }
 
+  /**
+   * Use an already prepared expression source (e.g. recorded frames) instead
+   * of a video element
+   */
+  attachSource(source: ExpressionSource): boolean {
+    this.source = source;
+    return true;
+  }
+
+  /**
+   * Fuse voice and body signals from other analyzers into the stress score.
+   * Modalities without a provider are left out.
+   */
+  attachModalities(providers: ModalityProviders): void {
+    this.providers = providers;
+  }
+
+  /**
+   * Use a stored baseline instead of calibrating
+   */
+  loadBaseline(averageExpressions: ExpressionScores, timestamp: number = this.clock.now()): void {
+    this.baseline = {
+      expressions: [],
+      averageExpressions: { ...averageExpressions },
+      timestamp
+    };
+    this.recentExpressions = [];
+    this.drifted = false;
+    this.events.emit({ type: 'calibrationProgress', progress: 1, timestamp: this.clock.now() });
+  }
+
+  getBaseline(): BaselineCalibration | null {
+    return this.baseline;
+  }
+
   /**
    * Start baseline calibration process
    */
   async startCalibration(): Promise<boolean> {
-    if (!this.video || this.isCalibrating) {
+    if (!this.source || this.isCalibrating) {
       return false;
     }
 
     try {
       this.isCalibrating = true;
       this.calibrationSamples = [];
+      const { calibrationDuration, calibrationSamplesTarget } = this.config;
+      this.calibrationConfig = { calibrationDuration, calibrationSamplesTarget };
       
       console.log('Starting stress detection baseline calibration...');
       
       // Collect samples for calibration
       const calibrationPromise = new Promise<boolean>((resolve) => {
-        const startTime = Date.now();
-        const sampleInterval = this.CALIBRATION_DURATION / this.CALIBRATION_SAMPLES_TARGET;
+        const startTime = this.clock.now();
+        const sampleInterval = calibrationDuration / calibrationSamplesTarget;
         
         const collectSample = async () => {
-          if (!this.isCalibrating || !this.video) {
+          if (!this.isCalibrating || !this.source) {
             resolve(false);
             return;
           }
 
-          const elapsed = Date.now() - startTime;
+          const elapsed = this.clock.now() - startTime;
           
-          if (elapsed >= this.CALIBRATION_DURATION) {
+          if (elapsed >= calibrationDuration) {
             // Calibration complete
             this.finishCalibration();
             resolve(true);
@@ -107,19 +212,24 @@ export class StressDetector {
 
           // Collect sample
           try {
-            const detection = await faceapi
-              .detectSingleFace(this.video, new faceapi.TinyFaceDetectorOptions())
-              .withFaceExpressions();
-
-            if (detection && detection.expressions) {
-              this.calibrationSamples.push(detection.expressions);
+            const expressions = await this.source.detect();
+
+            this.trackFace(expressions !== null);
+            this.readModalities(expressions !== null);
+            if (expressions) {
+              this.calibrationSamples.push(expressions);
+              this.events.emit({
+                type: 'calibrationProgress',
+                progress: this.getCalibrationProgress(),
+                timestamp: this.clock.now()
+              });
             }
           } catch (error) {
             console.warn('Error during calibration sample collection:', error);
           }
 
           // Schedule next sample
-          setTimeout(collectSample, sampleInterval);
+          this.clock.setTimeout(collectSample, sampleInterval);
         };
 
         collectSample();
@@ -144,7 +254,7 @@ export class StressDetector {
     }
 
     // Calculate average expressions for baseline
-    const avgExpressions: faceapi.FaceExpressions = {
+    const avgExpressions: ExpressionScores = {
       neutral: 0,
       happy: 0,
       sad: 0,
@@ -157,24 +267,27 @@ export class StressDetector {
     // Sum all expressions
     this.calibrationSamples.forEach(expressions => {
       Object.keys(avgExpressions).forEach(key => {
-        avgExpressions[key as keyof faceapi.FaceExpressions] += 
-          expressions[key as keyof faceapi.FaceExpressions];
+        avgExpressions[key as keyof ExpressionScores] += 
+          expressions[key as keyof ExpressionScores];
       });
     });
 
     // Calculate averages
     const sampleCount = this.calibrationSamples.length;
     Object.keys(avgExpressions).forEach(key => {
-      avgExpressions[key as keyof faceapi.FaceExpressions] /= sampleCount;
+      avgExpressions[key as keyof ExpressionScores] /= sampleCount;
     });
 
     this.baseline = {
       expressions: [...this.calibrationSamples],
       averageExpressions: avgExpressions,
-      timestamp: Date.now()
+      timestamp: this.clock.now()
     };
 
     this.isCalibrating = false;
+    this.recentExpressions = [];
+    this.drifted = false;
+    this.events.emit({ type: 'calibrationProgress', progress: 1, timestamp: this.clock.now() });
     console.log(`Stress detection baseline established with ${sampleCount} samples`);
   }
 
@@ -182,16 +295,17 @@ export class StressDetector {
    * Start real-time stress detection
    */
   startDetection(): boolean {
-    if (!this.video || !this.baseline || this.isDetecting) {
+    if (!this.source || !this.baseline || this.isDetecting) {
       return false;
     }
 
     this.isDetecting = true;
     this.detectionHistory = [];
+    this.lastSmoothedStress = false;
 
-    this.detectionInterval = window.setInterval(() => {
+    this.detectionInterval = this.clock.setInterval(() => {
       this.detectStress();
-    }, this.DETECTION_INTERVAL);
+    }, this.config.detectionInterval);
 
     console.log('Stress detection started');
     return true;
@@ -204,7 +318,7 @@ export class StressDetector {
     this.isDetecting = false;
     
     if (this.detectionInterval) {
-      clearInterval(this.detectionInterval);
+      this.clock.clearInterval(this.detectionInterval);
       this.detectionInterval = null;
     }
   }
@@ -220,36 +334,128 @@ export class StressDetector {
    * Perform stress detection on current frame
    */
   private async detectStress(): Promise<void> {
-    if (!this.isDetecting || !this.video || !this.baseline) {
+    if (!this.isDetecting || !this.source || !this.baseline) {
       return;
     }
 
     try {
-      const detection = await faceapi
-        .detectSingleFace(this.video, new faceapi.TinyFaceDetectorOptions())
-        .withFaceExpressions();
+      const expressions = await this.source.detect();
+      this.trackFace(expressions !== null);
+      const modalities = this.readModalities(expressions !== null);
 
-      if (!detection || !detection.expressions) {
+      // Without a face, keep going on voice and posture if they're available
+      if (!expressions && !modalities.voice && !modalities.posture) {
         return;
       }
 
-      const result = this.analyzeStress(detection.expressions);
+      const result = this.analyzeStress(expressions, modalities);
       this.detectionHistory.push(result);
+      if (expressions) {
+        if (!result.stress && this.calmSamples.length < this.MAX_CALM_SAMPLES) {
+          this.calmSamples.push(expressions);
+        }
+        this.trackDrift(expressions);
+      }
 
       // Keep only recent history for smoothing
-      if (this.detectionHistory.length > this.SMOOTHING_WINDOW * 2) {
-        this.detectionHistory = this.detectionHistory.slice(-this.SMOOTHING_WINDOW * 2);
+      if (this.detectionHistory.length > this.config.smoothingWindow * 2) {
+        this.detectionHistory = this.detectionHistory.slice(-this.config.smoothingWindow * 2);
       }
 
+      const smoothed = this.getCurrentStressLevel();
+      const timestamp = this.clock.now();
+      this.events.emit({ type: 'stressUpdate', result: smoothed, stats: this.getDetectionStats(), timestamp });
+
+      if (smoothed.stress && !this.lastSmoothedStress) {
+        this.events.emit({ type: 'stressSpike', confidence: smoothed.confidence, features: smoothed.features, timestamp });
+      }
+      this.lastSmoothedStress = smoothed.stress;
+
     } catch (error) {
       console.warn('Error during stress detection:', error);
     }
   }
 
+  /**
+   * Poll the non-expression modalities. Their baselines seed from the first
+   * readings (during calibration, or at the start of detection when a stored
+   * face baseline was loaded), so a modality only contributes once its
+   * baseline is ready.
+   */
+  private readModalities(faceFound: boolean): ModalityReadings {
+    const now = this.clock.now();
+    const landmarks = faceFound ? this.source?.getLandmarks?.() : null;
+    if (landmarks) {
+      this.landmarkHistory.push({ timestamp: now, landmarks });
+    }
+    this.landmarkHistory = this.landmarkHistory.filter((frame) => frame.timestamp > now - this.LANDMARK_WINDOW);
+
+    return {
+      voice: this.voiceScorer.update(this.providers.voice?.() ?? null),
+      posture: this.postureScorer.update(this.providers.motion?.() ?? null),
+      eyes: landmarks ? this.eyesScorer.update(computeFaceLandmarkFeatures(this.landmarkHistory)) : null
+    };
+  }
+
+  /**
+   * Emit baselineDrift once when expressions stay far from the baseline for
+   * the whole drift window, e.g. because the lighting or camera changed since
+   * a stored baseline was captured
+   */
+  private trackDrift(expressions: ExpressionScores): void {
+    if (!this.baseline || this.drifted) return;
+
+    this.recentExpressions.push(expressions);
+    if (this.recentExpressions.length > this.DRIFT_WINDOW) {
+      this.recentExpressions.shift();
+    }
+    if (this.recentExpressions.length < this.DRIFT_WINDOW) return;
+
+    const distance = expressionDistance(averageExpressions(this.recentExpressions), this.baseline.averageExpressions);
+    if (distance > this.DRIFT_THRESHOLD) {
+      this.drifted = true;
+      this.events.emit({ type: 'baselineDrift', distance: Math.round(distance * 100) / 100, timestamp: this.clock.now() });
+    }
+  }
+
+  /**
+   * Average of the frames that weren't flagged as stressed, for updating a
+   * stored baseline
+   */
+  getCalmUpdate(): BaselineUpdate | null {
+    if (this.calmSamples.length === 0) return null;
+
+    return {
+      averageExpressions: averageExpressions(this.calmSamples),
+      sampleCount: this.calmSamples.length
+    };
+  }
+
+  /**
+   * Emit faceLost after several frames without a face, and faceFound when it
+   * comes back
+   */
+  private trackFace(found: boolean): void {
+    if (found) {
+      this.missedFrames = 0;
+      if (!this.faceVisible) {
+        this.faceVisible = true;
+        this.events.emit({ type: 'faceFound', timestamp: this.clock.now() });
+      }
+      return;
+    }
+
+    this.missedFrames++;
+    if (this.faceVisible && this.missedFrames >= this.FACE_LOST_FRAMES) {
+      this.faceVisible = false;
+      this.events.emit({ type: 'faceLost', timestamp: this.clock.now() });
+    }
+  }
+
   /**
    * Analyze stress based on expression deviations from baseline
    */
-  private analyzeStress(currentExpressions: faceapi.FaceExpressions): StressDetectionResult {
+  private analyzeStress(currentExpressions: ExpressionScores | null, modalities: ModalityReadings = {}): StressDetectionResult {
     if (!this.baseline) {
       return {
         stress: false,
@@ -258,6 +464,10 @@ export class StressDetector {
       };
     }
 
+    if (!currentExpressions) {
+      return this.fuse(modalities);
+    }
+
     const baseline = this.baseline.averageExpressions;
     const deviations: Record<string, number> = {};
     const features: string[] = [];
@@ -265,15 +475,15 @@ export class StressDetector {
     let totalWeight = 0;
 
     // Calculate deviations for stress-related expressions
-    Object.entries(this.STRESS_EXPRESSIONS).forEach(([expression, weight]) => {
-      const currentValue = currentExpressions[expression as keyof faceapi.FaceExpressions];
-      const baselineValue = baseline[expression as keyof faceapi.FaceExpressions];
+    Object.entries(this.config.expressionWeights).forEach(([expression, weight]) => {
+      const currentValue = currentExpressions[expression as keyof ExpressionScores];
+      const baselineValue = baseline[expression as keyof ExpressionScores];
       const deviation = currentValue - baselineValue;
       
       deviations[expression] = deviation;
 
       // Only consider positive deviations (increases in stress expressions)
-      if (deviation > this.STRESS_THRESHOLD) {
+      if (deviation > this.config.stressThreshold) {
         stressScore += deviation * weight;
         totalWeight += weight;
 
@@ -299,13 +509,10 @@ export class StressDetector {
     });
 
     // Calculate confidence based on weighted average
-    const confidence = totalWeight > 0 ? Math.min(stressScore / totalWeight, 1.0) : 0;
-    const isStressed = confidence >= this.CONFIDENCE_THRESHOLD;
+    const faceScore = totalWeight > 0 ? Math.min(stressScore / totalWeight, 1.0) : 0;
 
     return {
-      stress: isStressed,
-      confidence: Math.round(confidence * 100) / 100,
-      features: [...new Set(features)], // Remove duplicates
+      ...this.fuse({ ...modalities, face: { score: faceScore, features: [...new Set(features)] } }),
       rawData: {
         baseline: baseline,
         current: currentExpressions,
@@ -314,6 +521,20 @@ export class StressDetector {
     };
   }
 
+  /**
+   * Combine the modality scores into one result
+   */
+  private fuse(modalities: ModalityReadings): StressDetectionResult {
+    const fused = fuseModalities(modalities, this.config.modalityWeights);
+
+    return {
+      stress: fused.confidence >= this.config.confidenceThreshold,
+      confidence: Math.round(fused.confidence * 100) / 100,
+      features: fused.features,
+      contributions: fused.contributions
+    };
+  }
+
   /**
    * Get current stress detection result with temporal smoothing
    */
@@ -327,23 +548,34 @@ export class StressDetector {
     }
 
     // Apply temporal smoothing over recent frames
-    const recentResults = this.detectionHistory.slice(-this.SMOOTHING_WINDOW);
+    const recentResults = this.detectionHistory.slice(-this.config.smoothingWindow);
     
     // Calculate smoothed confidence
     const avgConfidence = recentResults.reduce((sum, result) => sum + result.confidence, 0) / recentResults.length;
     
     // Stress is detected if majority of recent frames indicate stress
     const stressCount = recentResults.filter(result => result.stress).length;
-    const smoothedStress = stressCount > (this.SMOOTHING_WINDOW / 2);
+    const smoothedStress = stressCount > (this.config.smoothingWindow / 2);
     
     // Combine all features from recent frames
     const allFeatures = recentResults.flatMap(result => result.features);
     const uniqueFeatures = [...new Set(allFeatures)];
 
+    // Average each modality's share over the frames it was available in
+    const contributions: Partial<Record<StressModality, number>> = {};
+    const modalities = [...new Set(recentResults.flatMap(result => Object.keys(result.contributions || {})))] as StressModality[];
+    modalities.forEach(modality => {
+      const shares = recentResults.
+      map(result => result.contributions?.[modality]).
+      filter((share): share is number => share !== undefined);
+      contributions[modality] = Math.round(shares.reduce((sum, share) => sum + share, 0) / shares.length * 100) / 100;
+    });
+
     return {
       stress: smoothedStress,
       confidence: Math.round(avgConfidence * 100) / 100,
-      features: uniqueFeatures
+      features: uniqueFeatures,
+      contributions
     };
   }
 
@@ -355,7 +587,7 @@ export class StressDetector {
       return this.baseline ? 1 : 0;
     }
     
-    return Math.min(this.calibrationSamples.length / this.CALIBRATION_SAMPLES_TARGET, 1);
+    return Math.min(this.calibrationSamples.length / this.calibrationConfig.calibrationSamplesTarget, 1);
   }
 
   /**
@@ -388,17 +620,22 @@ export class StressDetector {
     this.baseline = null;
     this.calibrationSamples = [];
     this.detectionHistory = [];
+    this.lastSmoothedStress = false;
+    this.missedFrames = 0;
+    this.faceVisible = true;
+    this.calmSamples = [];
+    this.recentExpressions = [];
+    this.drifted = false;
+    this.landmarkHistory = [];
+    this.voiceScorer.reset();
+    this.postureScorer.reset();
+    this.eyesScorer.reset();
   }
 
   /**
    * Get detection statistics
    */
-  getDetectionStats(): {
-    totalDetections: number;
-    stressDetections: number;
-    averageConfidence: number;
-    baselineAge: number;
-  } {
+  getDetectionStats(): DetectionStats {
     const stressDetections = this.detectionHistory.filter(r => r.stress).length;
     const avgConfidence = this.detectionHistory.length > 0 
       ? this.detectionHistory.reduce((sum, r) => sum + r.confidence, 0) / this.detectionHistory.length 
@@ -408,7 +645,7 @@ export class StressDetector {
       totalDetections: this.detectionHistory.length,
       stressDetections,
       averageConfidence: Math.round(avgConfidence * 100) / 100,
-      baselineAge: this.baseline ? Date.now() - this.baseline.timestamp : 0
+      baselineAge: this.baseline ? this.clock.now() - this.baseline.timestamp : 0
     };
   }
 }
\ No newline at end of file
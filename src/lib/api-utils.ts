@@ -102,7 +102,7 @@ export const checkAPIHealth = async (): Promise<boolean> => {
   try {
 
     const { chatSession } = await import('@/scripts');
-    await chatSession.sendMessage('Hello');
+    await chatSession.sendMessage('Hello', { operation: 'healthCheck' });
     return true;
   } catch (error) {
     console.warn('API health check failed:', error);
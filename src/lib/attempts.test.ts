@@ -0,0 +1,76 @@
+import { Timestamp } from 'firebase/firestore';
+import { FluencyAnalysis, UserAnswer } from '@/types';
+import { compareAttempts, diffWords, groupAttempts, selectAttempts } from './attempts';
+
+const createdAt = { toMillis: () => 0 } as unknown as Timestamp;
+
+const answer = (overrides: Partial<UserAnswer>): UserAnswer => ({
+  id: `answer-${overrides.attempt ?? 1}`,
+  mockIdRef: 'interview-1',
+  question: 'What is a closure?',
+  correct_ans: 'A function bundled with its lexical scope.',
+  user_ans: 'A function that remembers variables.',
+  feedback: 'Mention lexical scope.',
+  rating: 6,
+  userId: 'user-1',
+  createdAt,
+  updateAt: createdAt,
+  ...overrides
+});
+
+describe('groupAttempts', () => {
+  test('should order attempts and pick the best and latest', () => {
+    const answers = [
+    answer({ attempt: 3, rating: 5 }),
+    answer({ rating: 4 }),
+    answer({ attempt: 2, rating: 7 }),
+    answer({ id: 'other', question: 'What is hoisting?', rating: 8 })];
+
+
+    const [closure, hoisting] = groupAttempts(answers);
+
+    expect(closure.attempts.map((item) => item.attempt ?? 1)).toEqual([1, 2, 3]);
+    expect(closure.best.attempt).toBe(2);
+    expect(closure.latest.attempt).toBe(3);
+    expect(hoisting.attempts).toHaveLength(1);
+  });
+
+  test('should prefer the later attempt when ratings tie', () => {
+    const answers = [answer({ rating: 7 }), answer({ attempt: 2, rating: 7 })];
+
+    expect(selectAttempts(answers, 'best').map((item) => item.attempt)).toEqual([2]);
+  });
+});
+
+describe('diffWords', () => {
+  test('should mark removed and added words around the common ones', () => {
+    expect(diffWords('A closure keeps variables', 'A closure keeps outer variables alive')).toEqual([
+    { text: 'A closure keeps', kind: 'same' },
+    { text: 'outer', kind: 'added' },
+    { text: 'variables', kind: 'same' },
+    { text: 'alive', kind: 'added' }]
+    );
+    expect(diffWords('It is a function', 'It is, a scope')).toEqual([
+    { text: 'It is, a', kind: 'same' },
+    { text: 'scope', kind: 'added' },
+    { text: 'function', kind: 'removed' }]
+    );
+  });
+});
+
+describe('compareAttempts', () => {
+  test('should say which direction counts as better for each metric', () => {
+    const fluency = (averageWpm: number, fillerCount: number) => ({ averageWpm, fillerCount, longPauses: [] }) as unknown as FluencyAnalysis;
+    const changes = compareAttempts(
+      answer({ rating: 5, fluencyAnalysis: fluency(190, 9) }),
+      answer({ attempt: 2, rating: 7, fluencyAnalysis: fluency(150, 12) })
+    );
+    const byLabel = Object.fromEntries(changes.map((change) => [change.label, change]));
+
+    expect(byLabel['Rating'].improved).toBe(true);
+    expect(byLabel['Speaking rate'].improved).toBe(true);
+    expect(byLabel['Filler words'].improved).toBe(false);
+    expect(byLabel['Long silences'].improved).toBeNull();
+    expect(byLabel['Eye contact']).toMatchObject({ before: null, after: null, improved: null });
+  });
+});
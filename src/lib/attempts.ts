@@ -0,0 +1,142 @@
+import { UserAnswer } from "@/types";
+import { timeUnderStress } from "./report";
+
+/**
+ * Repeated answers to the same question.
+ *
+ * Every save of an answer is kept as a new attempt, numbered per interview
+ * and question. Answers saved before attempts existed count as attempt 1.
+ */
+
+export type AttemptView = "best" | "latest";
+
+export interface AttemptGroup {
+  question: string;
+  /** In attempt order. */
+  attempts: UserAnswer[];
+  best: UserAnswer;
+  latest: UserAnswer;
+}
+
+export const attemptNumber = (answer: UserAnswer) => answer.attempt ?? 1;
+
+const savedAt = (answer: UserAnswer) => answer.createdAt?.toMillis?.() ?? 0;
+
+const byAttempt = (a: UserAnswer, b: UserAnswer) => attemptNumber(a) - attemptNumber(b) || savedAt(a) - savedAt(b);
+
+export const groupAttempts = (answers: UserAnswer[]): AttemptGroup[] => {
+  const groups = new Map<string, UserAnswer[]>();
+  answers.forEach((answer) => groups.set(answer.question, [...(groups.get(answer.question) ?? []), answer]));
+
+  return [...groups.entries()].map(([question, attempts]) => {
+    const sorted = [...attempts].sort(byAttempt);
+    return {
+      question,
+      attempts: sorted,
+      // On a tie, the later attempt wins
+      best: sorted.reduce((best, answer) => answer.rating >= best.rating ? answer : best),
+      latest: sorted[sorted.length - 1]
+    };
+  });
+};
+
+/**
+ * One answer per question: its best or its latest attempt.
+ */
+export const selectAttempts = (answers: UserAnswer[], view: AttemptView) =>
+groupAttempts(answers).map((group) => group[view]);
+
+export type DiffKind = "same" | "added" | "removed";
+
+export interface DiffPart {
+  text: string;
+  kind: DiffKind;
+}
+
+/**
+ * Word-level diff of two transcripts (longest common subsequence), with
+ * adjacent words of the same kind merged.
+ */
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = before.split(/\s+/).filter(Boolean);
+  const b = after.split(/\s+/).filter(Boolean);
+  const same = (x: string, y: string) => x.toLowerCase().replace(/[^\w']/g, "") === y.toLowerCase().replace(/[^\w']/g, "");
+
+  // lengths[i][j]: common words of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = same(a[i], b[j]) ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (text: string, kind: DiffKind) => {
+    const last = parts[parts.length - 1];
+    if (last?.kind === kind) last.text += ` ${text}`;else
+    parts.push({ text, kind });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && same(a[i], b[j])) {
+      push(b[j], "same");
+      i++;
+      j++;
+    } else if (j < b.length && (i === a.length || lengths[i][j + 1] >= lengths[i + 1][j])) {
+      push(b[j++], "added");
+    } else {
+      push(a[i++], "removed");
+    }
+  }
+  return parts;
+};
+
+export interface MetricChange {
+  label: string;
+  before: number | null;
+  after: number | null;
+  unit: string;
+  /** Whether the change is an improvement; null when there is nothing to compare. */
+  improved: boolean | null;
+}
+
+// Speaking rates in this range count as comfortable, as in the improvement plan
+const PACE_RANGE = { min: 110, max: 170 };
+
+const paceDistance = (wpm: number) => Math.max(0, PACE_RANGE.min - wpm, wpm - PACE_RANGE.max);
+
+/**
+ * Rating and delivery metrics of two attempts side by side.
+ */
+export const compareAttempts = (before: UserAnswer, after: UserAnswer): MetricChange[] => {
+  const metric = (
+  label: string,
+  unit: string,
+  read: (answer: UserAnswer) => number | null | undefined,
+  better: (before: number, after: number) => boolean)
+  : MetricChange => {
+    const from = read(before) ?? null;
+    const to = read(after) ?? null;
+    return {
+      label,
+      unit,
+      before: from,
+      after: to,
+      improved: from === null || to === null || from === to ? null : better(from, to)
+    };
+  };
+  const higher = (from: number, to: number) => to > from;
+  const lower = (from: number, to: number) => to < from;
+
+  return [
+  metric("Rating", "/10", (answer) => answer.rating, higher),
+  metric("Speaking rate", " wpm", (answer) => answer.fluencyAnalysis?.averageWpm,
+  (from, to) => paceDistance(to) < paceDistance(from)),
+  metric("Filler words", "", (answer) => answer.fluencyAnalysis?.fillerCount, lower),
+  metric("Long silences", "", (answer) => answer.fluencyAnalysis?.longPauses.length, lower),
+  metric("Time under stress", "%", (answer) => answer.stressAnalysis ? timeUnderStress(answer.stressAnalysis) : null, lower),
+  metric("Eye contact", "%", (answer) => answer.eyeContactAnalysis?.eyeContactPercentage, higher)];
+
+};
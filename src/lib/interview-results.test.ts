@@ -0,0 +1,33 @@
+import { addResultAnswer, finishInterviewResult, interviewResultId, newInterviewResult } from './interview-results';
+
+describe('interview results', () => {
+  const run = newInterviewResult('user-1', 'interview-1', 3, 1000);
+
+  test('should start in progress with nothing answered', () => {
+    expect(run).toMatchObject({
+      id: interviewResultId('user-1', 'interview-1'),
+      status: 'in-progress',
+      answers: [],
+      totalScore: 0,
+      elapsedSeconds: 0,
+      startedAt: 1000
+    });
+  });
+
+  test('should keep the latest answer per question in the total score', () => {
+    let updated = addResultAnswer(run, { question: 'Q1', answerId: 'a1', rating: 4 }, 60, 2000);
+    updated = addResultAnswer(updated, { question: 'Q2', answerId: 'a2', rating: 7 }, 130, 3000);
+    updated = addResultAnswer(updated, { question: 'Q1', answerId: 'a3', rating: 8 }, 200, 4000);
+
+    expect(updated.answers.map((answer) => answer.answerId)).toEqual(['a2', 'a3']);
+    expect(updated.totalScore).toBe(7.5);
+    expect(updated.elapsedSeconds).toBe(200);
+    expect(updated.updatedAt).toBe(4000);
+  });
+
+  test('should record how the run ended', () => {
+    const finished = finishInterviewResult(run, 'out-of-time', { questionCount: 4, elapsedSeconds: 900 }, 5000);
+
+    expect(finished).toMatchObject({ status: 'out-of-time', questionCount: 4, elapsedSeconds: 900, completedAt: 5000 });
+  });
+});
@@ -0,0 +1,100 @@
+import { doc, getDoc, setDoc } from "firebase/firestore";
+import { db } from "@/config/firebase.config";
+
+/**
+ * Interview-level results of the guided interview flow.
+ *
+ * One doc per user and interview in the "interviewResults" collection, saved
+ * after every answer, so a run that was interrupted (the tab closed) resumes
+ * at the first question without an answer. Starting over replaces the doc;
+ * the answers themselves stay in "userAnswers" as earlier attempts.
+ */
+
+const COLLECTION = "interviewResults";
+
+export type InterviewResultStatus = "in-progress" | "completed" | "ended-early" | "out-of-time";
+
+export interface InterviewResultAnswer {
+  question: string;
+  answerId: string;
+  rating: number;
+}
+
+export interface InterviewResult {
+  id: string;
+  interviewId: string;
+  userId: string;
+  status: InterviewResultStatus;
+  /** The latest answer to each question, in the order answered. */
+  answers: InterviewResultAnswer[];
+  /** Questions in the run, follow-ups included. */
+  questionCount: number;
+  /** Mean rating of the answered questions, to one decimal place. */
+  totalScore: number;
+  /** Time spent in the interview; time with the page closed doesn't count. */
+  elapsedSeconds: number;
+  /** Epoch ms. */
+  startedAt: number;
+  updatedAt: number;
+  completedAt?: number;
+}
+
+export const RESULT_STATUS_LABELS: Record<InterviewResultStatus, string> = {
+  "in-progress": "In progress",
+  completed: "Completed",
+  "ended-early": "Ended early",
+  "out-of-time": "Out of time"
+};
+
+export const interviewResultId = (userId: string, interviewId: string) => `${userId}_${interviewId}`;
+
+export const newInterviewResult = (
+userId: string,
+interviewId: string,
+questionCount: number,
+now = Date.now())
+: InterviewResult => ({
+  id: interviewResultId(userId, interviewId),
+  interviewId,
+  userId,
+  status: "in-progress",
+  answers: [],
+  questionCount,
+  totalScore: 0,
+  elapsedSeconds: 0,
+  startedAt: now,
+  updatedAt: now
+});
+
+const meanRating = (answers: InterviewResultAnswer[]) =>
+answers.length > 0 ?
+Math.round(answers.reduce((sum, answer) => sum + answer.rating, 0) / answers.length * 10) / 10 :
+0;
+
+/**
+ * Add an answer to the run; answering a question again replaces its entry.
+ */
+export const addResultAnswer = (
+result: InterviewResult,
+answer: InterviewResultAnswer,
+elapsedSeconds: number,
+now = Date.now())
+: InterviewResult => {
+  const answers = [...result.answers.filter((item) => item.question !== answer.question), answer];
+  return { ...result, answers, totalScore: meanRating(answers), elapsedSeconds, updatedAt: now };
+};
+
+export const finishInterviewResult = (
+result: InterviewResult,
+status: Exclude<InterviewResultStatus, "in-progress">,
+update: Pick<InterviewResult, "questionCount" | "elapsedSeconds">,
+now = Date.now())
+: InterviewResult => ({ ...result, ...update, status, updatedAt: now, completedAt: now });
+
+export const loadInterviewResult = async (userId: string, interviewId: string): Promise<InterviewResult | null> => {
+  const snap = await getDoc(doc(db, COLLECTION, interviewResultId(userId, interviewId)));
+  return snap.exists() ? snap.data() as InterviewResult : null;
+};
+
+export const saveInterviewResult = (result: InterviewResult) =>
+setDoc(doc(db, COLLECTION, result.id), result);
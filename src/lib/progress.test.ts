@@ -0,0 +1,92 @@
+import {
+  AnswerProgress,
+  PROGRESS_VERSION,
+  buildProgressSummary,
+  computeProgressAnalytics,
+  dayKey,
+  extractWeakTopics,
+  needsProgressRebuild } from
+'./progress';
+
+jest.mock('@/config/firebase.config', () => ({ db: {} }));
+
+const at = (day: number, hour: number = 12) => new Date(2024, 4, day, hour).getTime();
+
+const answer = (overrides: Partial<AnswerProgress>): AnswerProgress => ({
+  rating: 8,
+  feedback: 'Solid answer.',
+  techStack: 'React, TypeScript',
+  timestamp: at(1),
+  ...overrides
+});
+
+describe('extractWeakTopics', () => {
+  test('should keep content words and adjacent pairs', () => {
+    expect(extractWeakTopics('Mention lexical scope and give an example.')).toEqual(['lexical scope', 'lexical', 'scope']);
+  });
+});
+
+describe('buildProgressSummary', () => {
+  test('should total answers per day, tech stack and weak topic', () => {
+    const summary = buildProgressSummary('user-1', [
+    answer({ rating: 4, feedback: 'Explain lexical scope.', timestamp: at(1, 9) }),
+    answer({
+      rating: 8,
+      timestamp: at(1, 18),
+      fluencyAnalysis: {
+        averageWpm: 140,
+        wpmTimeline: [],
+        fillerWords: [],
+        fillerCount: 0,
+        fillerRate: 0,
+        longPauses: [],
+        restarts: 0,
+        feedback: ''
+      }
+    }),
+    answer({ rating: 6, techStack: 'react', feedback: 'Lexical scope is missing.', timestamp: at(2) })]
+    );
+
+    expect(summary.days[dayKey(at(1))]).toEqual({ answers: 2, ratingTotal: 12, wpmTotal: 140, wpmCount: 1 });
+    expect(summary.techStacks.react).toEqual({ name: 'react', answers: 3, ratingTotal: 18 });
+    expect(summary.techStacks.typescript.answers).toBe(2);
+    expect(summary.weakTopics['lexical-scope']).toBe(2);
+  });
+});
+
+describe('computeProgressAnalytics', () => {
+  const summary = buildProgressSummary('user-1', [
+  answer({ rating: 4, feedback: 'Explain lexical scope.', timestamp: at(1) }),
+  answer({ rating: 5, feedback: 'Lexical scope is missing.', timestamp: at(2) }),
+  answer({ rating: 9, timestamp: at(3) }),
+  answer({ rating: 7, timestamp: at(6) }),
+  answer({ rating: 8, timestamp: at(7) })]
+  );
+
+  test('should count streaks of consecutive practice days', () => {
+    expect(computeProgressAnalytics(summary, new Date(2024, 4, 8)).currentStreak).toBe(2);
+    expect(computeProgressAnalytics(summary, new Date(2024, 4, 10)).currentStreak).toBe(0);
+    expect(computeProgressAnalytics(summary, new Date(2024, 4, 8)).longestStreak).toBe(3);
+  });
+
+  test('should build daily trends and rank weak topics', () => {
+    const analytics = computeProgressAnalytics(summary, new Date(2024, 4, 8));
+
+    expect(analytics.answers).toBe(5);
+    expect(analytics.practiceDays).toBe(5);
+    expect(analytics.ratingTrend.map((point) => point.value)).toEqual([4, 5, 9, 7, 8]);
+    expect(analytics.stressTrend).toEqual([]);
+    expect(analytics.techStacks[0]).toEqual({ name: 'React', answers: 5, averageRating: 6.6 });
+    expect(analytics.weakTopics).toEqual([{ topic: 'lexical scope', count: 2 }]);
+  });
+});
+
+describe('needsProgressRebuild', () => {
+  test('should rebuild missing and older summaries only', () => {
+    const summary = buildProgressSummary('user-1', []);
+
+    expect(needsProgressRebuild(null)).toBe(true);
+    expect(needsProgressRebuild(summary)).toBe(true);
+    expect(needsProgressRebuild({ ...summary, version: PROGRESS_VERSION })).toBe(false);
+  });
+});
@@ -0,0 +1,332 @@
+import {
+  average,
+  collection,
+  count,
+  doc,
+  getAggregateFromServer,
+  getDoc,
+  getDocs,
+  increment,
+  query,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  where } from
+"firebase/firestore";
+import { db } from "@/config/firebase.config";
+import { Interview, UserAnswer } from "@/types";
+import { timeUnderStress } from "@/lib/report";
+
+/**
+ * Per-user progress across every interview.
+ *
+ * Each saved answer adds its numbers to a single summary doc per user in the
+ * "userProgress" collection: daily totals, per-tech-stack totals and weak
+ * topic counts, all applied with `increment()`. The analytics page reads that
+ * one doc instead of every answer. The average rating comes from a
+ * server-side aggregation over "userAnswers".
+ *
+ * Progress measures practice, so it counts attempts rather than questions:
+ * answering a question again adds another answer to its day, tech stacks and
+ * weak topics, and to the average rating. The feedback page is where attempts
+ * are reduced to one per question.
+ *
+ * Summaries carry a `version`. One without the current version (answers saved
+ * before tracking existed, or before a change to what it tracks) is rebuilt
+ * from the answers once, the first time the analytics page opens.
+ */
+
+const COLLECTION = "userProgress";
+
+export const PROGRESS_VERSION = 1;
+
+// Answers rated at or below this feed the weak topics
+const WEAK_RATING = 6;
+const MAX_TOPICS_PER_ANSWER = 6;
+
+export interface DailyProgress {
+  answers: number;
+  ratingTotal: number;
+  /** Sum of per-answer stress percentages, over `stressCount` answers. */
+  stressTotal?: number;
+  stressCount?: number;
+  wpmTotal?: number;
+  wpmCount?: number;
+}
+
+export interface ProgressSummary {
+  userId: string;
+  /** PROGRESS_VERSION when the summary was last rebuilt; missing before then. */
+  version?: number;
+  /** Keyed by local date, "YYYY-MM-DD". */
+  days: Record<string, DailyProgress>;
+  /** Keyed by lowercased technology. */
+  techStacks: Record<string, {name: string;answers: number;ratingTotal: number;}>;
+  weakTopics: Record<string, number>;
+}
+
+export interface AnswerProgress {
+  rating: number;
+  feedback: string;
+  /** The interview's comma-separated tech stack. */
+  techStack?: string;
+  stressAnalysis?: UserAnswer["stressAnalysis"];
+  fluencyAnalysis?: UserAnswer["fluencyAnalysis"];
+  /** When the answer was saved, epoch ms. */
+  timestamp: number;
+}
+
+const STOP_WORDS = new Set([
+"a", "about", "above", "add", "adding", "also", "an", "and", "answer", "answers", "any", "are", "as", "at", "be",
+"been", "being", "better", "both", "but", "by", "can", "candidate", "clear", "clearer", "concise", "consider",
+"could", "demonstrate", "describe", "detail", "detailed", "details", "discuss", "does", "doing", "each", "elaborate",
+"especially", "example", "examples", "explain", "explaining", "explanation", "focus", "for", "from", "further",
+"give", "good", "great", "had", "has", "have", "how", "however", "improve", "include", "including", "into", "is",
+"it", "its", "just", "key", "lacks", "like", "make", "mention", "mentioning", "more", "most", "much", "need",
+"needs", "not", "of", "on", "or", "other", "own", "point", "points", "practical", "provide", "providing", "real",
+"response", "should", "show", "some", "specific", "specifically", "such", "than", "that", "the", "their", "them",
+"then", "there", "these", "they", "this", "those", "through", "tip", "to", "try", "understanding", "use", "using",
+"very", "was", "ways", "well", "were", "what", "when", "where", "which", "while", "why", "will", "with",
+"would", "you", "your"]
+);
+
+const toKey = (text: string) => text.toLowerCase().trim().replace(/[^a-z0-9+#]+/g, "-").replace(/^-|-$/g, "");
+
+export const dayKey = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const parseDayKey = (key: string) => {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * Topics an answer's feedback says were missing or weak: content words and
+ * pairs of adjacent content words, e.g. "lexical scope".
+ */
+export const extractWeakTopics = (feedback: string): string[] => {
+  const topics = new Set<string>();
+  const words = feedback.toLowerCase().split(/[^a-z0-9+#]+/);
+
+  words.forEach((word, i) => {
+    if (word.length < 3 || STOP_WORDS.has(word) || /^\d+$/.test(word)) return;
+    const next = words[i + 1];
+    if (next && next.length >= 3 && !STOP_WORDS.has(next) && !/^\d+$/.test(next)) {
+      topics.add(`${word} ${next}`);
+    }
+    topics.add(word);
+  });
+
+  return [...topics].slice(0, MAX_TOPICS_PER_ANSWER);
+};
+
+const splitTechStack = (techStack: string | undefined) =>
+(techStack ?? "").split(/[,/]/).map((name) => name.trim()).filter(Boolean);
+
+/**
+ * An answer's contribution to the summary, as plain numbers.
+ */
+export const summarizeAnswerProgress = (answer: AnswerProgress) => {
+  const day: DailyProgress = { answers: 1, ratingTotal: answer.rating };
+  if (answer.stressAnalysis) {
+    day.stressTotal = timeUnderStress(answer.stressAnalysis);
+    day.stressCount = 1;
+  }
+  if (answer.fluencyAnalysis?.averageWpm) {
+    day.wpmTotal = answer.fluencyAnalysis.averageWpm;
+    day.wpmCount = 1;
+  }
+
+  return {
+    day: dayKey(answer.timestamp),
+    progress: day,
+    techStacks: splitTechStack(answer.techStack).map((name) => ({ key: toKey(name), name })).filter(({ key }) => key),
+    weakTopics: answer.rating <= WEAK_RATING ?
+    extractWeakTopics(answer.feedback).map(toKey).filter(Boolean) :
+    []
+  };
+};
+
+export const loadProgress = async (userId: string): Promise<ProgressSummary | null> => {
+  const snap = await getDoc(doc(db, COLLECTION, userId));
+  return snap.exists() ? snap.data() as ProgressSummary : null;
+};
+
+/**
+ * Add a saved answer to the user's summary. Every field is incremented on
+ * the server, so concurrent saves from several tabs don't overwrite each other.
+ */
+export const recordAnswerProgress = (userId: string, answer: AnswerProgress) => {
+  const { day, progress, techStacks, weakTopics } = summarizeAnswerProgress(answer);
+
+  const dayUpdate = Object.fromEntries(
+    Object.entries(progress).map(([field, value]) => [field, increment(value)])
+  );
+
+  return setDoc(doc(db, COLLECTION, userId), {
+    userId,
+    days: { [day]: dayUpdate },
+    techStacks: Object.fromEntries(techStacks.map(({ key, name }) => [key, {
+      name,
+      answers: increment(1),
+      ratingTotal: increment(answer.rating)
+    }])),
+    weakTopics: Object.fromEntries(weakTopics.map((topic) => [topic, increment(1)])),
+    updatedAt: serverTimestamp()
+  }, { merge: true });
+};
+
+/**
+ * Build a summary from scratch, for answers saved before progress tracking.
+ */
+export const buildProgressSummary = (userId: string, answers: AnswerProgress[]): ProgressSummary => {
+  const summary: ProgressSummary = { userId, days: {}, techStacks: {}, weakTopics: {} };
+
+  answers.forEach((answer) => {
+    const { day, progress, techStacks, weakTopics } = summarizeAnswerProgress(answer);
+
+    const totals = summary.days[day] ?? { answers: 0, ratingTotal: 0 };
+    (Object.keys(progress) as Array<keyof DailyProgress>).forEach((field) => {
+      totals[field] = (totals[field] ?? 0) + (progress[field] ?? 0);
+    });
+    summary.days[day] = totals;
+
+    techStacks.forEach(({ key, name }) => {
+      const stack = summary.techStacks[key] ?? { name, answers: 0, ratingTotal: 0 };
+      summary.techStacks[key] = { name, answers: stack.answers + 1, ratingTotal: stack.ratingTotal + answer.rating };
+    });
+    weakTopics.forEach((topic) => {
+      summary.weakTopics[topic] = (summary.weakTopics[topic] ?? 0) + 1;
+    });
+  });
+
+  return summary;
+};
+
+export const needsProgressRebuild = (summary: ProgressSummary | null) =>
+(summary?.version ?? 0) < PROGRESS_VERSION;
+
+/**
+ * Reads every answer and interview of the user once and replaces the summary,
+ * unless another tab has already rebuilt it.
+ */
+export const rebuildProgress = async (userId: string): Promise<ProgressSummary> => {
+  const [answerSnap, interviewSnap] = await Promise.all([
+  getDocs(query(collection(db, "userAnswers"), where("userId", "==", userId))),
+  getDocs(query(collection(db, "interviews"), where("userId", "==", userId)))]
+  );
+
+  const techStacks = new Map(interviewSnap.docs.map((snap) => [snap.id, (snap.data() as Interview).techStack]));
+  const answers = answerSnap.docs.map((snap) => {
+    const answer = snap.data() as UserAnswer;
+    return {
+      rating: answer.rating,
+      feedback: answer.feedback,
+      techStack: techStacks.get(answer.mockIdRef),
+      stressAnalysis: answer.stressAnalysis,
+      fluencyAnalysis: answer.fluencyAnalysis,
+      timestamp: answer.createdAt?.toMillis?.() ?? Date.now()
+    };
+  });
+
+  const summary: ProgressSummary = { ...buildProgressSummary(userId, answers), version: PROGRESS_VERSION };
+  const ref = doc(db, COLLECTION, userId);
+  return runTransaction(db, async (transaction) => {
+    const current = await transaction.get(ref);
+    if (current.exists() && !needsProgressRebuild(current.data() as ProgressSummary)) {
+      return current.data() as ProgressSummary;
+    }
+    transaction.set(ref, { ...summary, updatedAt: serverTimestamp() });
+    return summary;
+  });
+};
+
+/**
+ * Total answers and average rating, computed by Firestore without
+ * downloading the answers.
+ */
+export const loadAnswerTotals = async (userId: string) => {
+  const snap = await getAggregateFromServer(
+    query(collection(db, "userAnswers"), where("userId", "==", userId)),
+    { answers: count(), averageRating: average("rating") }
+  );
+  const { answers, averageRating } = snap.data();
+  return { answers, averageRating: averageRating ?? 0 };
+};
+
+export interface TrendPoint {
+  /** Local midnight of the day, epoch ms. */
+  timestamp: number;
+  value: number;
+}
+
+export interface ProgressAnalytics {
+  answers: number;
+  practiceDays: number;
+  currentStreak: number;
+  longestStreak: number;
+  ratingTrend: TrendPoint[];
+  stressTrend: TrendPoint[];
+  wpmTrend: TrendPoint[];
+  techStacks: Array<{name: string;answers: number;averageRating: number;}>;
+  weakTopics: Array<{topic: string;count: number;}>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysBetween = (from: Date, to: Date) =>
+Math.round((Date.UTC(to.getFullYear(), to.getMonth(), to.getDate()) - Date.UTC(from.getFullYear(), from.getMonth(), from.getDate())) / DAY_MS);
+
+export const computeProgressAnalytics = (summary: ProgressSummary, today: Date = new Date()): ProgressAnalytics => {
+  const days = Object.keys(summary.days).sort().map((key) => ({ key, date: parseDayKey(key), ...summary.days[key] }));
+
+  let longestStreak = 0;
+  let streak = 0;
+  days.forEach((day, i) => {
+    streak = i > 0 && daysBetween(days[i - 1].date, day.date) === 1 ? streak + 1 : 1;
+    longestStreak = Math.max(longestStreak, streak);
+  });
+  // The current streak survives until the end of the day after the last practice
+  const last = days[days.length - 1];
+  const currentStreak = last && daysBetween(last.date, today) <= 1 ? streak : 0;
+
+  const trend = (value: (day: typeof days[number]) => number | null) =>
+  days.flatMap((day) => {
+    const point = value(day);
+    return point === null ? [] : [{ timestamp: day.date.getTime(), value: Math.round(point * 10) / 10 }];
+  });
+
+  // Topics seen once are noise, and a word already covered by a pair adds nothing
+  const topics = Object.entries(summary.weakTopics).
+  filter(([, total]) => total > 1).
+  sort((a, b) => b[1] - a[1] || b[0].split("-").length - a[0].split("-").length);
+  const weakTopics: ProgressAnalytics["weakTopics"] = [];
+  topics.forEach(([key, total]) => {
+    const topic = key.replace(/-/g, " ");
+    const covered = weakTopics.some((shown) => shown.count === total && shown.topic.split(" ").includes(topic));
+    if (!covered && weakTopics.length < 10) {
+      weakTopics.push({ topic, count: total });
+    }
+  });
+
+  return {
+    answers: days.reduce((total, day) => total + day.answers, 0),
+    practiceDays: days.length,
+    currentStreak,
+    longestStreak,
+    ratingTrend: trend((day) => day.answers > 0 ? day.ratingTotal / day.answers : null),
+    stressTrend: trend((day) => day.stressCount ? (day.stressTotal ?? 0) / day.stressCount : null),
+    wpmTrend: trend((day) => day.wpmCount ? (day.wpmTotal ?? 0) / day.wpmCount : null),
+    techStacks: Object.values(summary.techStacks).
+    map((stack) => ({
+      name: stack.name,
+      answers: stack.answers,
+      averageRating: Math.round(stack.ratingTotal / stack.answers * 10) / 10
+    })).
+    sort((a, b) => b.answers - a.answers),
+    weakTopics
+  };
+};
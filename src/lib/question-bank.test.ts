@@ -0,0 +1,101 @@
+import {
+  BankQuestion,
+  findDuplicates,
+  isNearDuplicate,
+  pickBankQuestions,
+  seniorityFor,
+  wordingSimilarity } from
+'./question-bank';
+
+jest.mock('@/config/firebase.config', () => ({ db: {} }));
+
+const entry = (id: string, question: string, overrides: Partial<BankQuestion> = {}): BankQuestion => ({
+  id,
+  question,
+  answer: 'An answer.',
+  tags: { topic: 'javascript', difficulty: 'medium', techStack: ['javascript'], seniority: 'mid' },
+  scope: 'user',
+  userId: 'user-1',
+  favoritedBy: [],
+  usageCount: 0,
+  ...overrides
+});
+
+describe('wordingSimilarity', () => {
+  test('should match rephrasings of the same question', () => {
+    expect(wordingSimilarity('What is a closure in JavaScript?', 'Explain closures in JavaScript.')).toBeCloseTo(1);
+    expect(wordingSimilarity('How does the event loop work in Node.js?', 'Explain the Node.js event loop.')).toBeGreaterThan(0.7);
+  });
+
+  test('should keep questions about different concepts apart', () => {
+    expect(isNearDuplicate('What is useEffect in React?', ['What is useMemo in React?'])).toBe(false);
+    expect(wordingSimilarity('What is a closure?', 'What is a?')).toBe(0);
+  });
+
+  test('should not match the same question asked in other words on wording alone', () => {
+    expect(isNearDuplicate('What is a closure in JavaScript?', ['How do inner functions keep their variables in JavaScript?'])).toBe(false);
+  });
+});
+
+describe('findDuplicates', () => {
+  const known = ['What is a closure in JavaScript?', 'What is useMemo in React?'];
+
+  test('should match near-duplicate wording without asking the judge', async () => {
+    const judge = jest.fn(() => Promise.resolve([]));
+
+    expect(await findDuplicates(['Explain closures in JavaScript.'], known, judge)).toEqual([0]);
+    expect(judge).not.toHaveBeenCalled();
+  });
+
+  test('should let the judge match the same question in other words', async () => {
+    const question = 'How do inner functions keep their variables in JavaScript?';
+    const judge = jest.fn(() => Promise.resolve([true]));
+
+    expect(await findDuplicates([question], known, judge)).toEqual([0]);
+    expect(judge).toHaveBeenCalledWith([{ question, candidate: known[0] }]);
+  });
+
+  test('should fall back to wording when the judge fails', async () => {
+    const judge = () => Promise.reject(new Error('quota'));
+
+    expect(await findDuplicates(['How do inner functions keep their variables in JavaScript?'], known, judge)).toEqual([-1]);
+  });
+});
+
+describe('seniorityFor', () => {
+  test('should bucket years of experience', () => {
+    expect([0, 2, 3, 5, 6].map(seniorityFor)).toEqual(['junior', 'junior', 'mid', 'mid', 'senior']);
+  });
+});
+
+describe('pickBankQuestions', () => {
+  const bank = [
+  entry('used', 'What is hoisting?', { usageCount: 4 }),
+  entry('fresh', 'What is a Promise?'),
+  entry('favorite', 'What is the prototype chain?', { favoritedBy: ['user-1'], usageCount: 9 }),
+  entry('repeat', 'Explain closures.')];
+
+
+  test('should put favorites first, then the least used questions', () => {
+    const picked = pickBankQuestions(bank, { userId: 'user-1', total: 5, fromBank: 3, exclude: ['What is a closure?'] });
+
+    expect(picked.map((item) => item.id)).toEqual(['favorite', 'fresh', 'used']);
+  });
+
+  test('should include favorites beyond the bank share but not beyond the interview', () => {
+    const picked = pickBankQuestions(bank, { userId: 'user-1', total: 2, fromBank: 0, exclude: ['Kept'] });
+
+    expect(picked.map((item) => item.id)).toEqual(['favorite']);
+    expect(pickBankQuestions(bank, { userId: 'user-1', total: 1, fromBank: 0, exclude: ['Kept'] })).toEqual([]);
+  });
+
+  test('should only fill open question types', () => {
+    const typed = [
+    entry('design', 'Design a URL shortener.', { tags: { ...bank[0].tags, type: 'system-design' } }),
+    ...bank];
+
+
+    const picked = pickBankQuestions(typed, { userId: 'user-1', total: 5, fromBank: 5, exclude: [], mix: ['system-design', 'coding-concept'] });
+    expect(picked.map((item) => item.id)).toEqual(['favorite', 'design']);
+  });
+});
@@ -0,0 +1,342 @@
+import {
+  arrayRemove,
+  arrayUnion,
+  collection,
+  doc,
+  getDocs,
+  increment,
+  limit,
+  query,
+  serverTimestamp,
+  updateDoc,
+  where,
+  writeBatch } from
+"firebase/firestore";
+import { db } from "@/config/firebase.config";
+import { InterviewQuestion, QuestionDifficulty, QuestionType } from "@/types";
+import { DEFAULT_QUESTION_TYPE } from "@/lib/question-types";
+
+/**
+ * Reusable interview questions.
+ *
+ * Every generated question that ends up in an interview is saved to the
+ * "questionBank" collection with tags, owned by the user who generated it.
+ * Users can share a question to the global bank, which everyone can draw
+ * from, and favorite questions they want in every interview for that stack.
+ *
+ * Duplicates are found in two steps. Questions are first compared locally as
+ * bags of content words and word pairs, with the phrasing ("What is",
+ * "Explain", "How does ... work") stripped, so "Explain closures in
+ * JavaScript" matches "What is a closure in JavaScript?" at no AI cost. That
+ * only catches near-duplicate wording, so `findDuplicates` then shortlists
+ * the closest bank questions by wording and lets a judge (the model, see
+ * "@/scripts/duplicates") decide whether they ask the same thing in other
+ * words, e.g. "How do inner functions keep their variables?".
+ */
+
+const COLLECTION = "questionBank";
+
+/** Cosine similarity of term vectors at or above which two questions are near duplicates. */
+export const NEAR_DUPLICATE_THRESHOLD = 0.7;
+
+// Known questions per new question that the judge is asked about
+const SHORTLIST_SIZE = 3;
+
+// Global questions per tech stack query
+const GLOBAL_LIMIT = 200;
+// Firestore allows at most 30 values in an array-contains-any filter
+const STACK_QUERY_SIZE = 30;
+
+export type Seniority = "junior" | "mid" | "senior";
+export type BankScope = "user" | "global";
+
+export interface QuestionTags {
+  topic: string;
+  /** Missing on entries saved before question types. */
+  type?: QuestionType;
+  difficulty: QuestionDifficulty;
+  /** Lowercased technologies. */
+  techStack: string[];
+  seniority: Seniority;
+}
+
+export interface BankQuestion {
+  id: string;
+  question: string;
+  answer: string;
+  tags: QuestionTags;
+  scope: BankScope;
+  /** The user who added it. */
+  userId: string;
+  favoritedBy: string[];
+  usageCount: number;
+}
+
+const PHRASING_WORDS = new Set([
+"a", "about", "an", "and", "are", "be", "between", "can", "could", "describe", "difference", "differences", "do",
+"does", "example", "explain", "for", "give", "how", "i", "in", "is", "it", "me", "of", "on", "or", "some", "tell",
+"the", "to", "use", "used", "using", "what", "when", "which", "why", "with", "work", "works", "would", "you",
+"your"]
+);
+
+const stem = (word: string) => {
+  if (word.length <= 3) return word;
+  if (word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+};
+
+/**
+ * The question as weighted terms: stemmed content words plus adjacent pairs.
+ */
+export const termVector = (text: string): Map<string, number> => {
+  const words = text.
+  toLowerCase().
+  split(/[^a-z0-9+#]+/).
+  filter((word) => word && !PHRASING_WORDS.has(word)).
+  map(stem);
+
+  const terms = new Map<string, number>();
+  const add = (term: string) => terms.set(term, (terms.get(term) ?? 0) + 1);
+  words.forEach((word, i) => {
+    add(word);
+    if (i > 0) add(`${words[i - 1]} ${word}`);
+  });
+  return terms;
+};
+
+/**
+ * Cosine similarity of the two questions' term vectors, from 0 to 1. Shared
+ * words, not shared meaning.
+ */
+export const wordingSimilarity = (a: string, b: string) => {
+  const left = termVector(a);
+  const right = termVector(b);
+  if (left.size === 0 || right.size === 0) return 0;
+
+  let dot = 0;
+  left.forEach((weight, term) => dot += weight * (right.get(term) ?? 0));
+  const norm = (vector: Map<string, number>) =>
+  Math.sqrt([...vector.values()].reduce((total, weight) => total + weight * weight, 0));
+  return dot / (norm(left) * norm(right));
+};
+
+export const isNearDuplicate = (question: string, others: string[], threshold = NEAR_DUPLICATE_THRESHOLD) =>
+others.some((other) => wordingSimilarity(question, other) >= threshold);
+
+/** For each pair, whether the two questions ask the same thing. */
+export type SameQuestionJudge = (pairs: Array<{question: string;candidate: string;}>) => Promise<boolean[]>;
+
+/**
+ * For each question, the index of the known question it duplicates, or -1.
+ * Near-duplicate wording matches locally. For the other questions, the known
+ * questions closest in wording go to the judge in a single request; if it
+ * fails, only the wording matches count.
+ */
+export const findDuplicates = async (
+questions: string[],
+known: string[],
+judge?: SameQuestionJudge)
+: Promise<number[]> => {
+  const ranked = questions.map((question) =>
+  known.
+  map((candidate, index) => ({ index, similarity: wordingSimilarity(question, candidate) })).
+  sort((a, b) => b.similarity - a.similarity)
+  );
+  const matches = ranked.map(([closest]) => closest?.similarity >= NEAR_DUPLICATE_THRESHOLD ? closest.index : -1);
+
+  const shortlist = judge ?
+  ranked.flatMap((candidates, question) => matches[question] >= 0 ? [] :
+  candidates.
+  slice(0, SHORTLIST_SIZE).
+  filter(({ similarity }) => similarity > 0).
+  map(({ index }) => ({ question, candidate: index }))
+  ) :
+  [];
+  if (!judge || shortlist.length === 0) return matches;
+
+  try {
+    const same = await judge(shortlist.map(({ question, candidate }) => ({
+      question: questions[question],
+      candidate: known[candidate]
+    })));
+    shortlist.forEach(({ question, candidate }, i) => {
+      if (same[i] && matches[question] < 0) matches[question] = candidate;
+    });
+  } catch (error) {
+    console.warn("Duplicate check failed, matching on wording only:", error);
+  }
+  return matches;
+};
+
+export const seniorityFor = (experience: number): Seniority =>
+experience <= 2 ? "junior" : experience <= 5 ? "mid" : "senior";
+
+export const techStackKeys = (techStack: string) =>
+techStack.split(/[,/]/).map((name) => name.trim().toLowerCase()).filter(Boolean);
+
+const matchesStack = (entry: BankQuestion, stack: string[]) =>
+entry.tags.techStack.some((name) => stack.includes(name));
+
+/**
+ * Whether the entry is one of the interview's question types, at its difficulty.
+ */
+export const fitsInterview = (entry: BankQuestion, types: QuestionType[], difficulty: QuestionDifficulty) =>
+types.includes(entry.tags.type ?? DEFAULT_QUESTION_TYPE) && entry.tags.difficulty === difficulty;
+
+interface PickOptions {
+  userId: string;
+  /** Questions in the interview. Favorites are picked up to this many. */
+  total: number;
+  /** Bank questions to pick, favorites included. Favorites may go over it. */
+  fromBank: number;
+  /** Questions already in the interview. */
+  exclude: string[];
+  /** Question types still open; each picked question takes one. */
+  mix?: QuestionType[];
+}
+
+/**
+ * Choose bank questions for an interview: the user's favorites first, then
+ * the least used ones, skipping near duplicates of a question already
+ * chosen or whose type has no open slot. Wording only: bank entries were
+ * checked for duplicates when they were saved.
+ */
+export const pickBankQuestions = (bank: BankQuestion[], { userId, total, fromBank, exclude, mix }: PickOptions) => {
+  const isFavorite = (entry: BankQuestion) => entry.favoritedBy.includes(userId);
+  const ordered = [...bank].sort((a, b) =>
+  Number(isFavorite(b)) - Number(isFavorite(a)) || a.usageCount - b.usageCount
+  );
+
+  const picked: BankQuestion[] = [];
+  const taken = [...exclude];
+  const open = mix ? [...mix] : null;
+  ordered.forEach((entry) => {
+    const slots = isFavorite(entry) ? total - exclude.length : Math.min(fromBank, total - exclude.length);
+    const slot = open ? open.indexOf(entry.tags.type ?? DEFAULT_QUESTION_TYPE) : 0;
+    if (picked.length >= slots || slot < 0 || isNearDuplicate(entry.question, taken)) return;
+    open?.splice(slot, 1);
+    picked.push(entry);
+    taken.push(entry.question);
+  });
+  return picked;
+};
+
+export const toInterviewQuestion = (entry: BankQuestion, userId: string): InterviewQuestion => ({
+  question: entry.question,
+  answer: entry.answer,
+  topic: entry.tags.topic,
+  type: entry.tags.type ?? DEFAULT_QUESTION_TYPE,
+  difficulty: entry.tags.difficulty,
+  bankId: entry.id,
+  locked: entry.favoritedBy.includes(userId)
+});
+
+/**
+ * The user's own questions and the global ones that share a technology with
+ * the interview's tech stack. Global questions are filtered by Firestore, so
+ * the limit only counts questions for this stack; the user's own are few
+ * enough to filter here.
+ */
+export const loadBankQuestions = async (userId: string, techStack: string): Promise<BankQuestion[]> => {
+  const stack = techStackKeys(techStack);
+  const batches = Array.from({ length: Math.ceil(stack.length / STACK_QUERY_SIZE) }, (_, i) =>
+  stack.slice(i * STACK_QUERY_SIZE, (i + 1) * STACK_QUERY_SIZE)
+  );
+
+  const [own, ...shared] = await Promise.all([
+  getDocs(query(collection(db, COLLECTION), where("userId", "==", userId))),
+  ...batches.map((batch) => getDocs(query(
+    collection(db, COLLECTION),
+    where("scope", "==", "global"),
+    where("tags.techStack", "array-contains-any", batch),
+    limit(GLOBAL_LIMIT)
+  )))]
+  );
+
+  const entries = new Map<string, BankQuestion>();
+  [own, ...shared].
+  flatMap((snap) => snap.docs).
+  forEach((snap) => entries.set(snap.id, { ...snap.data(), id: snap.id } as BankQuestion));
+
+  return [...entries.values()].filter((entry) => matchesStack(entry, stack));
+};
+
+interface SaveContext {
+  userId: string;
+  techStack: string;
+  experience: number;
+  /** Bank questions already known, to skip duplicates of. */
+  bank: BankQuestion[];
+  /** Catches duplicates worded differently; without it only near-duplicate wording counts. */
+  judge?: SameQuestionJudge;
+}
+
+/**
+ * Add questions that aren't in the bank yet. Returns the set with every
+ * question's `bankId` filled in, and the entries that were created.
+ * A duplicate of an existing entry is replaced by that entry's question
+ * and answer instead of being saved again, so usage, favorites and sharing
+ * apply to the question the user actually sees.
+ */
+export const saveToBank = async (
+questions: InterviewQuestion[],
+{ userId, techStack, experience, bank, judge }: SaveContext)
+: Promise<{questions: InterviewQuestion[];added: BankQuestion[];}> => {
+  const batch = writeBatch(db);
+  const known = bank.map(({ id, question, answer }) => ({ id, question, answer }));
+  const added: BankQuestion[] = [];
+
+  const unsaved = questions.filter((item) => !item.bankId);
+  const duplicates = await findDuplicates(unsaved.map((item) => item.question), bank.map((entry) => entry.question), judge);
+  const duplicateOf = new Map(unsaved.map((item, i) => [item, duplicates[i] >= 0 ? known[duplicates[i]] : undefined]));
+
+  const saved = questions.map((item) => {
+    if (item.bankId) return item;
+
+    // New questions in the same set are only compared by wording
+    const existing = duplicateOf.get(item) ??
+    known.slice(bank.length).find((entry) => wordingSimilarity(item.question, entry.question) >= NEAR_DUPLICATE_THRESHOLD);
+    if (existing) return { ...item, question: existing.question, answer: existing.answer, bankId: existing.id };
+
+    const ref = doc(collection(db, COLLECTION));
+    const { id, ...entry }: BankQuestion = {
+      id: ref.id,
+      question: item.question,
+      answer: item.answer,
+      tags: {
+        topic: item.topic ?? techStackKeys(techStack)[0] ?? "general",
+        type: item.type ?? DEFAULT_QUESTION_TYPE,
+        difficulty: item.difficulty ?? "medium",
+        techStack: techStackKeys(techStack),
+        seniority: seniorityFor(experience)
+      },
+      scope: "user",
+      userId,
+      favoritedBy: [],
+      usageCount: 0
+    };
+    batch.set(ref, { ...entry, createdAt: serverTimestamp() });
+    known.push({ id, question: item.question, answer: item.answer });
+    added.push({ id, ...entry });
+    return { ...item, bankId: id };
+  });
+
+  if (added.length > 0) await batch.commit();
+  return { questions: saved, added };
+};
+
+export const setBankFavorite = (id: string, userId: string, favorite: boolean) =>
+updateDoc(doc(db, COLLECTION, id), {
+  favoritedBy: favorite ? arrayUnion(userId) : arrayRemove(userId)
+});
+
+export const shareToGlobalBank = (id: string) =>
+updateDoc(doc(db, COLLECTION, id), { scope: "global", updatedAt: serverTimestamp() });
+
+export const recordBankUsage = async (ids: string[]) => {
+  if (ids.length === 0) return;
+  const batch = writeBatch(db);
+  ids.forEach((id) => batch.update(doc(db, COLLECTION, id), { usageCount: increment(1) }));
+  await batch.commit();
+};
@@ -0,0 +1,25 @@
+import { difficultyForExperience, planQuestionMix, remainingQuestionMix } from './question-types';
+
+describe('difficultyForExperience', () => {
+  test('should map years of experience to a level', () => {
+    expect([0, 1, 2, 4, 5, 12].map(difficultyForExperience)).toEqual(['easy', 'easy', 'medium', 'medium', 'hard', 'hard']);
+  });
+});
+
+describe('planQuestionMix', () => {
+  test('should spread questions evenly over the selected types', () => {
+    expect(planQuestionMix(['behavioral', 'system-design'], 5)).toEqual([
+    'behavioral', 'system-design', 'behavioral', 'system-design', 'behavioral']
+    );
+    expect(planQuestionMix([], 2)).toEqual(['coding-concept', 'coding-concept']);
+  });
+});
+
+describe('remainingQuestionMix', () => {
+  test('should leave the types not yet chosen', () => {
+    const plan = planQuestionMix(['behavioral', 'debugging'], 4);
+
+    expect(remainingQuestionMix(plan, ['debugging'])).toEqual(['behavioral', 'behavioral', 'debugging']);
+    expect(remainingQuestionMix(plan, ['culture-fit'])).toEqual(['behavioral', 'debugging', 'behavioral']);
+  });
+});
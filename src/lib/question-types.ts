@@ -0,0 +1,78 @@
+import { QuestionDifficulty, QuestionType } from "@/types";
+
+/**
+ * The kinds of questions an interview can mix, and the difficulty levels
+ * they are pitched at. The descriptions go into the generation prompts.
+ */
+
+export const QUESTION_TYPES = [
+"behavioral",
+"system-design",
+"coding-concept",
+"debugging",
+"culture-fit"] as
+const satisfies readonly QuestionType[];
+
+export const DIFFICULTIES = ["easy", "medium", "hard"] as const satisfies readonly QuestionDifficulty[];
+
+/** Questions saved before types existed were all technical concept questions. */
+export const DEFAULT_QUESTION_TYPE: QuestionType = "coding-concept";
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  behavioral: "Behavioral (STAR)",
+  "system-design": "System Design",
+  "coding-concept": "Coding Concept",
+  debugging: "Debugging Scenario",
+  "culture-fit": "Culture Fit"
+};
+
+export const QUESTION_TYPE_GUIDANCE: Record<QuestionType, string> = {
+  behavioral:
+  "asks about a real past situation; the answer should follow the STAR structure (Situation, Task, Action, Result)",
+  "system-design":
+  "asks the candidate to design or scale a system; the answer covers components, data flow, trade-offs and bottlenecks",
+  "coding-concept":
+  "tests understanding of a language, framework or computer science concept; the answer explains it with an example",
+  debugging:
+  "describes a concrete bug, failure or performance problem; the answer walks through diagnosing and fixing it",
+  "culture-fit":
+  "explores how the candidate works with others, handles feedback and what they value; the answer is honest and specific"
+};
+
+export const DIFFICULTY_GUIDANCE: Record<QuestionDifficulty, string> = {
+  easy: "entry level: fundamentals and everyday usage",
+  medium: "mid level: trade-offs, common pitfalls and working knowledge of the internals",
+  hard: "senior level: architecture, edge cases at scale, and leading decisions"
+};
+
+export const difficultyForExperience = (experience: number): QuestionDifficulty =>
+experience < 2 ? "easy" : experience < 5 ? "medium" : "hard";
+
+/**
+ * The type of each of `count` questions, spreading them as evenly as
+ * possible over the selected types, in the order they were selected.
+ */
+export const planQuestionMix = (types: readonly QuestionType[], count: number): QuestionType[] => {
+  const selected = types.length > 0 ? types : [DEFAULT_QUESTION_TYPE];
+  return Array.from({ length: count }, (_, i) => selected[i % selected.length]);
+};
+
+export const countQuestionTypes = (types: readonly QuestionType[]) =>
+types.reduce<Partial<Record<QuestionType, number>>>((counts, type) => {
+  counts[type] = (counts[type] ?? 0) + 1;
+  return counts;
+}, {});
+
+/**
+ * What is left of the planned mix once `chosen` questions are in, so the
+ * generator only writes the types still missing.
+ */
+export const remainingQuestionMix = (plan: readonly QuestionType[], chosen: readonly QuestionType[]) => {
+  const remaining = [...plan];
+  chosen.forEach((type) => {
+    const index = remaining.indexOf(type);
+    // A chosen question outside the plan takes the place of the last planned one
+    remaining.splice(index >= 0 ? index : remaining.length - 1, 1);
+  });
+  return remaining;
+};
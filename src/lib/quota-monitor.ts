@@ -7,6 +7,7 @@ interface QuotaUsage {
   operation: string;
   tokensUsed: number;
   model: string;
+  historyMessages?: number;
 }
 
 class QuotaMonitor {
@@ -20,20 +21,22 @@ class QuotaMonitor {
   }
 
   /**
-   * Record API usage
+   * Record API usage. `historyMessages` is the number of earlier messages
+   * sent along with the prompt (0 for stateless requests).
    */
-  recordUsage(operation: string, tokensUsed: number, model: string) {
+  recordUsage(operation: string, tokensUsed: number, model: string, historyMessages: number = 0) {
     const entry: QuotaUsage = {
       timestamp: Date.now(),
       operation,
       tokensUsed,
-      model
+      model,
+      historyMessages
     };
 
     this.usage.push(entry);
     this.saveUsageToStorage();
     
-    console.log(`[Quota Monitor] ${operation}: ${tokensUsed} tokens (${model})`);
+    console.log(`[Quota Monitor] ${operation}: ${tokensUsed} tokens (${model}, ${historyMessages} history messages)`);
   }
 
   /**
@@ -44,6 +47,8 @@ class QuotaMonitor {
     operationCount: number;
     byOperation: Record<string, number>;
     byModel: Record<string, number>;
+    averageHistoryMessages: number;
+    maxHistoryMessages: number;
   } {
     const oneDayAgo = Date.now() - (24 * 60 * 60 * 1000);
     const recentUsage = this.usage.filter(entry => entry.timestamp > oneDayAgo);
@@ -51,9 +56,13 @@ class QuotaMonitor {
     const byOperation: Record<string, number> = {};
     const byModel: Record<string, number> = {};
     let totalTokens = 0;
+    let totalHistory = 0;
+    let maxHistoryMessages = 0;
 
     recentUsage.forEach(entry => {
       totalTokens += entry.tokensUsed;
+      totalHistory += entry.historyMessages || 0;
+      maxHistoryMessages = Math.max(maxHistoryMessages, entry.historyMessages || 0);
       byOperation[entry.operation] = (byOperation[entry.operation] || 0) + entry.tokensUsed;
       byModel[entry.model] = (byModel[entry.model] || 0) + entry.tokensUsed;
     });
@@ -62,7 +71,11 @@ class QuotaMonitor {
       totalTokens,
       operationCount: recentUsage.length,
       byOperation,
-      byModel
+      byModel,
+      averageHistoryMessages: recentUsage.length > 0 ?
+      Math.round(totalHistory / recentUsage.length * 10) / 10 :
+      0,
+      maxHistoryMessages
     };
   }
 
@@ -123,6 +136,7 @@ class QuotaMonitor {
 === Gemini API Usage Report ===
 Daily Usage: ${daily.totalTokens} tokens (${daily.operationCount} requests)
 Hourly Usage: ${hourly} tokens
+History Size: ${daily.averageHistoryMessages} messages avg, ${daily.maxHistoryMessages} max
 
 Operations (24h):
 ${Object.entries(daily.byOperation)
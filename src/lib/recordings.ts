@@ -0,0 +1,186 @@
+import { EmotionAnalysis, StressAnalysis } from '@/types';
+import type { TranscriptSegment } from '@/lib/analysis/fluency';
+import { downloadBlob } from '@/lib/utils';
+
+/**
+ * Opt-in local recording of answers.
+ *
+ * The answer video/audio is captured with MediaRecorder and stored in
+ * IndexedDB together with the transcript segments and the emotion and stress
+ * timelines, so the feedback page can play it back with the analysis aligned.
+ * Recordings never leave the device unless the user exports them.
+ */
+
+const DB_NAME = 'interview-recordings';
+const DB_VERSION = 1;
+const STORE = 'recordings';
+const PREFERENCE_KEY = 'record_answers_locally';
+
+export interface SessionRecording {
+  id: string;
+  interviewId: string;
+  /** Id of the saved `userAnswers` doc this recording belongs to. */
+  answerId: string;
+  question: string;
+  createdAt: number;
+  /** Epoch ms when recording started; timeline timestamps are epoch ms too. */
+  startTime: number;
+  /** Length in ms. */
+  duration: number;
+  mimeType: string;
+  video: Blob;
+  transcript: TranscriptSegment[];
+  emotionTimeline: EmotionAnalysis['timeline'];
+  stressTimeline: StressAnalysis['timeline'];
+}
+
+export const isLocalRecordingSupported = () =>
+typeof window !== 'undefined' && 'indexedDB' in window && 'MediaRecorder' in window;
+
+export const getRecordingPreference = (): boolean => {
+  try {
+    return localStorage.getItem(PREFERENCE_KEY) === 'true';
+  } catch (error) {
+    console.warn('[Recordings] Failed to read recording preference:', error);
+    return false;
+  }
+};
+
+export const setRecordingPreference = (enabled: boolean) => {
+  try {
+    localStorage.setItem(PREFERENCE_KEY, String(enabled));
+  } catch (error) {
+    console.warn('[Recordings] Failed to save recording preference:', error);
+  }
+};
+
+const openDatabase = (): Promise<IDBDatabase> =>
+new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+  request.onupgradeneeded = () => {
+    const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+    store.createIndex('interviewId', 'interviewId');
+    store.createIndex('answerId', 'answerId');
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const withStore = async <T,>(
+mode: IDBTransactionMode,
+run: (store: IDBObjectStore) => IDBRequest<T>)
+: Promise<T> => {
+  const db = await openDatabase();
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE, mode);
+      const request = run(transaction.objectStore(STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const saveRecording = async (recording: Omit<SessionRecording, 'id' | 'createdAt'>) => {
+  const saved: SessionRecording = {
+    ...recording,
+    id: `${recording.answerId}-${Date.now()}`,
+    createdAt: Date.now()
+  };
+  await withStore('readwrite', (store) => store.put(saved));
+  return saved;
+};
+
+/**
+ * Latest recording for a saved answer, or null if the answer wasn't recorded
+ * on this device.
+ */
+export const getRecordingForAnswer = async (answerId: string): Promise<SessionRecording | null> => {
+  const recordings = await withStore<SessionRecording[]>('readonly', (store) =>
+  store.index('answerId').getAll(answerId)
+  );
+  return recordings.sort((a, b) => b.createdAt - a.createdAt)[0] ?? null;
+};
+
+export const getRecordingsForInterview = (interviewId: string) =>
+withStore<SessionRecording[]>('readonly', (store) => store.index('interviewId').getAll(interviewId));
+
+export const deleteRecording = (id: string) =>
+withStore('readwrite', (store) => store.delete(id));
+
+/**
+ * Download the recording and its analysis as two files. This is the only
+ * way a recording leaves the device.
+ */
+export const exportRecording = (recording: SessionRecording) => {
+  const extension = recording.mimeType.includes('mp4') ? 'mp4' : 'webm';
+  const analysis = { ...recording, video: undefined };
+
+  downloadBlob(recording.video, `answer-${recording.answerId}.${extension}`);
+  downloadBlob(
+    new Blob([JSON.stringify(analysis, null, 2)], { type: 'application/json' }),
+    `answer-${recording.answerId}.json`
+  );
+};
+
+const PREFERRED_MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm', 'video/mp4'];
+
+/**
+ * Records one answer from a media stream with MediaRecorder.
+ */
+export class SessionRecorder {
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private startTime: number = 0;
+
+  get isRecording() {
+    return this.recorder?.state === 'recording';
+  }
+
+  start(stream: MediaStream) {
+    if (this.isRecording) return;
+
+    const mimeType = PREFERRED_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+    this.recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+    this.chunks = chunks;
+    this.recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        chunks.push(event.data);
+      }
+    };
+    this.startTime = Date.now();
+    this.recorder.start(1000);
+  }
+
+  /**
+   * Stop recording and resolve with the captured media, or null if nothing
+   * was being recorded.
+   */
+  stop(): Promise<{video: Blob;mimeType: string;startTime: number;duration: number;} | null> {
+    const recorder = this.recorder;
+    const chunks = this.chunks;
+    this.recorder = null;
+    if (!recorder || recorder.state === 'inactive') {
+      return Promise.resolve(null);
+    }
+
+    return new Promise((resolve) => {
+      recorder.onstop = () => {
+        const mimeType = recorder.mimeType || 'video/webm';
+        resolve({
+          video: new Blob(chunks, { type: mimeType }),
+          mimeType,
+          startTime: this.startTime,
+          duration: Date.now() - this.startTime
+        });
+      };
+      recorder.stop();
+    });
+  }
+}
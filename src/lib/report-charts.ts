@@ -0,0 +1,153 @@
+/**
+ * Small self-contained SVG charts for exported reports. They are plain
+ * strings, so the same markup can go into the printable HTML report and,
+ * as a data URI, into the Markdown one.
+ *
+ * Every string that reaches the markup (titles, labels, colors) goes through
+ * `escapeXml` and everything else is a number, so the renderers' output is
+ * safe to inject into a page as is.
+ */
+
+export interface ChartPoint {
+  /** Epoch ms; the chart's x axis starts at the first point. */
+  timestamp: number;
+  value: number;
+}
+
+export interface ChartOptions {
+  title: string;
+  color: string;
+  min: number;
+  max: number;
+  /** Value suffix on the axis labels, e.g. "%" or " Hz". */
+  unit?: string;
+  /** Labels for specific values instead of numeric ones, for categorical series. */
+  ticks?: Array<{value: number;label: string;}>;
+  /** Draw horizontal steps between points instead of slopes. */
+  step?: boolean;
+  /** Label for the x axis ends. Defaults to seconds since the first point. */
+  formatTime?: (timestamp: number, start: number) => string;
+}
+
+const WIDTH = 560;
+const HEIGHT = 160;
+const PADDING = { top: 28, right: 16, bottom: 24, left: 72 };
+
+export const escapeXml = (text: string) =>
+text.
+replace(/&/g, '&amp;').
+replace(/</g, '&lt;').
+replace(/>/g, '&gt;').
+replace(/"/g, '&quot;').
+replace(/'/g, '&#39;');
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const formatSeconds = (timestamp: number, start: number) => `${Math.round((timestamp - start) / 1000)}s`;
+
+/**
+ * A line chart of a timeline. Returns null when there are fewer than two
+ * points to draw.
+ */
+export const renderTimelineChart = (points: ChartPoint[], options: ChartOptions): string | null => {
+  if (points.length < 2) return null;
+
+  const { title, color, min, max, unit = '', ticks, step = false, formatTime = formatSeconds } = options;
+  const start = points[0].timestamp;
+  const duration = Math.max(1, points[points.length - 1].timestamp - start);
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const range = max - min || 1;
+
+  const x = (timestamp: number) => round(PADDING.left + (timestamp - start) / duration * plotWidth);
+  const y = (value: number) =>
+  round(PADDING.top + (1 - (Math.min(max, Math.max(min, value)) - min) / range) * plotHeight);
+
+  const path = points.map((point, i) => {
+    const command = i === 0 ? 'M' : 'L';
+    if (step && i > 0) {
+      return `H${x(point.timestamp)} V${y(point.value)}`;
+    }
+    return `${command}${x(point.timestamp)} ${y(point.value)}`;
+  }).join(' ');
+
+  const axisTicks = ticks ?? [
+  { value: min, label: `${min}${unit}` },
+  { value: max, label: `${max}${unit}` }];
+
+  const tickMarkup = axisTicks.map((tick) =>
+  `<line x1="${PADDING.left}" x2="${WIDTH - PADDING.right}" y1="${y(tick.value)}" y2="${y(tick.value)}" stroke="#e5e7eb" />` +
+  `<text x="${PADDING.left - 6}" y="${y(tick.value) + 4}" text-anchor="end" font-size="10" fill="#6b7280">${escapeXml(tick.label)}</text>`
+  ).join('');
+
+  return [
+  `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${WIDTH} ${HEIGHT}" width="${WIDTH}" height="${HEIGHT}" font-family="sans-serif">`,
+  `<rect width="${WIDTH}" height="${HEIGHT}" fill="#ffffff" />`,
+  `<text x="${PADDING.left}" y="16" font-size="12" font-weight="bold" fill="#111827">${escapeXml(title)}</text>`,
+  tickMarkup,
+  `<path d="${path}" fill="none" stroke="${escapeXml(color)}" stroke-width="2" stroke-linejoin="round" />`,
+  `<text x="${PADDING.left}" y="${HEIGHT - 6}" font-size="10" fill="#6b7280">${escapeXml(formatTime(start, start))}</text>`,
+  `<text x="${WIDTH - PADDING.right}" y="${HEIGHT - 6}" text-anchor="end" font-size="10" fill="#6b7280">${escapeXml(formatTime(start + duration, start))}</text>`,
+  '</svg>'].
+  join('');
+};
+
+/**
+ * The chart as a data URI, for Markdown image links.
+ */
+export const svgDataUri = (svg: string) => {
+  const bytes = new TextEncoder().encode(svg);
+  let binary = '';
+  bytes.forEach((byte) => binary += String.fromCharCode(byte));
+  return `data:image/svg+xml;base64,${btoa(binary)}`;
+};
+
+export interface RadarAxis {
+  label: string;
+  value: number;
+}
+
+const RADAR_WIDTH = 460;
+const RADAR_HEIGHT = 300;
+const RADAR_RADIUS = 100;
+const RADAR_RINGS = 4;
+
+/**
+ * A radar chart of scores on a shared 0-`max` scale, one spoke per axis
+ * starting at the top. Returns null for fewer than three axes.
+ */
+export const renderRadarChart = (axes: RadarAxis[], { color, max }: {color: string;max: number;}): string | null => {
+  if (axes.length < 3) return null;
+
+  const center = RADAR_WIDTH / 2;
+  const middle = RADAR_HEIGHT / 2;
+  const point = (i: number, radius: number) => {
+    const angle = -Math.PI / 2 + i / axes.length * 2 * Math.PI;
+    return [round(center + Math.cos(angle) * radius), round(middle + Math.sin(angle) * radius)];
+  };
+  const polygon = (radius: (i: number) => number) =>
+  axes.map((_, i) => point(i, radius(i)).join(',')).join(' ');
+
+  const rings = Array.from({ length: RADAR_RINGS }, (_, ring) =>
+  `<polygon points="${polygon(() => RADAR_RADIUS * (ring + 1) / RADAR_RINGS)}" fill="none" stroke="#e5e7eb" />`
+  ).join('');
+
+  const spokes = axes.map((axis, i) => {
+    const [x, y] = point(i, RADAR_RADIUS);
+    const [labelX, labelY] = point(i, RADAR_RADIUS + 18);
+    const anchor = Math.abs(labelX - center) < 1 ? 'middle' : labelX > center ? 'start' : 'end';
+    return `<line x1="${center}" y1="${middle}" x2="${x}" y2="${y}" stroke="#e5e7eb" />` +
+    `<text x="${labelX}" y="${labelY + 4}" text-anchor="${anchor}" font-size="11" fill="#374151">${escapeXml(`${axis.label} (${axis.value})`)}</text>`;
+  }).join('');
+
+  const values = polygon((i) => RADAR_RADIUS * Math.min(max, Math.max(0, axes[i].value)) / max);
+
+  return [
+  `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${RADAR_WIDTH} ${RADAR_HEIGHT}" width="${RADAR_WIDTH}" height="${RADAR_HEIGHT}" font-family="sans-serif">`,
+  `<rect width="${RADAR_WIDTH}" height="${RADAR_HEIGHT}" fill="#ffffff" />`,
+  rings,
+  spokes,
+  `<polygon points="${values}" fill="${escapeXml(color)}" fill-opacity="0.25" stroke="${escapeXml(color)}" stroke-width="2" />`,
+  '</svg>'].
+  join('');
+};
@@ -0,0 +1,130 @@
+import { Timestamp } from 'firebase/firestore';
+import { Interview, UserAnswer } from '@/types';
+import { buildImprovementPlan, orderAnswers, renderReportHtml, renderReportMarkdown } from './report';
+import { renderTimelineChart } from './report-charts';
+
+const createdAt = { toDate: () => new Date(2024, 4, 1) } as unknown as Timestamp;
+
+const interview: Interview = {
+  id: 'interview-1',
+  position: 'Frontend <Engineer>',
+  description: 'Build UIs',
+  experience: 3,
+  userId: 'user-1',
+  techStack: 'React, TypeScript',
+  numberOfQuestions: 2,
+  questions: [],
+  createdAt,
+  updateAt: createdAt
+};
+
+const answer = (overrides: Partial<UserAnswer>): UserAnswer => ({
+  id: overrides.question ?? 'answer',
+  mockIdRef: interview.id,
+  question: 'What is a closure?',
+  correct_ans: 'A function bundled with its lexical scope.',
+  user_ans: 'A function that remembers variables.',
+  feedback: 'Mention lexical scope.',
+  rating: 6,
+  userId: 'user-1',
+  createdAt,
+  updateAt: createdAt,
+  ...overrides
+});
+
+const stressTimeline = (stressed: number, total: number) =>
+Array.from({ length: total }, (_, i) => ({ stress: i < stressed, confidence: i < stressed ? 0.8 : 0.2, timestamp: i * 1000 }));
+
+describe('orderAnswers', () => {
+  test('should place follow-ups after the answer they follow up on', () => {
+    const answers = [
+    answer({ question: 'Follow-up', parentQuestion: 'First', followUpDepth: 1 }),
+    answer({ question: 'Second' }),
+    answer({ question: 'First' })];
+
+
+    expect(orderAnswers(answers).map((item) => item.question)).toEqual(['Second', 'First', 'Follow-up']);
+  });
+});
+
+describe('buildImprovementPlan', () => {
+  test('should put the most important areas first', () => {
+    const plan = buildImprovementPlan([
+    answer({
+      question: 'First',
+      rating: 4,
+      stressAnalysis: { stress: true, confidence: 0.8, features: [], timeline: stressTimeline(4, 10), feedback: '' }
+    }),
+    answer({
+      question: 'Second',
+      rating: 5,
+      eyeContactAnalysis: {
+        eyeContactPercentage: 80,
+        lookAwayEvents: [],
+        readingDetected: true,
+        readingPercentage: 40,
+        timeline: [],
+        feedback: ''
+      }
+    })]
+    );
+
+    expect(plan.map((item) => [item.area, item.priority])).toEqual([
+    ['Answer content', 'high'],
+    ['Reading from the screen', 'high'],
+    ['Composure', 'medium']]
+    );
+    expect(plan[0].detail).toContain('"First" (4/10)');
+  });
+
+  test('should have nothing to add for strong answers', () => {
+    expect(buildImprovementPlan([answer({ rating: 9 })])).toEqual([]);
+  });
+});
+
+describe('renderTimelineChart', () => {
+  test('should need at least two points', () => {
+    expect(renderTimelineChart([{ timestamp: 0, value: 1 }], { title: 'Stress', color: '#000', min: 0, max: 1 })).toBeNull();
+  });
+
+  test('should span the timeline from its first point', () => {
+    const svg = renderTimelineChart(
+      [{ timestamp: 5000, value: 0 }, { timestamp: 15000, value: 100 }],
+      { title: 'Eye contact', color: '#0284c7', min: 0, max: 100, unit: '%' }
+    )!;
+
+    expect(svg).toContain('<svg');
+    expect(svg).toContain('M72 136 L544 28');
+    expect(svg).toContain('>10s</text>');
+    expect(svg).toContain('>100%</text>');
+  });
+});
+
+describe('report rendering', () => {
+  const answers = [
+  answer({
+    question: 'First',
+    rating: 8,
+    stressAnalysis: { stress: false, confidence: 0.2, features: [], timeline: stressTimeline(1, 10), feedback: 'Calm.' }
+  })];
+
+
+  test('should render Markdown with answers, plan and charts', () => {
+    const markdown = renderReportMarkdown(interview, answers);
+
+    expect(markdown).toContain('# Interview Report: Frontend <Engineer>');
+    expect(markdown).toContain('- **Overall rating:** 8.0 / 10 across 1 answers');
+    expect(markdown).toContain('### Question 1: First');
+    expect(markdown).toContain('> A function that remembers variables.');
+    expect(markdown).toContain('- **Stress:** Under stress 10% of the time. Calm.');
+    expect(markdown).toContain('![Stress](data:image/svg+xml;base64,');
+  });
+
+  test('should escape user content in the printable report', () => {
+    const html = renderReportHtml(interview, [answer({ user_ans: '<script>alert(1)</script>' })]);
+
+    expect(html).toContain('Frontend &lt;Engineer&gt;');
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).not.toContain('<script>');
+  });
+});
@@ -0,0 +1,494 @@
+import { Interview, UserAnswer } from '@/types';
+import { downloadBlob } from '@/lib/utils';
+import { RUBRIC_LABELS } from './rubrics';
+import { describePacing, formatClock, summarizePacing } from './timing';
+import { escapeXml, renderRadarChart, renderTimelineChart, svgDataUri } from './report-charts';
+
+/**
+ * Shareable interview reports.
+ *
+ * The same report (position, every answer with its rating, feedback and
+ * analysis summaries, timeline charts and an improvement plan) is rendered
+ * as Markdown for download and as standalone HTML that the browser prints to
+ * PDF. The improvement plan is derived from the stored analysis, so the
+ * export works offline and costs no AI quota.
+ */
+
+export type ImprovementPriority = 'high' | 'medium' | 'low';
+
+export interface ImprovementItem {
+  area: string;
+  priority: ImprovementPriority;
+  detail: string;
+}
+
+export interface ReportChart {
+  title: string;
+  svg: string;
+}
+
+const PRIORITY_ORDER: Record<ImprovementPriority, number> = { high: 0, medium: 1, low: 2 };
+
+const EMOTIONS = ['sadness', 'anger', 'frustration', 'neutral', 'surprise', 'happiness'];
+
+/**
+ * Answers in interview order, each follow-up placed directly after the
+ * answer it follows up on.
+ */
+export const orderAnswers = (answers: UserAnswer[]): UserAnswer[] => {
+  const withFollowUps = (answer: UserAnswer): UserAnswer[] => [
+  answer,
+  ...answers.
+  filter((child) => child.parentQuestion === answer.question).
+  flatMap(withFollowUps)];
+
+
+  return answers.
+  filter((answer) => !answer.parentQuestion || !answers.some((parent) => parent.question === answer.parentQuestion)).
+  flatMap(withFollowUps);
+};
+
+export const averageRating = (answers: UserAnswer[]) =>
+answers.length > 0 ? answers.reduce((total, answer) => total + answer.rating, 0) / answers.length : 0;
+
+const average = (values: number[]) =>
+values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : null;
+
+/** Share of the stress timeline flagged as stressed, 0-100. */
+export const timeUnderStress = (stress: NonNullable<UserAnswer['stressAnalysis']>) =>
+stress.timeline.length > 0 ?
+Math.round(stress.timeline.filter((entry) => entry.stress).length / stress.timeline.length * 100) :
+0;
+
+/**
+ * What to work on next, most important first, from the ratings and
+ * analysis across every answer.
+ */
+export const buildImprovementPlan = (answers: UserAnswer[]): ImprovementItem[] => {
+  const plan: ImprovementItem[] = [];
+  if (answers.length === 0) return plan;
+
+  const rating = averageRating(answers);
+  if (rating < 7) {
+    const weakest = [...answers].
+    sort((a, b) => a.rating - b.rating).
+    slice(0, 3).
+    map((answer) => `"${answer.question}" (${answer.rating}/10)`);
+    plan.push({
+      area: 'Answer content',
+      priority: rating < 5 ? 'high' : 'medium',
+      detail: `Average rating ${rating.toFixed(1)}/10. Compare your answers with the ideal answers, starting with ${weakest.join(', ')}.`
+    });
+  }
+
+  const stress = average(answers.flatMap((answer) => answer.stressAnalysis ? [timeUnderStress(answer.stressAnalysis)] : []));
+  if (stress !== null && stress >= 30) {
+    plan.push({
+      area: 'Composure',
+      priority: stress >= 60 ? 'high' : 'medium',
+      detail: `You showed signs of stress for ${Math.round(stress)}% of your answers. Practice answering out loud under time pressure and pause to breathe before answering.`
+    });
+  }
+
+  const eyeContact = average(answers.flatMap((answer) => answer.eyeContactAnalysis ? [answer.eyeContactAnalysis.eyeContactPercentage] : []));
+  const reading = answers.filter((answer) => answer.eyeContactAnalysis?.readingDetected).length;
+  if (reading > 0) {
+    plan.push({
+      area: 'Reading from the screen',
+      priority: 'high',
+      detail: `${reading} of your answers looked read from the screen. Use short bullet notes at most and speak to the camera.`
+    });
+  }
+  if (eyeContact !== null && eyeContact < 60) {
+    plan.push({
+      area: 'Eye contact',
+      priority: eyeContact < 40 ? 'high' : 'medium',
+      detail: `You faced the camera ${Math.round(eyeContact)}% of the time. Keep the camera at eye level and look at it while making key points.`
+    });
+  }
+
+  const fillerRate = average(answers.flatMap((answer) => answer.fluencyAnalysis ? [answer.fluencyAnalysis.fillerRate] : []));
+  if (fillerRate !== null && fillerRate >= 3) {
+    plan.push({
+      area: 'Filler words',
+      priority: fillerRate >= 6 ? 'high' : 'medium',
+      detail: `${fillerRate.toFixed(1)} filler words per 100 words. Replace "um" and "like" with a short silent pause.`
+    });
+  }
+
+  const wpm = average(answers.flatMap((answer) => answer.fluencyAnalysis?.averageWpm ? [answer.fluencyAnalysis.averageWpm] : []));
+  if (wpm !== null && (wpm < 110 || wpm > 170)) {
+    plan.push({
+      area: 'Speaking pace',
+      priority: 'medium',
+      detail: wpm > 170 ?
+      `You spoke at ${Math.round(wpm)} words per minute. Slow down to around 130-150 so key points land.` :
+      `You spoke at ${Math.round(wpm)} words per minute. Structure answers before starting so you can keep a steadier pace.`
+    });
+  }
+
+  const pacing = summarizePacing(answers);
+  if (pacing && pacing.timedOut > 0) {
+    plan.push({
+      area: 'Time management',
+      priority: pacing.timedOut >= pacing.timedAnswers / 2 ? 'high' : 'medium',
+      detail: `${pacing.timedOut} of ${pacing.timedAnswers} timed answers ran out of time. Open with a one-sentence answer, then add detail while the clock allows.`
+    });
+  } else if (pacing && pacing.averageShare < 0.25) {
+    plan.push({
+      area: 'Time management',
+      priority: 'low',
+      detail: `Your answers used ${Math.round(pacing.averageShare * 100)}% of the time available on average. Use the time for an example or a trade-off.`
+    });
+  }
+
+  const monotone = answers.filter((answer) => answer.toneAnalysis?.monotone).length;
+  if (monotone > 0 && monotone >= answers.length / 2) {
+    plan.push({
+      area: 'Vocal variety',
+      priority: 'low',
+      detail: 'Your pitch stayed flat in most answers. Stress important words and vary your intonation.'
+    });
+  }
+
+  const poorPosture = answers.filter((answer) => answer.gestureAnalysis?.posture === 'poor').length;
+  const excessiveHands = answers.filter((answer) => answer.gestureAnalysis?.handMovements === 'excessive').length;
+  if (poorPosture > 0 && poorPosture >= answers.length / 2 || excessiveHands > 0 && excessiveHands >= answers.length / 2) {
+    plan.push({
+      area: 'Body language',
+      priority: 'low',
+      detail: [
+      poorPosture >= answers.length / 2 ? 'Sit upright with level shoulders.' : '',
+      excessiveHands >= answers.length / 2 ? 'Keep hand movements purposeful and within the frame.' : ''].
+      filter(Boolean).join(' ')
+    });
+  }
+
+  return plan.sort((a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority]);
+};
+
+/**
+ * One-line summaries of each analysis stored on the answer.
+ */
+export const summarizeAnalyses = (answer: UserAnswer): Array<{label: string;summary: string;}> => {
+  const summaries: Array<{label: string;summary: string;}> = [];
+  const { toneAnalysis, emotionAnalysis, gestureAnalysis, stressAnalysis, fluencyAnalysis, eyeContactAnalysis, timing } = answer;
+
+  if (toneAnalysis) {
+    const pitch = toneAnalysis.pitchHz ? `, median pitch ${toneAnalysis.pitchHz} Hz` : '';
+    const monotone = toneAnalysis.monotone ? ', monotone' : '';
+    summaries.push({
+      label: 'Tone',
+      summary: `Sounded ${toneAnalysis.confidence}${pitch}${monotone}. ${toneAnalysis.feedback}`
+    });
+  }
+  if (emotionAnalysis) {
+    summaries.push({
+      label: 'Emotion',
+      summary: `Mostly ${emotionAnalysis.primary} (${emotionAnalysis.intensity}%). ${emotionAnalysis.feedback}`
+    });
+  }
+  if (gestureAnalysis) {
+    summaries.push({
+      label: 'Body language',
+      summary: `Posture ${gestureAnalysis.posture}, ${gestureAnalysis.handMovements} hand movement, ${gestureAnalysis.bodyLanguage} body language. ${gestureAnalysis.feedback}`
+    });
+  }
+  if (stressAnalysis) {
+    const cues = stressAnalysis.features.length > 0 ? ` (${stressAnalysis.features.join(', ')})` : '';
+    summaries.push({
+      label: 'Stress',
+      summary: `Under stress ${timeUnderStress(stressAnalysis)}% of the time${cues}. ${stressAnalysis.feedback}`
+    });
+  }
+  if (fluencyAnalysis) {
+    summaries.push({
+      label: 'Fluency',
+      summary: `${fluencyAnalysis.averageWpm} words/min, ${fluencyAnalysis.fillerCount} filler words, ${fluencyAnalysis.longPauses.length} long silences. ${fluencyAnalysis.feedback}`
+    });
+  }
+  if (eyeContactAnalysis) {
+    const reading = eyeContactAnalysis.readingDetected ? ', likely reading from the screen' : '';
+    summaries.push({
+      label: 'Eye contact',
+      summary: `Faced the camera ${eyeContactAnalysis.eyeContactPercentage}% of the time, looked away ${eyeContactAnalysis.lookAwayEvents.length} times${reading}. ${eyeContactAnalysis.feedback}`
+    });
+  }
+  if (timing) {
+    summaries.push({
+      label: 'Pacing',
+      summary: `Thought for ${formatClock(timing.thinkSeconds)}, answered in ${formatClock(timing.answerSeconds)}. ${describePacing(timing)}`
+    });
+  }
+
+  return summaries;
+};
+
+/**
+ * Timeline charts for every analysis on the answer that has one.
+ */
+/**
+ * The answer's rubric scores as a radar chart, or null for answers scored
+ * before rubrics.
+ */
+export const renderRubricChart = (answer: UserAnswer) =>
+answer.rubric ?
+renderRadarChart(
+  answer.rubric.map((item) => ({ label: RUBRIC_LABELS[item.criterion], value: item.score })),
+  { color: '#7c3aed', max: 10 }
+) :
+null;
+
+export const buildAnswerCharts = (answer: UserAnswer): ReportChart[] => {
+  const charts: Array<ReportChart | null> = [];
+  const chart = (title: string, svg: string | null) => svg ? { title, svg } : null;
+
+  charts.push(chart('Rubric', renderRubricChart(answer)));
+
+  if (answer.stressAnalysis) {
+    charts.push(chart('Stress', renderTimelineChart(
+      answer.stressAnalysis.timeline.map((entry) => ({ timestamp: entry.timestamp, value: entry.confidence * 100 })),
+      { title: 'Stress level', color: '#e11d48', min: 0, max: 100, unit: '%' }
+    )));
+  }
+  if (answer.emotionAnalysis) {
+    const points = answer.emotionAnalysis.timeline.
+    filter((entry) => EMOTIONS.includes(entry.emotion)).
+    map((entry) => ({ timestamp: entry.timestamp, value: EMOTIONS.indexOf(entry.emotion) }));
+    charts.push(chart('Emotion', renderTimelineChart(points, {
+      title: 'Emotion',
+      color: '#2563eb',
+      min: 0,
+      max: EMOTIONS.length - 1,
+      step: true,
+      ticks: EMOTIONS.map((emotion, i) => ({ value: i, label: emotion }))
+    })));
+  }
+  if (answer.toneAnalysis?.pitchTimeline) {
+    const points = answer.toneAnalysis.pitchTimeline.flatMap((entry) =>
+    entry.pitchHz !== null ? [{ timestamp: entry.timestamp, value: entry.pitchHz }] : []
+    );
+    const values = points.map((point) => point.value);
+    charts.push(chart('Pitch', renderTimelineChart(points, {
+      title: 'Pitch',
+      color: '#7c3aed',
+      min: Math.floor(Math.min(...values) / 10) * 10,
+      max: Math.ceil(Math.max(...values) / 10) * 10,
+      unit: ' Hz'
+    })));
+  }
+  if (answer.fluencyAnalysis) {
+    charts.push(chart('Speaking rate', renderTimelineChart(
+      answer.fluencyAnalysis.wpmTimeline.map((entry) => ({ timestamp: entry.timestamp, value: entry.wpm })),
+      { title: 'Speaking rate', color: '#ea580c', min: 0, max: 250, unit: ' wpm' }
+    )));
+  }
+  if (answer.eyeContactAnalysis) {
+    charts.push(chart('Eye contact', renderTimelineChart(
+      answer.eyeContactAnalysis.timeline.map((entry) => ({ timestamp: entry.timestamp, value: entry.eyeContact })),
+      { title: 'Eye contact', color: '#0284c7', min: 0, max: 100, unit: '%' }
+    )));
+  }
+
+  return charts.filter((item): item is ReportChart => item !== null);
+};
+
+const formatDate = (interview: Interview) => {
+  try {
+    return interview.createdAt.toDate().toLocaleDateString();
+  } catch {
+    return new Date().toLocaleDateString();
+  }
+};
+
+const answerTitle = (answer: UserAnswer, index: number) =>
+answer.parentQuestion ? `Follow-up: ${answer.question}` : `Question ${index + 1}: ${answer.question}`;
+
+// Blockquote every line, so multi-line answers stay inside the quote
+const quote = (text: string) => (text.trim() || '(no answer)').split('\n').map((line) => `> ${line}`).join('\n');
+
+export const renderReportMarkdown = (interview: Interview, answers: UserAnswer[]): string => {
+  const ordered = orderAnswers(answers);
+  const plan = buildImprovementPlan(ordered);
+  let questionNumber = 0;
+
+  const lines = [
+  `# Interview Report: ${interview.position}`,
+  '',
+  `- **Tech stack:** ${interview.techStack}`,
+  `- **Experience:** ${interview.experience} years`,
+  `- **Date:** ${formatDate(interview)}`,
+  `- **Overall rating:** ${averageRating(ordered).toFixed(1)} / 10 across ${ordered.length} answers`,
+  '',
+  '## Improvement Plan',
+  ''];
+
+  if (plan.length === 0) {
+    lines.push('No major issues found. Keep practicing with harder questions.', '');
+  } else {
+    plan.forEach((item, i) => lines.push(`${i + 1}. **${item.area}** (${item.priority} priority): ${item.detail}`));
+    lines.push('');
+  }
+
+  lines.push('## Answers', '');
+  ordered.forEach((answer) => {
+    const title = answerTitle(answer, questionNumber);
+    if (!answer.parentQuestion) questionNumber++;
+
+    lines.push(
+      `### ${title}`,
+      '',
+      `**Rating:** ${answer.rating} / 10`,
+      '',
+      '**Your answer**',
+      '',
+      quote(answer.user_ans),
+      '',
+      '**Ideal answer**',
+      '',
+      quote(answer.correct_ans),
+      '',
+      `**Feedback:** ${answer.feedback}`,
+      ''
+    );
+
+    if (answer.rubric) {
+      answer.rubric.forEach((item) => {
+        const evidence = item.evidence.map((text) => ` "${text}"`).join(',');
+        lines.push(`- **${RUBRIC_LABELS[item.criterion]}:** ${item.score} / 10. ${item.comment}${evidence ? ` Evidence:${evidence}` : ''}`);
+      });
+      lines.push('');
+    }
+
+    const summaries = summarizeAnalyses(answer);
+    if (summaries.length > 0) {
+      summaries.forEach(({ label, summary }) => lines.push(`- **${label}:** ${summary}`));
+      lines.push('');
+    }
+    buildAnswerCharts(answer).forEach(({ title: chartTitle, svg }) => {
+      lines.push(`![${chartTitle}](${svgDataUri(svg)})`, '');
+    });
+  });
+
+  return lines.join('\n');
+};
+
+const REPORT_STYLES = `
+  body { font-family: system-ui, -apple-system, sans-serif; color: #111827; max-width: 760px; margin: 0 auto; padding: 32px; line-height: 1.5; }
+  h1 { font-size: 24px; margin-bottom: 4px; }
+  h2 { font-size: 18px; margin-top: 32px; border-bottom: 1px solid #e5e7eb; padding-bottom: 4px; }
+  h3 { font-size: 15px; margin-bottom: 4px; }
+  .meta { color: #4b5563; font-size: 13px; }
+  .rating { font-size: 20px; font-weight: 600; color: #059669; }
+  .answer { break-inside: avoid-page; margin-top: 24px; }
+  .label { font-weight: 600; font-size: 13px; margin-top: 12px; }
+  blockquote { margin: 4px 0; padding: 8px 12px; background: #f9fafb; border-left: 3px solid #d1d5db; white-space: pre-wrap; font-size: 13px; }
+  .ideal { border-left-color: #10b981; }
+  ul, ol { padding-left: 20px; font-size: 13px; }
+  .priority { font-size: 11px; text-transform: uppercase; padding: 1px 6px; border-radius: 4px; margin-left: 4px; }
+  .priority-high { background: #fee2e2; color: #b91c1c; }
+  .priority-medium { background: #fef3c7; color: #b45309; }
+  .priority-low { background: #e0f2fe; color: #0369a1; }
+  .charts svg { display: block; max-width: 100%; height: auto; margin-top: 8px; break-inside: avoid; }
+  @page { margin: 16mm; }
+  @media print { body { padding: 0; } }
+`;
+
+export const renderReportHtml = (interview: Interview, answers: UserAnswer[]): string => {
+  const ordered = orderAnswers(answers);
+  const plan = buildImprovementPlan(ordered);
+  let questionNumber = 0;
+
+  const planMarkup = plan.length === 0 ?
+  '<p>No major issues found. Keep practicing with harder questions.</p>' :
+  `<ol>${plan.map((item) =>
+  `<li><strong>${escapeXml(item.area)}</strong><span class="priority priority-${item.priority}">${item.priority}</span> ${escapeXml(item.detail)}</li>`
+  ).join('')}</ol>`;
+
+  const answerMarkup = ordered.map((answer) => {
+    const title = answerTitle(answer, questionNumber);
+    if (!answer.parentQuestion) questionNumber++;
+
+    const summaries = summarizeAnalyses(answer);
+    const charts = buildAnswerCharts(answer);
+    return `
+      <section class="answer">
+        <h3>${escapeXml(title)}</h3>
+        <div>Rating: <strong>${answer.rating} / 10</strong></div>
+        <div class="label">Your answer</div>
+        <blockquote>${escapeXml(answer.user_ans.trim() || '(no answer)')}</blockquote>
+        <div class="label">Ideal answer</div>
+        <blockquote class="ideal">${escapeXml(answer.correct_ans)}</blockquote>
+        <div class="label">Feedback</div>
+        <p>${escapeXml(answer.feedback)}</p>
+        ${answer.rubric ?
+    `<ul>${answer.rubric.map((item) => `<li><strong>${escapeXml(RUBRIC_LABELS[item.criterion])}:</strong> ${item.score} / 10. ${escapeXml(item.comment)}</li>`).join('')}</ul>` :
+    ''}
+        ${summaries.length > 0 ?
+    `<ul>${summaries.map(({ label, summary }) => `<li><strong>${escapeXml(label)}:</strong> ${escapeXml(summary)}</li>`).join('')}</ul>` :
+    ''}
+        ${charts.length > 0 ? `<div class="charts">${charts.map((chart) => chart.svg).join('')}</div>` : ''}
+      </section>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeXml(`Interview Report - ${interview.position}`)}</title>
+  <style>${REPORT_STYLES}</style>
+</head>
+<body>
+  <h1>Interview Report: ${escapeXml(interview.position)}</h1>
+  <div class="meta">${escapeXml(interview.techStack)} &middot; ${interview.experience} years experience &middot; ${escapeXml(formatDate(interview))}</div>
+  <p class="rating">${averageRating(ordered).toFixed(1)} / 10 <span class="meta">across ${ordered.length} answers</span></p>
+  <h2>Improvement Plan</h2>
+  ${planMarkup}
+  <h2>Answers</h2>
+  ${answerMarkup}
+</body>
+</html>`;
+};
+
+const reportFilename = (interview: Interview, extension: string) => {
+  const slug = interview.position.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'interview';
+  return `${slug}-report.${extension}`;
+};
+
+export const downloadReportMarkdown = (interview: Interview, answers: UserAnswer[]) => {
+  downloadBlob(
+    new Blob([renderReportMarkdown(interview, answers)], { type: 'text/markdown' }),
+    reportFilename(interview, 'md')
+  );
+};
+
+/**
+ * Open the browser's print dialog for the HTML report, where it can be saved
+ * as a PDF. The report is printed from a hidden iframe so the app's own
+ * layout and styles don't leak into it.
+ */
+export const printReport = (interview: Interview, answers: UserAnswer[]) =>
+new Promise<void>((resolve, reject) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.title = 'Interview report';
+
+  frame.onload = () => {
+    const view = frame.contentWindow;
+    if (!view) {
+      frame.remove();
+      reject(new Error('Report could not be prepared for printing'));
+      return;
+    }
+    view.addEventListener('afterprint', () => frame.remove());
+    view.focus();
+    view.print();
+    resolve();
+  };
+
+  frame.srcdoc = renderReportHtml(interview, answers);
+  document.body.appendChild(frame);
+});
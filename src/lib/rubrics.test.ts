@@ -0,0 +1,45 @@
+import { getRubric, overallRating, verifyEvidence } from './rubrics';
+import { renderRadarChart } from './report-charts';
+
+describe('getRubric', () => {
+  test('should only score relevance when there is a CV', () => {
+    expect(getRubric('behavioral', true).map((item) => item.criterion)).toContain('relevance');
+    expect(getRubric('behavioral', false).map((item) => item.criterion)).not.toContain('relevance');
+  });
+
+  test('should keep the weights summing to one', () => {
+    const total = getRubric('system-design', false).reduce((sum, item) => sum + item.weight, 0);
+    expect(total).toBeCloseTo(1, 2);
+  });
+});
+
+describe('overallRating', () => {
+  test('should be the weighted mean of the criteria', () => {
+    expect(overallRating([{ score: 8, weight: 0.75 }, { score: 4, weight: 0.25 }])).toBe(7);
+    expect(overallRating([{ score: 7, weight: 0.4 }, { score: 6, weight: 0.3 }, { score: 9, weight: 0.3 }])).toBe(7.3);
+    expect(overallRating([])).toBe(0);
+  });
+});
+
+describe('verifyEvidence', () => {
+  test('should keep only quotes the candidate actually said, ignoring case and punctuation', () => {
+    const transcript = 'I would, first, reproduce the bug locally and then add logging.';
+
+    expect(verifyEvidence(['reproduce the bug locally', 'First reproduce', 'wrote a unit test', 'bug loc'], transcript)).toEqual([
+    'reproduce the bug locally', 'First reproduce']
+    );
+  });
+});
+
+describe('renderRadarChart', () => {
+  test('should draw one spoke per criterion', () => {
+    const svg = renderRadarChart(
+      [{ label: 'Depth', value: 10 }, { label: 'Structure', value: 5 }, { label: 'Correctness', value: 0 }],
+      { color: '#7c3aed', max: 10 }
+    )!;
+
+    expect(svg.match(/<line /g)).toHaveLength(3);
+    expect(svg).toContain('>Depth (10)</text>');
+    expect(renderRadarChart([{ label: 'Depth', value: 1 }], { color: '#000', max: 10 })).toBeNull();
+  });
+});
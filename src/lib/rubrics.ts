@@ -0,0 +1,120 @@
+import { QuestionType, RubricCriterion, RubricScore } from "@/types";
+
+/**
+ * Scoring rubrics per question type.
+ *
+ * The model scores each criterion on its own and quotes the transcript as
+ * evidence; the overall rating is then computed here as the weighted mean,
+ * so the same scores always give the same rating.
+ */
+
+export const RUBRIC_CRITERIA = [
+"correctness",
+"depth",
+"structure",
+"communication",
+"relevance"] as
+const satisfies readonly RubricCriterion[];
+
+export const RUBRIC_LABELS: Record<RubricCriterion, string> = {
+  correctness: "Correctness",
+  depth: "Depth",
+  structure: "Structure",
+  communication: "Communication",
+  relevance: "Relevance to CV"
+};
+
+export interface RubricItem {
+  criterion: RubricCriterion;
+  weight: number;
+  /** What the criterion means for this type of question, for the prompt. */
+  guidance: string;
+}
+
+type RubricWeights = Record<RubricCriterion, number>;
+
+const WEIGHTS: Record<QuestionType, RubricWeights> = {
+  "coding-concept": { correctness: 0.4, depth: 0.25, structure: 0.1, communication: 0.15, relevance: 0.1 },
+  "system-design": { correctness: 0.25, depth: 0.3, structure: 0.2, communication: 0.15, relevance: 0.1 },
+  debugging: { correctness: 0.35, depth: 0.2, structure: 0.2, communication: 0.15, relevance: 0.1 },
+  behavioral: { correctness: 0.1, depth: 0.2, structure: 0.35, communication: 0.2, relevance: 0.15 },
+  "culture-fit": { correctness: 0.1, depth: 0.25, structure: 0.15, communication: 0.3, relevance: 0.2 }
+};
+
+const GUIDANCE: Record<QuestionType, Record<RubricCriterion, string>> = {
+  "coding-concept": {
+    correctness: "the explanation is technically accurate",
+    depth: "goes beyond the definition: internals, trade-offs, pitfalls",
+    structure: "defines the concept, then explains and illustrates it",
+    communication: "clear, precise terminology, no rambling",
+    relevance: "connects the concept to work described in the CV"
+  },
+  "system-design": {
+    correctness: "the design would work and meets the stated requirements",
+    depth: "covers scale, data flow, failure modes and trade-offs",
+    structure: "clarifies requirements, then components, then trade-offs",
+    communication: "easy to follow, explains the reasoning behind choices",
+    relevance: "draws on systems the candidate built according to the CV"
+  },
+  debugging: {
+    correctness: "finds a plausible root cause and a working fix",
+    depth: "considers several hypotheses, tooling and prevention",
+    structure: "reproduce, isolate, fix, verify",
+    communication: "explains each step and why it was taken",
+    relevance: "draws on incidents or stacks from the CV"
+  },
+  behavioral: {
+    correctness: "answers the question that was asked with a real, specific situation",
+    depth: "shows the candidate's own decisions and what they learned",
+    structure: "follows STAR: Situation, Task, Action, Result",
+    communication: "concise and confident, with a clear outcome",
+    relevance: "the situation matches the experience in the CV"
+  },
+  "culture-fit": {
+    correctness: "answers the question honestly and directly",
+    depth: "specific examples rather than generic values",
+    structure: "states a position and backs it with an example",
+    communication: "open, reflective and easy to follow",
+    relevance: "consistent with the background in the CV"
+  }
+};
+
+/**
+ * The rubric for a question type. Relevance to the CV only counts when the
+ * interview has a CV; the other weights are scaled up to make up for it.
+ */
+export const getRubric = (type: QuestionType, hasCv: boolean): RubricItem[] => {
+  const criteria = RUBRIC_CRITERIA.filter((criterion) => hasCv || criterion !== "relevance");
+  const total = criteria.reduce((sum, criterion) => sum + WEIGHTS[type][criterion], 0);
+
+  return criteria.map((criterion) => ({
+    criterion,
+    weight: Math.round(WEIGHTS[type][criterion] / total * 1000) / 1000,
+    guidance: GUIDANCE[type][criterion]
+  }));
+};
+
+/**
+ * The weighted mean of the criterion scores, to one decimal place.
+ */
+export const overallRating = (scores: Pick<RubricScore, "score" | "weight">[]) => {
+  const totalWeight = scores.reduce((sum, { weight }) => sum + weight, 0);
+  if (totalWeight === 0) return 0;
+
+  const weighted = scores.reduce((sum, { score, weight }) => sum + score * weight, 0);
+  return Math.round(weighted / totalWeight * 10) / 10;
+};
+
+const normalizeQuote = (text: string) => text.toLowerCase().replace(/[^a-z0-9']+/g, " ").trim();
+
+/**
+ * Drop evidence that isn't actually in the transcript, so a quote shown to
+ * the candidate is always something they said.
+ */
+export const verifyEvidence = (evidence: string[], transcript: string) => {
+  const said = ` ${normalizeQuote(transcript)} `;
+  return evidence.filter((quote) => {
+    const normalized = normalizeQuote(quote);
+    return normalized.length > 0 && said.includes(` ${normalized} `);
+  });
+};
@@ -0,0 +1,37 @@
+import { doc, getDoc, setDoc } from "firebase/firestore";
+import { db } from "@/config/firebase.config";
+import {
+  BaselineSession,
+  StressBaselineProfile,
+  applyBaselineSession } from
+"@/lib/analysis/baseline";
+
+/**
+ * Per-user stress baselines, stored in the "stressBaselines" collection keyed
+ * by user id.
+ */
+
+const COLLECTION = "stressBaselines";
+
+export const loadStressBaseline = async (userId: string): Promise<StressBaselineProfile | null> => {
+  const snap = await getDoc(doc(db, COLLECTION, userId));
+  return snap.exists() ? snap.data() as StressBaselineProfile : null;
+};
+
+export const saveStressBaseline = (userId: string, profile: StressBaselineProfile) =>
+setDoc(doc(db, COLLECTION, userId), { ...profile, userId });
+
+/**
+ * Fold a finished answer into the stored baseline and save it.
+ */
+export const recordBaselineSession = async (
+userId: string,
+profile: StressBaselineProfile,
+session: BaselineSession)
+: Promise<StressBaselineProfile> => {
+  const updated = applyBaselineSession(profile, session, Date.now());
+  if (updated !== profile) {
+    await saveStressBaseline(userId, updated);
+  }
+  return updated;
+};
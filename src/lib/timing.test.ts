@@ -0,0 +1,52 @@
+import { AnswerTiming, UserAnswer } from '@/types';
+import { answerLimit, describePacing, formatClock, summarizePacing } from './timing';
+
+const timing = (overrides: Partial<AnswerTiming>): AnswerTiming => ({
+  thinkSeconds: 20,
+  answerSeconds: 90,
+  thinkLimit: 30,
+  answerLimit: 120,
+  thinkTimeExpired: false,
+  timedOut: false,
+  ...overrides
+});
+
+describe('formatClock', () => {
+  test('should show minutes and seconds', () => {
+    expect(formatClock(0)).toBe('0:00');
+    expect(formatClock(59.6)).toBe('1:00');
+    expect(formatClock(125)).toBe('2:05');
+  });
+});
+
+describe('answerLimit', () => {
+  test('should cut the answer short when the interview budget runs out first', () => {
+    const limits = { thinkSeconds: 30, answerSeconds: 120, totalSeconds: 600 };
+
+    expect(answerLimit(limits, null)).toBe(120);
+    expect(answerLimit(limits, 300)).toBe(120);
+    expect(answerLimit(limits, 45)).toBe(45);
+  });
+});
+
+describe('describePacing', () => {
+  test('should comment on running out of time, short answers and good pacing', () => {
+    expect(describePacing(timing({ answerSeconds: 120, timedOut: true }))).toMatch(/ran out of time \(2:00 of 2:00\)/);
+    expect(describePacing(timing({ answerSeconds: 20 }))).toMatch(/time left/);
+    expect(describePacing(timing({}))).toBe('Good pacing: you used 1:30 of 2:00.');
+    expect(describePacing(timing({ thinkTimeExpired: true }))).toMatch(/Think time ran out/);
+  });
+});
+
+describe('summarizePacing', () => {
+  test('should only count timed answers', () => {
+    const answers = [
+    { timing: timing({ timedOut: true, answerSeconds: 120 }) },
+    { timing: timing({ answerSeconds: 60 }) },
+    {}] as
+    UserAnswer[];
+
+    expect(summarizePacing(answers)).toEqual({ timedAnswers: 2, timedOut: 1, thinkTimeExpired: 0, averageShare: 0.75 });
+    expect(summarizePacing([{}] as UserAnswer[])).toBeNull();
+  });
+});
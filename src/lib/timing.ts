@@ -0,0 +1,74 @@
+import { AnswerTiming, InterviewTiming, UserAnswer } from "@/types";
+
+/**
+ * Timed interviews.
+ *
+ * A timed interview gives each question a think time, after which recording
+ * starts on its own, and an answer limit, after which recording stops and
+ * the answer is scored. An optional budget caps the whole interview; the
+ * last answer is cut short when the budget runs out first.
+ */
+
+export const TIMING_PRESETS: Array<{label: string;timing: InterviewTiming | null;}> = [
+{ label: "Untimed", timing: null },
+{ label: "Relaxed", timing: { thinkSeconds: 60, answerSeconds: 240, totalSeconds: 0 } },
+{ label: "Standard", timing: { thinkSeconds: 30, answerSeconds: 120, totalSeconds: 30 * 60 } },
+{ label: "Strict", timing: { thinkSeconds: 15, answerSeconds: 90, totalSeconds: 15 * 60 } }];
+
+
+/** Seconds left at which the countdown turns urgent. */
+export const URGENT_SECONDS = 10;
+
+// Answers shorter than this share of their limit probably left things out
+const SHORT_ANSWER_SHARE = 0.25;
+
+export const formatClock = (seconds: number) => {
+  const whole = Math.max(0, Math.round(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+};
+
+/**
+ * How long the next answer may take: the answer limit, or what is left of
+ * the interview budget when that is less.
+ */
+export const answerLimit = (timing: InterviewTiming, budgetLeft: number | null) =>
+budgetLeft === null ? timing.answerSeconds : Math.max(0, Math.min(timing.answerSeconds, budgetLeft));
+
+/**
+ * A comment on how the answer used its time.
+ */
+export const describePacing = (timing: AnswerTiming) => {
+  const used = `${formatClock(timing.answerSeconds)} of ${formatClock(timing.answerLimit)}`;
+  const thinking = timing.thinkTimeExpired ?
+  " Think time ran out before you started; sketch a two or three point outline and begin as soon as you have it." :
+  "";
+
+  if (timing.timedOut) {
+    return `You ran out of time (${used}). Lead with your main point so it is covered before the limit.${thinking}`;
+  }
+  if (timing.answerSeconds < timing.answerLimit * SHORT_ANSWER_SHARE) {
+    return `You used ${used}. There was time left to add an example or a trade-off.${thinking}`;
+  }
+  return `Good pacing: you used ${used}.${thinking}`;
+};
+
+export interface PacingSummary {
+  timedAnswers: number;
+  timedOut: number;
+  thinkTimeExpired: number;
+  /** Mean share of the answer limit used, 0-1. */
+  averageShare: number;
+}
+
+export const summarizePacing = (answers: UserAnswer[]): PacingSummary | null => {
+  const timings = answers.flatMap((answer) => answer.timing ? [answer.timing] : []);
+  if (timings.length === 0) return null;
+
+  return {
+    timedAnswers: timings.length,
+    timedOut: timings.filter((timing) => timing.timedOut).length,
+    thinkTimeExpired: timings.filter((timing) => timing.thinkTimeExpired).length,
+    averageShare: timings.reduce((sum, timing) =>
+    sum + (timing.answerLimit > 0 ? Math.min(1, timing.answerSeconds / timing.answerLimit) : 1), 0) / timings.length
+  };
+};
@@ -0,0 +1,150 @@
+import { Loader } from "lucide-react";
+import { useMemo, useState } from "react";
+import { toast } from "sonner";
+import { CustomBreadCrumb } from "@/components/custom-bread-crumb";
+import { Headings } from "@/components/headings";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardDescription, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { QUESTION_TYPE_LABELS } from "@/lib/question-types";
+import { createProviderFromEnv } from "@/scripts/providers";
+import {
+  CALIBRATION_CASES,
+  CalibrationReport,
+  detectDrift,
+  loadCalibrationBaseline,
+  runCalibration,
+  saveCalibrationBaseline } from
+"@/scripts/calibration";
+
+const SAMPLES = 3;
+
+export const Calibration = () => {
+  const provider = useMemo(() => createProviderFromEnv(), []);
+  const [report, setReport] = useState<CalibrationReport | null>(null);
+  const [baseline, setBaseline] = useState<CalibrationReport | null>(() => loadCalibrationBaseline());
+  const [progress, setProgress] = useState<number | null>(null);
+
+  const drift = report && baseline ? detectDrift(report, baseline) : null;
+
+  const handleRun = async () => {
+    try {
+      setProgress(0);
+      setReport(await runCalibration({ provider, samples: SAMPLES, onProgress: (done) => setProgress(done) }));
+    } catch (error) {
+      console.error("Error running calibration:", error);
+      toast.error("Error..", { description: "Calibration could not be completed." });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleSaveBaseline = () => {
+    if (!report) return;
+    saveCalibrationBaseline(report);
+    setBaseline(report);
+    toast("Saved", { description: "This run is now the calibration baseline." });
+  };
+
+  return (
+    <div className="flex flex-col w-full gap-6 py-5">
+      <CustomBreadCrumb
+        breadCrumbPage={"Grader Calibration"}
+        breadCrumpItems={[{ label: "Mock Interviews", link: "/generate" }]} />
+
+
+      <Headings
+        title="Grader Calibration"
+        description={`Rate ${CALIBRATION_CASES.length} reference answers with known target scores to check the grader, e.g. after changing models.`} />
+
+
+      <Separator />
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Provider <strong>{provider.name}</strong>, models {provider.models.map((model) => model.model).join(", ")},{" "}
+          {SAMPLES} ratings per answer.
+        </p>
+        <div className="flex gap-2">
+          <Button size={"sm"} variant={"outline"} onClick={handleSaveBaseline} disabled={!report || progress !== null}>
+            Save as Baseline
+          </Button>
+          <Button size={"sm"} onClick={handleRun} disabled={progress !== null}>
+            {progress !== null ?
+            <>
+                <Loader className="animate-spin" /> {progress}/{CALIBRATION_CASES.length}
+              </> :
+
+            "Run Calibration"
+            }
+          </Button>
+        </div>
+      </div>
+
+      {report &&
+      <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <Card className="p-4 shadow-none">
+              <CardDescription>Within tolerance</CardDescription>
+              <CardTitle className="text-2xl">{Math.round(report.passRate * 100)}%</CardTitle>
+            </Card>
+            <Card className="p-4 shadow-none">
+              <CardDescription>Mean absolute error</CardDescription>
+              <CardTitle className="text-2xl">{report.meanAbsoluteError}</CardTitle>
+            </Card>
+            <Card className="p-4 shadow-none">
+              <CardDescription>Bias</CardDescription>
+              <CardTitle className="text-2xl">{report.bias > 0 ? `+${report.bias}` : report.bias}</CardTitle>
+              <CardDescription>{report.bias > 0 ? "Too lenient" : report.bias < 0 ? "Too strict" : "Balanced"}</CardDescription>
+            </Card>
+            <Card className="p-4 shadow-none">
+              <CardDescription>Against baseline</CardDescription>
+              <CardTitle className={`text-2xl ${drift?.drifted ? "text-red-500" : "text-emerald-500"}`}>
+                {!drift ? "No baseline" : drift.drifted ? "Drifted" : "Stable"}
+              </CardTitle>
+              {drift &&
+            <CardDescription>
+                  Bias {drift.biasShift >= 0 ? "+" : ""}{drift.biasShift}, error {drift.errorChange >= 0 ? "+" : ""}
+                  {drift.errorChange}
+                  {drift.modelsChanged ? `; baseline used ${baseline!.provider} ${baseline!.models.join(", ")}` : ""}
+                </CardDescription>
+            }
+            </Card>
+          </div>
+
+          <Card className="p-4 shadow-none">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="py-2">Case</th>
+                  <th>Type</th>
+                  <th>Target</th>
+                  <th>Rating</th>
+                  <th>Spread</th>
+                  <th>Baseline</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {report.results.map((result) =>
+              <tr key={result.id} className="border-t">
+                    <td className="py-2">{result.id}</td>
+                    <td>{QUESTION_TYPE_LABELS[result.type]}</td>
+                    <td>{result.target}</td>
+                    <td>{result.rating ?? "failed"}</td>
+                    <td>{result.spread ?? "-"}</td>
+                    <td>{baseline?.results.find((item) => item.id === result.id)?.rating ?? "-"}</td>
+                    <td>
+                      <Badge variant={result.pass ? "secondary" : "destructive"}>{result.pass ? "pass" : "off target"}</Badge>
+                    </td>
+                  </tr>
+              )}
+              </tbody>
+            </table>
+          </Card>
+        </>
+      }
+    </div>);
+
+};
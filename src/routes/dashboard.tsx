@@ -7,7 +7,7 @@ import { db } from "@/config/firebase.config";
 import { Interview } from "@/types";
 import { useAuth } from "@clerk/clerk-react";
 import { collection, onSnapshot, query, where } from "firebase/firestore";
-import { Plus, Search } from "lucide-react";
+import { Plus, Search, TrendingUp } from "lucide-react";
 import { useEffect, useMemo, useState } from "react";
 import { Link } from "react-router-dom";
 import { toast } from "sonner";
@@ -66,11 +66,18 @@ export const Dashboard = () => {
           title="Dashboard"
           description="Create and start you AI Mock interview"
         />
-        <Link to={"/generate/create"}>
-          <Button size={"sm"}>
-            <Plus /> Add New
-          </Button>
-        </Link>
+        <div className="flex items-center gap-2">
+          <Link to={"/generate/progress"}>
+            <Button size={"sm"} variant={"outline"}>
+              <TrendingUp /> Progress
+            </Button>
+          </Link>
+          <Link to={"/generate/create"}>
+            <Button size={"sm"}>
+              <Plus /> Add New
+            </Button>
+          </Link>
+        </div>
       </div>
 
       <Separator className="my-8" />
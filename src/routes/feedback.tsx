@@ -23,8 +23,17 @@ import {
   AccordionTrigger } from
 "@/components/ui/accordion";
 import { cn } from "@/lib/utils";
-import { CircleCheck, Star } from "lucide-react";
+import { CircleCheck, CornerDownRight, Star } from "lucide-react";
 import { Card, CardDescription, CardTitle } from "@/components/ui/card";
+import { SessionPlayback } from "@/components/session-playback";
+import { ReportExport } from "@/components/report-export";
+import { averageRating, orderAnswers, renderRubricChart, timeUnderStress } from "@/lib/report";
+import { RUBRIC_LABELS } from "@/lib/rubrics";
+import { describePacing, formatClock } from "@/lib/timing";
+import { AttemptView, attemptNumber, groupAttempts, selectAttempts } from "@/lib/attempts";
+import { AttemptComparison } from "@/components/attempt-comparison";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 
 export const Feedback = () => {
   const { interviewId } = useParams<{interviewId: string;}>();
@@ -32,6 +41,7 @@ export const Feedback = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [feedbacks, setFeedbacks] = useState<UserAnswer[]>([]);
   const [activeFeed, setActiveFeed] = useState("");
+  const [attemptView, setAttemptView] = useState<AttemptView>("best");
   const { userId } = useAuth();
   const navigate = useNavigate();
 
@@ -90,16 +100,16 @@ export const Feedback = () => {
 
 
 
-  const overAllRating = useMemo(() => {
-    if (feedbacks.length === 0) return "0.0";
+  const attemptGroups = useMemo(() => groupAttempts(feedbacks), [feedbacks]);
+  const hasRetries = attemptGroups.some((group) => group.attempts.length > 1);
 
-    const totalRatings = feedbacks.reduce(
-      (acc, feedback) => acc + feedback.rating,
-      0
-    );
+  // One answer per question, its best or latest attempt, for the ratings and the report
+  const shownFeedbacks = useMemo(() => selectAttempts(feedbacks, attemptView), [feedbacks, attemptView]);
 
-    return (totalRatings / feedbacks.length).toFixed(1);
-  }, [feedbacks]);
+  const overAllRating = useMemo(() => averageRating(shownFeedbacks).toFixed(1), [shownFeedbacks]);
+
+  // Place each follow-up answer directly after the answer it follows up on.
+  const orderedFeedbacks = useMemo(() => orderAnswers(shownFeedbacks), [shownFeedbacks]);
 
   if (isLoading) {
     return <LoaderPage className="w-full h-[70vh]" />;
@@ -118,6 +128,9 @@ export const Feedback = () => {
           }]
           } />
 
+        {interview && feedbacks.length > 0 &&
+        <ReportExport interview={interview} answers={shownFeedbacks} />
+        }
       </div>
 
       <Headings
@@ -134,15 +147,37 @@ export const Feedback = () => {
 
       {interview && <InterviewPin interview={interview} onMockPage />}
 
-      <Headings title="Interview Feedback" isSubHeading />
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Headings title="Interview Feedback" isSubHeading />
+        {hasRetries &&
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            Show each question's
+            {(["best", "latest"] as const).map((view) =>
+          <Button
+            key={view}
+            type="button"
+            size={"sm"}
+            variant={attemptView === view ? "default" : "outline"}
+            onClick={() => setAttemptView(view)}
+            className="capitalize">
+
+                {view} attempt
+              </Button>
+          )}
+          </div>
+        }
+      </div>
 
       {feedbacks &&
       <Accordion type="single" collapsible className="space-y-6">
-          {feedbacks.map((feed) =>
-        <AccordionItem
+          {orderedFeedbacks.map((feed) => {
+          const attempts = attemptGroups.find((group) => group.question === feed.question)?.attempts ?? [feed];
+          return (
+            <AccordionItem
           key={feed.id}
           value={feed.id}
-          className="border rounded-lg shadow-md">
+          className="border rounded-lg shadow-md"
+          style={{ marginLeft: `${(feed.followUpDepth || 0) * 1.5}rem` }}>
 
               <AccordionTrigger
             onClick={() => setActiveFeed(feed.id)}
@@ -153,15 +188,72 @@ export const Feedback = () => {
               "hover:bg-gray-50"
             )}>
 
-                <span>{feed.question}</span>
+                <span className="flex flex-col items-start text-left">
+                  {feed.parentQuestion &&
+              <span className="flex items-center text-xs text-muted-foreground font-normal">
+                      <CornerDownRight className="w-3 h-3 mr-1" />
+                      Follow-up to: {feed.parentQuestion}
+                    </span>
+              }
+                  {feed.question}
+                </span>
+                {attempts.length > 1 &&
+              <Badge variant="secondary" className="ml-2 shrink-0">
+                    Attempt {attemptNumber(feed)} of {attempts.length}
+                  </Badge>
+              }
               </AccordionTrigger>
 
               <AccordionContent className="px-5 py-6 bg-white rounded-b-lg space-y-5 shadow-inner">
                 <div className="text-lg font-semibold to-gray-700">
                   <Star className="inline mr-2 text-yellow-400" />
                   Rating : {feed.rating}
+                  {feed.ratingConsistency &&
+              <span className="ml-2 text-sm font-normal text-muted-foreground">
+                      median of {feed.ratingConsistency.samples.length} ratings, confidence{" "}
+                      {Math.round(feed.ratingConsistency.confidence * 100)}%
+                    </span>
+              }
                 </div>
 
+                {attempts.length > 1 && <AttemptComparison attempts={attempts} />}
+
+                {feed.rubric &&
+            <Card className="border-none space-y-3 p-4 bg-violet-50 rounded-lg shadow-md">
+                    <CardTitle className="flex items-center text-lg">
+                      <CircleCheck className="mr-2 text-violet-600" />
+                      Rubric Breakdown
+                    </CardTitle>
+                    <div className="grid md:grid-cols-2 gap-4 items-start">
+                      <div
+                  className="[&>svg]:w-full [&>svg]:h-auto"
+                  dangerouslySetInnerHTML={{ __html: renderRubricChart(feed) ?? "" }} />
+
+                      <div className="space-y-3">
+                        {feed.rubric.map((item) =>
+                  <div key={item.criterion} className="space-y-1">
+                            <div className="flex justify-between text-sm font-medium">
+                              <span>{RUBRIC_LABELS[item.criterion]}</span>
+                              <span>
+                                {item.score}/10{" "}
+                                <span className="text-muted-foreground font-normal">
+                                  ({Math.round(item.weight * 100)}% of rating)
+                                </span>
+                              </span>
+                            </div>
+                            <p className="text-sm text-gray-700">{item.comment}</p>
+                            {item.evidence.map((quote) =>
+                    <blockquote key={quote} className="text-sm italic text-gray-600 border-l-2 border-violet-300 pl-2">
+                                "{quote}"
+                              </blockquote>
+                    )}
+                          </div>
+                  )}
+                      </div>
+                    </div>
+                  </Card>
+            }
+
                 <Card className="border-none space-y-3 p-4 bg-green-50 rounded-lg shadow-md">
                   <CardTitle className="flex items-center text-lg">
                     <CircleCheck className="mr-2 text-green-600" />
@@ -213,10 +305,26 @@ export const Feedback = () => {
                       Tone Analysis
                     </CardTitle>
                     <div className="space-y-2">
-                      <div className="flex justify-between">
-                        <span>Pitch Level:</span>
-                        <span>{feed.toneAnalysis.pitch}/100</span>
-                      </div>
+                      {feed.toneAnalysis.pitchHz ?
+                <>
+                          <div className="flex justify-between">
+                            <span>Average Pitch:</span>
+                            <span>{feed.toneAnalysis.pitchHz} Hz</span>
+                          </div>
+                          <div className="flex justify-between">
+                            <span>Pitch Variation:</span>
+                            <span>
+                              {feed.toneAnalysis.pitchVariance} semitones
+                              {feed.toneAnalysis.monotone ? " (monotone)" : ""}
+                            </span>
+                          </div>
+                        </> :
+
+                <div className="flex justify-between">
+                          <span>Pitch Level:</span>
+                          <span>{feed.toneAnalysis.pitch}/100</span>
+                        </div>
+                }
                       <div className="flex justify-between">
                         <span>Speaking Speed:</span>
                         <span>{feed.toneAnalysis.speed} words/min</span>
@@ -285,9 +393,174 @@ export const Feedback = () => {
                     </div>
                   </Card>
             }
+
+                {}
+                {feed.stressAnalysis &&
+            <Card className="border-none space-y-3 p-4 bg-rose-50 rounded-lg shadow-md">
+                    <CardTitle className="flex items-center text-lg">
+                      <CircleCheck className="mr-2 text-rose-600" />
+                      Stress Analysis
+                    </CardTitle>
+                    <div className="space-y-2">
+                      <div className="flex justify-between">
+                        <span>Time Under Stress:</span>
+                        <span>
+                          {timeUnderStress(feed.stressAnalysis)}%
+                        </span>
+                      </div>
+                      {feed.stressAnalysis.contributions &&
+                Object.keys(feed.stressAnalysis.contributions).length > 0 &&
+                <div className="flex justify-between">
+                          <span>Signals:</span>
+                          <span className="capitalize">
+                            {Object.entries(feed.stressAnalysis.contributions).
+                    map(([modality, share]) => `${modality} ${Math.round((share ?? 0) * 100)}%`).
+                    join(", ")}
+                          </span>
+                        </div>
+                }
+                      {feed.stressAnalysis.features.length > 0 &&
+                <div className="flex justify-between gap-4">
+                          <span>Cues:</span>
+                          <span className="text-right">{feed.stressAnalysis.features.join(", ")}</span>
+                        </div>
+                }
+                      <CardDescription className="font-medium text-gray-700 mt-2">
+                        {feed.stressAnalysis.feedback}
+                      </CardDescription>
+                    </div>
+                  </Card>
+            }
+
+                {}
+                {feed.fluencyAnalysis &&
+            <Card className="border-none space-y-3 p-4 bg-orange-50 rounded-lg shadow-md">
+                    <CardTitle className="flex items-center text-lg">
+                      <CircleCheck className="mr-2 text-orange-600" />
+                      Fluency Analysis
+                    </CardTitle>
+                    <div className="space-y-2">
+                      <div className="flex justify-between">
+                        <span>Speaking Rate:</span>
+                        <span>
+                          {feed.fluencyAnalysis.averageWpm} words/min
+                          {feed.fluencyAnalysis.wpmTimeline.length > 1 &&
+                    ` (${Math.min(...feed.fluencyAnalysis.wpmTimeline.map((window) => window.wpm))}-${Math.max(...feed.fluencyAnalysis.wpmTimeline.map((window) => window.wpm))})`
+                    }
+                        </span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Filler Words:</span>
+                        <span>
+                          {feed.fluencyAnalysis.fillerCount} ({feed.fluencyAnalysis.fillerRate} per 100 words)
+                        </span>
+                      </div>
+                      {feed.fluencyAnalysis.fillerWords.length > 0 &&
+                <div className="flex justify-between">
+                          <span>Most Used:</span>
+                          <span>
+                            {feed.fluencyAnalysis.fillerWords.
+                    slice(0, 3).
+                    map((filler) => `"${filler.word}" x${filler.count}`).
+                    join(", ")}
+                          </span>
+                        </div>
+                }
+                      <div className="flex justify-between">
+                        <span>Long Silences:</span>
+                        <span>{feed.fluencyAnalysis.longPauses.length}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Restarts:</span>
+                        <span>{feed.fluencyAnalysis.restarts}</span>
+                      </div>
+                      <CardDescription className="font-medium text-gray-700 mt-2">
+                        {feed.fluencyAnalysis.feedback}
+                      </CardDescription>
+                    </div>
+                  </Card>
+            }
+
+                {}
+                {feed.eyeContactAnalysis &&
+            <Card className="border-none space-y-3 p-4 bg-sky-50 rounded-lg shadow-md">
+                    <CardTitle className="flex items-center text-lg">
+                      <CircleCheck className="mr-2 text-sky-600" />
+                      Eye Contact Analysis
+                    </CardTitle>
+                    <div className="space-y-2">
+                      <div className="flex justify-between">
+                        <span>Looking at Camera:</span>
+                        <span>{feed.eyeContactAnalysis.eyeContactPercentage}%</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Looked Away:</span>
+                        <span>{feed.eyeContactAnalysis.lookAwayEvents.length} times</span>
+                      </div>
+                      {feed.eyeContactAnalysis.lookAwayEvents.length > 0 &&
+                feed.eyeContactAnalysis.timeline.length > 0 &&
+                <div className="flex justify-between gap-4">
+                          <span>When:</span>
+                          <span className="text-right">
+                            {feed.eyeContactAnalysis.lookAwayEvents.
+                    slice(0, 5).
+                    map((event) => {
+                      const offset = (event.timestamp - feed.eyeContactAnalysis!.timeline[0].timestamp) / 1000;
+                      return `${formatClock(offset)} ${event.direction} (${Math.round(event.duration / 1000)}s)`;
+                    }).
+                    join(", ")}
+                          </span>
+                        </div>
+                }
+                      <div className="flex justify-between">
+                        <span>Reading From Screen:</span>
+                        <span>
+                          {feed.eyeContactAnalysis.readingDetected ?
+                    `Likely (${feed.eyeContactAnalysis.readingPercentage}% of answer)` :
+                    "Not detected"}
+                        </span>
+                      </div>
+                      <CardDescription className="font-medium text-gray-700 mt-2">
+                        {feed.eyeContactAnalysis.feedback}
+                      </CardDescription>
+                    </div>
+                  </Card>
+            }
+
+                {}
+                {feed.timing &&
+            <Card className="border-none space-y-3 p-4 bg-amber-50 rounded-lg shadow-md">
+                    <CardTitle className="flex items-center text-lg">
+                      <CircleCheck className="mr-2 text-amber-600" />
+                      Pacing
+                    </CardTitle>
+                    <div className="space-y-2">
+                      <div className="flex justify-between">
+                        <span>Think Time:</span>
+                        <span>
+                          {formatClock(feed.timing.thinkSeconds)} of {formatClock(feed.timing.thinkLimit)}
+                          {feed.timing.thinkTimeExpired ? " (ran out)" : ""}
+                        </span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Answer Time:</span>
+                        <span>
+                          {formatClock(feed.timing.answerSeconds)} of {formatClock(feed.timing.answerLimit)}
+                          {feed.timing.timedOut ? " (stopped at the limit)" : ""}
+                        </span>
+                      </div>
+                      <CardDescription className="font-medium text-gray-700 mt-2">
+                        {describePacing(feed.timing)}
+                      </CardDescription>
+                    </div>
+                  </Card>
+            }
+
+                <SessionPlayback answerId={feed.id} />
               </AccordionContent>
-            </AccordionItem>
-        )}
+            </AccordionItem>);
+
+        })}
         </Accordion>
       }
     </div>);
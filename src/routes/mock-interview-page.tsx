@@ -9,12 +9,18 @@ import { CustomBreadCrumb } from "@/components/custom-bread-crumb";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Lightbulb } from "lucide-react";
 import { QuestionSection } from "@/components/question-section";
+import {
+  getRecordingPreference,
+  isLocalRecordingSupported,
+  setRecordingPreference,
+} from "@/lib/recordings";
 
 export const MockInterviewPage = () => {
   const { interviewId } = useParams<{ interviewId: string }>();
   const [interview, setInterview] = useState<Interview | null>(null);
 
   const [isLoading, setIsLoading] = useState(false);
+  const [recordLocally, setRecordLocally] = useState(getRecordingPreference);
 
   const navigate = useNavigate();
 
@@ -41,6 +47,11 @@ export const MockInterviewPage = () => {
     fetchInterview();
   }, [interviewId, navigate]);
 
+  const handleRecordLocallyChange = (enabled: boolean) => {
+    setRecordLocally(enabled);
+    setRecordingPreference(enabled);
+  };
+
   if (isLoading) {
     return <LoaderPage className="w-full h-[70vh]" />;
   }
@@ -74,15 +85,32 @@ export const MockInterviewPage = () => {
               Important Note
             </AlertTitle>
             <AlertDescription className="text-sm text-sky-700 mt-1 leading-relaxed">
-              Press "Record Answer" to begin answering the question. Once you
-              finish the interview, you&apos;ll receive feedback comparing your
+              The questions come one at a time: each is read aloud, then press
+              "Start Recording" to answer. Answers are scored and saved as you
+              go, and you can close the page and resume later. Once you finish
+              the interview, you&apos;ll receive feedback comparing your
               responses with the ideal answers.
               <br />
               <br />
               <strong>Note:</strong>{" "}
-              <span className="font-medium">Your video is never recorded.</span>{" "}
-              You can disable the webcam anytime if preferred.
+              <span className="font-medium">
+                Your video is not recorded unless you turn on local recording.
+              </span>{" "}
+              Local recordings stay on this device for playback on the feedback
+              page and are only shared if you export them. You can disable the
+              webcam anytime if preferred.
             </AlertDescription>
+            {isLocalRecordingSupported() && (
+              <label className="flex items-center gap-2 mt-3 text-sm text-sky-800 font-medium cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={recordLocally}
+                  onChange={(e) => handleRecordLocallyChange(e.target.checked)}
+                  className="h-4 w-4 accent-sky-600"
+                />
+                Record my answers on this device for playback
+              </label>
+            )}
           </div>
         </Alert>
         <button
@@ -95,7 +123,10 @@ export const MockInterviewPage = () => {
 
       {interview?.questions && interview?.questions.length > 0 && (
         <div className="mt-4 w-full flex flex-col items-start gap-4">
-          <QuestionSection questions={interview?.questions} />
+          <QuestionSection
+            interview={interview}
+            recordLocally={recordLocally}
+          />
         </div>
       )}
     </div>
@@ -1,7 +1,7 @@
 import { db } from "@/config/firebase.config";
 import { Interview } from "@/types";
 import { doc, getDoc } from "firebase/firestore";
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Link, useNavigate, useParams } from "react-router-dom";
 import { LoaderPage } from "./loader-page";
 import { CustomBreadCrumb } from "@/components/custom-bread-crumb";
@@ -10,12 +10,14 @@ import { Lightbulb, Sparkles, WebcamIcon } from "lucide-react";
 import { InterviewPin } from "@/components/pin";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import WebCam from "react-webcam";
+import { StressCalibration } from "@/components/stress-calibration";
 
 export const MockLoadPage = () => {
   const { interviewId } = useParams<{ interviewId: string }>();
   const [interview, setInterview] = useState<Interview | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isWebCamEnabled, setIsWebCamEnabled] = useState(false);
+  const webcamRef = useRef<WebCam>(null);
 
   const navigate = useNavigate();
 
@@ -84,8 +86,9 @@ export const MockLoadPage = () => {
             <br />
             <br />
             <span className="font-medium">Note:</span> Your video is{" "}
-            <strong>never recorded</strong>. You can disable your webcam at any
-            time.
+            <strong>not recorded</strong> unless you turn on local recording
+            during the interview, and local recordings never leave this device
+            unless you export them. You can disable your webcam at any time.
           </AlertDescription>
         </div>
       </Alert>
@@ -94,6 +97,7 @@ export const MockLoadPage = () => {
         <div className="w-full h-[400px] md:w-96 flex flex-col items-center justify-center border p-4 bg-gray-50 rounded-md">
           {isWebCamEnabled ? (
             <WebCam
+              ref={webcamRef}
               onUserMedia={() => setIsWebCamEnabled(true)}
               onUserMediaError={() => setIsWebCamEnabled(false)}
               className="w-full h-full object-cover rounded-md"
@@ -109,6 +113,12 @@ export const MockLoadPage = () => {
           {isWebCamEnabled ? "Disable Webcam" : "Enable Webcam"}
         </Button>
       </div>
+
+      <StressCalibration
+        webcamRef={webcamRef}
+        isWebCamEnabled={isWebCamEnabled}
+        className="w-full md:w-96 self-center"
+      />
     </div>
   );
 };
@@ -0,0 +1,189 @@
+import { useAuth } from "@clerk/clerk-react";
+import { Flame, Trophy } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { CustomBreadCrumb } from "@/components/custom-bread-crumb";
+import { Headings } from "@/components/headings";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardDescription, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  ProgressSummary,
+  TrendPoint,
+  computeProgressAnalytics,
+  loadAnswerTotals,
+  loadProgress,
+  needsProgressRebuild,
+  rebuildProgress } from
+"@/lib/progress";
+import { renderTimelineChart } from "@/lib/report-charts";
+
+const formatDay = (timestamp: number) =>
+new Date(timestamp).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+
+interface TrendChartProps {
+  title: string;
+  points: TrendPoint[];
+  color: string;
+  min: number;
+  max: number;
+  unit?: string;
+}
+
+const TrendChart = ({ title, points, color, min, max, unit }: TrendChartProps) => {
+  const svg = renderTimelineChart(points, { title, color, min, max, unit, formatTime: formatDay });
+
+  return (
+    <Card className="p-4 shadow-none">
+      {svg ?
+      <div className="[&>svg]:w-full [&>svg]:h-auto" dangerouslySetInnerHTML={{ __html: svg }} /> :
+
+      <>
+          <CardTitle className="text-sm">{title}</CardTitle>
+          <CardDescription className="mt-2">Practice on at least two days to see a trend.</CardDescription>
+        </>
+      }
+    </Card>);
+
+};
+
+export const Progress = () => {
+  const { userId } = useAuth();
+  const [summary, setSummary] = useState<ProgressSummary | null>(null);
+  const [averageRating, setAverageRating] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+
+    const fetchProgress = async () => {
+      setLoading(true);
+      try {
+        const [stored, totals] = await Promise.all([loadProgress(userId), loadAnswerTotals(userId)]);
+        const current = needsProgressRebuild(stored) ? await rebuildProgress(userId) : stored;
+        if (!cancelled) {
+          setSummary(current);
+          setAverageRating(totals.averageRating);
+        }
+      } catch (error) {
+        console.error("Error loading progress:", error);
+        toast.error("Error..", {
+          description: "Something went wrong. Please try again later.."
+        });
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    fetchProgress();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const analytics = useMemo(() => summary ? computeProgressAnalytics(summary) : null, [summary]);
+
+  return (
+    <div className="flex flex-col w-full gap-6 py-5">
+      <CustomBreadCrumb
+        breadCrumbPage={"Progress"}
+        breadCrumpItems={[{ label: "Mock Interviews", link: "/generate" }]} />
+
+
+      <Headings
+        title="Your Progress"
+        description="How your answers have developed across every mock interview." />
+
+
+      <Separator />
+
+      {loading ?
+      <div className="grid md:grid-cols-4 gap-3">
+          {Array.from({ length: 8 }).map((_, index) =>
+        <Skeleton key={index} className="h-24 rounded-md" />
+        )}
+        </div> :
+      !analytics || analytics.answers === 0 ?
+      <p className="text-sm text-muted-foreground">
+          No answers saved yet. Complete a mock interview to start tracking your progress.
+        </p> :
+
+      <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <Card className="p-4 shadow-none">
+              <CardDescription>Answers</CardDescription>
+              <CardTitle className="text-2xl">{analytics.answers}</CardTitle>
+              <CardDescription>Repeat attempts included</CardDescription>
+            </Card>
+            <Card className="p-4 shadow-none">
+              <CardDescription>Average rating</CardDescription>
+              <CardTitle className="text-2xl text-emerald-500">{averageRating.toFixed(1)} / 10</CardTitle>
+            </Card>
+            <Card className="p-4 shadow-none">
+              <CardDescription className="flex items-center gap-1">
+                <Flame className="w-4 h-4 text-orange-500" /> Current streak
+              </CardDescription>
+              <CardTitle className="text-2xl">
+                {analytics.currentStreak} {analytics.currentStreak === 1 ? "day" : "days"}
+              </CardTitle>
+            </Card>
+            <Card className="p-4 shadow-none">
+              <CardDescription className="flex items-center gap-1">
+                <Trophy className="w-4 h-4 text-yellow-500" /> Longest streak
+              </CardDescription>
+              <CardTitle className="text-2xl">
+                {analytics.longestStreak} {analytics.longestStreak === 1 ? "day" : "days"}
+              </CardTitle>
+              <CardDescription>{analytics.practiceDays} practice days</CardDescription>
+            </Card>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-3">
+            <TrendChart title="Average rating" points={analytics.ratingTrend} color="#10b981" min={0} max={10} />
+            <TrendChart title="Time under stress" points={analytics.stressTrend} color="#e11d48" min={0} max={100} unit="%" />
+            <TrendChart title="Speaking rate" points={analytics.wpmTrend} color="#ea580c" min={0} max={250} unit=" wpm" />
+
+            <Card className="p-4 shadow-none space-y-3">
+              <CardTitle className="text-sm">Average rating by tech stack</CardTitle>
+              {analytics.techStacks.length === 0 ?
+            <CardDescription>No tech stacks recorded yet.</CardDescription> :
+
+            analytics.techStacks.slice(0, 8).map((stack) =>
+            <div key={stack.name} className="space-y-1">
+                    <div className="flex justify-between text-sm">
+                      <span>{stack.name}</span>
+                      <span className="text-muted-foreground">
+                        {stack.averageRating} / 10 ({stack.answers} answers)
+                      </span>
+                    </div>
+                    <div className="h-2 rounded bg-gray-100">
+                      <div className="h-2 rounded bg-emerald-400" style={{ width: `${stack.averageRating * 10}%` }} />
+                    </div>
+                  </div>
+            )
+            }
+            </Card>
+          </div>
+
+          <Card className="p-4 shadow-none space-y-3">
+            <CardTitle className="text-sm">Recurring weak topics</CardTitle>
+            {analytics.weakTopics.length === 0 ?
+          <CardDescription>No topic has come up in the feedback more than once.</CardDescription> :
+
+          <div className="flex flex-wrap gap-2">
+                {analytics.weakTopics.map(({ topic, count }) =>
+            <Badge key={topic} variant="outline" className="text-sm font-normal">
+                    {topic} <span className="ml-1 text-muted-foreground">x{count}</span>
+                  </Badge>
+            )}
+              </div>
+          }
+            <CardDescription>Drawn from the feedback on answers rated 6 or lower.</CardDescription>
+          </Card>
+        </>
+      }
+    </div>);
+
+};
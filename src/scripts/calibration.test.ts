@@ -0,0 +1,55 @@
+import { FixtureProvider, SendOptions } from './providers';
+import { CALIBRATION_CASES, detectDrift, runCalibration } from './calibration';
+
+// Stands in for the real session, which reads provider settings from import.meta.env
+jest.mock('@/scripts', () => ({
+  EnhancedChatSession: class {
+    provider: FixtureProvider;
+
+    constructor(provider: FixtureProvider) {
+      this.provider = provider;
+    }
+
+    async sendMessage(message: string, options: SendOptions = {}) {
+      const text = await this.provider.generate('fixture', [{ role: 'user', content: message }], undefined, options);
+      return { response: { text: () => text } };
+    }
+
+    sendMessageStream(message: string, options: SendOptions = {}) {
+      return this.sendMessage(message, options);
+    }
+  }
+}));
+
+describe('runCalibration', () => {
+  test('should compare the ratings with the targets', async () => {
+    const progress: number[] = [];
+    const report = await runCalibration({ provider: new FixtureProvider(), onProgress: (done) => progress.push(done) });
+
+    // The fixture scores every criterion 7
+    expect(report.results.map((result) => result.rating)).toEqual(CALIBRATION_CASES.map(() => 7));
+    expect(report.results.find((result) => result.id === 'memory-leak')?.pass).toBe(true);
+    expect(report.results.find((result) => result.id === 'closure-wrong')?.pass).toBe(false);
+    expect(report.bias).toBe(1.25);
+    expect(report.meanAbsoluteError).toBe(2.25);
+    expect(report.models).toEqual(['fixture']);
+    expect(progress).toHaveLength(CALIBRATION_CASES.length);
+  });
+});
+
+describe('detectDrift', () => {
+  test('should flag ratings that moved past their tolerance', async () => {
+    const baseline = await runCalibration({ provider: new FixtureProvider(), samples: 1 });
+    const current = {
+      ...baseline,
+      models: ['other-model'],
+      results: baseline.results.map((result) => result.id === 'closure-wrong' ? { ...result, rating: 2 } : result)
+    };
+
+    const drift = detectDrift(current, baseline);
+    expect(drift.drifted).toBe(true);
+    expect(drift.modelsChanged).toBe(true);
+    expect(drift.changedCases).toEqual([{ id: 'closure-wrong', previous: 7, current: 2 }]);
+    expect(detectDrift(baseline, baseline).drifted).toBe(false);
+  });
+});
@@ -0,0 +1,245 @@
+import { EnhancedChatSession } from "@/scripts";
+import { QuestionType } from "@/types";
+import { LLMProvider } from "./providers";
+import { gradeAnswer } from "./grading";
+
+/**
+ * Grader calibration.
+ *
+ * A fixed set of reference answers with the rating a careful human grader
+ * would give. Running the grader over them with any provider shows how far
+ * its ratings are from those targets; comparing a run with a saved baseline
+ * shows whether switching models (or a provider silently updating one) has
+ * moved the grader. Runs are sequential to stay within rate limits.
+ */
+
+/** A rating this far from the target still passes. */
+export const DEFAULT_TOLERANCE = 1.5;
+/** Mean rating shift against the baseline that counts as drift. */
+export const DRIFT_BIAS_THRESHOLD = 1;
+/** Increase in mean absolute error against the baseline that counts as drift. */
+export const DRIFT_ERROR_THRESHOLD = 0.75;
+
+const BASELINE_STORAGE_KEY = "graderCalibrationBaseline";
+
+export interface CalibrationCase {
+  id: string;
+  type: QuestionType;
+  question: string;
+  referenceAnswer: string;
+  userAnswer: string;
+  /** Expected overall rating, 1-10. */
+  target: number;
+  tolerance?: number;
+}
+
+export const CALIBRATION_CASES: CalibrationCase[] = [
+{
+  id: "closure-strong",
+  type: "coding-concept",
+  question: "What is a closure in JavaScript?",
+  referenceAnswer: "A function bundled with references to its surrounding lexical scope, so it can access those variables after the outer function has returned.",
+  userAnswer: "A closure is a function together with the lexical scope it was created in. When an inner function is returned from an outer function it still has access to the outer variables, even though the outer function has finished. For example a counter factory returns a function that increments a private count variable. Closures are used for data privacy and for callbacks, but they can keep large objects alive in memory if you are not careful.",
+  target: 9
+},
+{
+  id: "closure-wrong",
+  type: "coding-concept",
+  question: "What is a closure in JavaScript?",
+  referenceAnswer: "A function bundled with references to its surrounding lexical scope, so it can access those variables after the outer function has returned.",
+  userAnswer: "A closure is when you close the connection to the database at the end of a function so that it does not leak. You should always do it in a finally block.",
+  target: 2
+},
+{
+  id: "event-loop-partial",
+  type: "coding-concept",
+  question: "How does the event loop work in Node.js?",
+  referenceAnswer: "Node runs JavaScript on a single thread; the event loop takes callbacks from queues in phases (timers, I/O callbacks, poll, check, close) and runs microtasks such as resolved promises between them, while libuv handles I/O in the background.",
+  userAnswer: "The event loop is what makes Node asynchronous. It keeps checking if there is something to do and runs callbacks when they are ready, so it does not block.",
+  target: 5
+},
+{
+  id: "conflict-star",
+  type: "behavioral",
+  question: "Tell me about a time you disagreed with a teammate.",
+  referenceAnswer: "A specific situation, the candidate's task, the actions they took to resolve the disagreement constructively, and a measurable result with what they learned.",
+  userAnswer: "On my last project a teammate wanted to rewrite our checkout in a new framework two weeks before a release. I was responsible for the release, so I asked for a short meeting where we listed the risks and benefits together. I suggested we ship on time and prototype the rewrite behind a feature flag afterwards. He agreed, we released on schedule with no incidents, and the prototype later showed a thirty percent faster page load, so the team adopted it the next quarter. I learned to turn disagreements into small experiments.",
+  target: 8
+},
+{
+  id: "conflict-vague",
+  type: "behavioral",
+  question: "Tell me about a time you disagreed with a teammate.",
+  referenceAnswer: "A specific situation, the candidate's task, the actions they took to resolve the disagreement constructively, and a measurable result with what they learned.",
+  userAnswer: "I usually get along with everyone. If there is a disagreement I think it is important to communicate and listen to each other and then it works out.",
+  target: 3
+},
+{
+  id: "url-shortener",
+  type: "system-design",
+  question: "Design a URL shortener.",
+  referenceAnswer: "Requirements and scale estimates, an API, key generation (counter with base62 or hashing with collision handling), a key-value store, caching of hot links, redirects with 301/302, analytics and how to scale reads.",
+  userAnswer: "I would have an API that takes a long URL and returns a short code. The code is a base62 encoding of a counter from a distributed ID generator, so there are no collisions. Mappings go in a key-value store like DynamoDB. Reads are much more common than writes, so I would put a cache such as Redis in front and serve redirects from it. Analytics can be sent to a queue asynchronously so redirects stay fast.",
+  target: 7
+},
+{
+  id: "memory-leak",
+  type: "debugging",
+  question: "A Node.js service's memory grows until it crashes every few hours. How do you debug it?",
+  referenceAnswer: "Confirm the leak with metrics, reproduce it, take and compare heap snapshots, find retained objects (caches, listeners, closures), fix, and verify with a load test and monitoring.",
+  userAnswer: "First I would confirm it is a leak by looking at the heap metrics over time. Then I would reproduce it locally with a load test and take two heap snapshots a few minutes apart and compare them to see which objects keep growing. Common causes are unbounded caches or event listeners that are never removed. After fixing it I would run the load test again and add an alert on memory usage.",
+  target: 8
+},
+{
+  id: "feedback-generic",
+  type: "culture-fit",
+  question: "How do you handle critical feedback on your code?",
+  referenceAnswer: "Openness to feedback with a specific example of receiving criticism, how they responded, and what changed as a result.",
+  userAnswer: "I think feedback is very important and I always appreciate it. I try to learn from it.",
+  target: 4
+}];
+
+
+export interface CalibrationResult {
+  id: string;
+  type: QuestionType;
+  target: number;
+  /** Null when grading failed. */
+  rating: number | null;
+  spread?: number;
+  pass: boolean;
+}
+
+export interface CalibrationReport {
+  provider: string;
+  models: string[];
+  samples: number;
+  runAt: number;
+  results: CalibrationResult[];
+  meanAbsoluteError: number;
+  /** Mean of rating minus target: positive when the grader is too lenient. */
+  bias: number;
+  passRate: number;
+}
+
+export interface CalibrationDrift {
+  drifted: boolean;
+  modelsChanged: boolean;
+  biasShift: number;
+  errorChange: number;
+  /** Cases whose rating moved by more than their tolerance. */
+  changedCases: Array<{id: string;previous: number;current: number;}>;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const summarizeCalibration = (
+results: CalibrationResult[],
+run: Pick<CalibrationReport, "provider" | "models" | "samples" | "runAt">)
+: CalibrationReport => {
+  const graded = results.filter((result): result is CalibrationResult & {rating: number;} => result.rating !== null);
+  const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+  return {
+    ...run,
+    results,
+    meanAbsoluteError: round(mean(graded.map((result) => Math.abs(result.rating - result.target)))),
+    bias: round(mean(graded.map((result) => result.rating - result.target))),
+    passRate: round(results.filter((result) => result.pass).length / Math.max(1, results.length))
+  };
+};
+
+interface CalibrationOptions {
+  provider: LLMProvider;
+  /** Ratings sampled per case, as in consistent scoring. */
+  samples?: number;
+  cases?: CalibrationCase[];
+  onProgress?: (done: number, total: number) => void;
+}
+
+export const runCalibration = async ({
+  provider,
+  samples = 3,
+  cases = CALIBRATION_CASES,
+  onProgress
+}: CalibrationOptions): Promise<CalibrationReport> => {
+  const session = new EnhancedChatSession(provider);
+  const results: CalibrationResult[] = [];
+
+  for (const item of cases) {
+    const tolerance = item.tolerance ?? DEFAULT_TOLERANCE;
+    try {
+      const grade = await gradeAnswer({
+        question: item.question,
+        referenceAnswer: item.referenceAnswer,
+        userAnswer: item.userAnswer,
+        type: item.type,
+        samples,
+        session
+      });
+      results.push({
+        id: item.id,
+        type: item.type,
+        target: item.target,
+        rating: grade.rating,
+        ...(grade.consistency ? { spread: grade.consistency.spread } : {}),
+        pass: Math.abs(grade.rating - item.target) <= tolerance
+      });
+    } catch (error) {
+      console.warn(`Calibration case "${item.id}" failed:`, error);
+      results.push({ id: item.id, type: item.type, target: item.target, rating: null, pass: false });
+    }
+    onProgress?.(results.length, cases.length);
+  }
+
+  return summarizeCalibration(results, {
+    provider: provider.name,
+    models: provider.models.map((model) => model.model),
+    samples,
+    runAt: Date.now()
+  });
+};
+
+/**
+ * Compare a run with the baseline it should match.
+ */
+export const detectDrift = (
+report: CalibrationReport,
+baseline: CalibrationReport,
+cases: CalibrationCase[] = CALIBRATION_CASES)
+: CalibrationDrift => {
+  const changedCases = report.results.flatMap((result) => {
+    const previous = baseline.results.find((item) => item.id === result.id)?.rating;
+    const tolerance = cases.find((item) => item.id === result.id)?.tolerance ?? DEFAULT_TOLERANCE;
+    if (previous == null || result.rating === null || Math.abs(result.rating - previous) <= tolerance) return [];
+    return [{ id: result.id, previous, current: result.rating }];
+  });
+  const biasShift = round(report.bias - baseline.bias);
+  const errorChange = round(report.meanAbsoluteError - baseline.meanAbsoluteError);
+
+  return {
+    drifted: Math.abs(biasShift) >= DRIFT_BIAS_THRESHOLD || errorChange >= DRIFT_ERROR_THRESHOLD || changedCases.length > 0,
+    modelsChanged: report.provider !== baseline.provider || report.models.join(",") !== baseline.models.join(","),
+    biasShift,
+    errorChange,
+    changedCases
+  };
+};
+
+export const loadCalibrationBaseline = (): CalibrationReport | null => {
+  try {
+    const stored = localStorage.getItem(BASELINE_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.warn("Failed to load calibration baseline:", error);
+    return null;
+  }
+};
+
+export const saveCalibrationBaseline = (report: CalibrationReport) => {
+  try {
+    localStorage.setItem(BASELINE_STORAGE_KEY, JSON.stringify(report));
+  } catch (error) {
+    console.warn("Failed to save calibration baseline:", error);
+  }
+};
@@ -0,0 +1,43 @@
+import { z } from "zod";
+import { generateStructured } from "./structured";
+
+/**
+ * Semantic duplicate checks for the question bank. Questions phrased alike
+ * are matched locally (see "@/lib/question-bank"); the model is only asked
+ * about shortlisted pairs, to catch the same question asked in other words.
+ */
+
+export interface QuestionPair {
+  question: string;
+  candidate: string;
+}
+
+export const createSameQuestionSchema = (pairs: number) =>
+z.object({
+  same: z.array(z.boolean()).length(pairs, `expected exactly ${pairs} answers`)
+});
+
+/**
+ * For each pair, whether both questions test the same knowledge, so an
+ * interview should not ask both.
+ */
+export const judgeSameQuestions = async (pairs: QuestionPair[]): Promise<boolean[]> => {
+  if (pairs.length === 0) return [];
+
+  const prompt = `
+    You are curating a bank of interview questions. For each numbered pair below, decide whether the two
+    questions ask the same thing: a candidate's answer to one would also answer the other, even if they are
+    worded differently. Questions about related but different concepts are not the same.
+
+    ${pairs.map((pair, i) => `${i + 1}. A: "${pair.question}"\n       B: "${pair.candidate}"`).join("\n")}
+
+    Return only a JSON object with one boolean per pair, in order:
+    { "same": [true | false, ...] }
+  `;
+
+  const result = await generateStructured(prompt, createSameQuestionSchema(pairs.length), {
+    operation: "duplicateCheck",
+    expected: { kind: "same-question", pairs: pairs.length }
+  });
+  return result.same;
+};
@@ -0,0 +1,81 @@
+import { z } from "zod";
+import { FollowUpQuestion, InterviewQuestion } from "@/types";
+import { generateStructured } from "./structured";
+
+/**
+ * Adaptive interview follow-ups. After an answer is rated, the model decides
+ * whether a follow-up is worth asking and, if so, writes one that probes the
+ * weakest part of the answer.
+ */
+
+export const followUpSchema = z.object({
+  needed: z.boolean(),
+  kind: z.enum(["drill-down", "clarification", "scale"]).optional(),
+  question: z.string().trim().optional(),
+  answer: z.string().trim().optional()
+}).refine(
+  (value) => !value.needed || !!value.kind && !!value.question && !!value.answer,
+  "kind, question and answer are required when needed is true"
+);
+
+interface FollowUpRequest {
+  question: InterviewQuestion;
+  depth: number;
+  userAnswer: string;
+  rating: number;
+  feedback: string;
+}
+
+/**
+ * Returns a follow-up for the answered question, or null when the model
+ * considers the answer complete enough to move on.
+ */
+export const generateFollowUp = async ({
+  question,
+  depth,
+  userAnswer,
+  rating,
+  feedback
+}: FollowUpRequest): Promise<FollowUpQuestion | null> => {
+  const prompt = `
+    You are conducting a live technical interview. The candidate just answered a question.
+
+    Question: "${question.question}"
+    Reference Answer: "${question.answer}"
+    Candidate Answer: "${userAnswer}"
+    Rating: ${rating}/10
+    Reviewer Feedback: "${feedback}"
+
+    Decide whether a single follow-up question would reveal more about the candidate's understanding.
+    Ask one only if the answer was vague, incomplete or left an obvious weak point. Choose the kind:
+    - "drill-down": dig deeper into a shallow or partially correct point
+    - "clarification": ask the candidate to clarify something ambiguous or contradictory
+    - "scale": probe how the approach holds up under change (e.g. 10x scale, failures, edge cases)
+
+    Return only a JSON object:
+    {
+      "needed": boolean,
+      "kind": "drill-down" | "clarification" | "scale",
+      "question": "<Follow-up question text>",
+      "answer": "<Ideal answer to the follow-up>"
+    }
+    If no follow-up is needed, return { "needed": false }.
+  `;
+
+  const result = await generateStructured(prompt, followUpSchema, {
+    operation: "followUpGeneration",
+    expected: { kind: "follow-up" }
+  });
+  if (!result.needed) {
+    return null;
+  }
+
+  return {
+    id: crypto.randomUUID(),
+    parentQuestion: question.question,
+    kind: result.kind!,
+    question: result.question!,
+    answer: result.answer!,
+    depth: depth + 1
+  };
+};
@@ -0,0 +1,73 @@
+import { RubricScore } from '@/types';
+import { aggregateGrades, gradeAnswer, median } from './grading';
+
+// The real chat session reads provider settings from import.meta.env
+jest.mock('@/scripts', () => ({
+  chatSession: {}
+}));
+
+const score = (criterion: RubricScore['criterion'], value: number, weight: number): RubricScore => ({
+  criterion,
+  score: value,
+  weight,
+  evidence: [],
+  comment: `${criterion} ${value}`
+});
+
+const sample = (correctness: number, depth: number) => ({
+  feedback: `Sample ${correctness}/${depth}`,
+  rubric: [score('correctness', correctness, 0.5), score('depth', depth, 0.5)]
+});
+
+describe('median', () => {
+  test('should take the middle value, or the mean of the two middle ones', () => {
+    expect(median([7, 3, 9])).toBe(7);
+    expect(median([4, 8, 6, 2])).toBe(5);
+  });
+});
+
+describe('aggregateGrades', () => {
+  test('should use the median of each criterion', () => {
+    const result = aggregateGrades([sample(8, 6), sample(4, 7), sample(7, 9)]);
+
+    expect(result.rubric.map((item) => item.score)).toEqual([7, 7]);
+    expect(result.rating).toBe(7);
+    expect(result.feedback).toBe('Sample 8/6');
+    expect(result.consistency).toEqual({ samples: [7, 5.5, 8], spread: 1, confidence: 0.6 });
+  });
+
+  test('should report no consistency for a single sample', () => {
+    expect(aggregateGrades([sample(6, 8)]).consistency).toBeUndefined();
+  });
+});
+
+describe('gradeAnswer', () => {
+  test('should grade with the samples that succeed', async () => {
+    const replies = [
+    Promise.reject(new Error('overloaded')),
+    Promise.resolve(JSON.stringify({
+      feedback: 'Give an example.',
+      criteria: ['correctness', 'depth', 'structure', 'communication'].map((criterion) => ({
+        criterion,
+        score: 6,
+        evidence: ['not said'],
+        comment: 'ok'
+      }))
+    }))];
+
+    const reply = () => replies.shift()!.then((text) => ({ response: { text: () => text } }));
+
+    const result = await gradeAnswer({
+      question: 'What is a closure?',
+      referenceAnswer: 'A function with its lexical scope.',
+      userAnswer: 'A function that remembers variables.',
+      type: 'coding-concept',
+      samples: 2,
+      session: { sendMessage: jest.fn(reply), sendMessageStream: jest.fn(reply) }
+    });
+
+    expect(result.rating).toBe(6);
+    expect(result.rubric[0].evidence).toEqual([]);
+    expect(result.consistency).toBeUndefined();
+  });
+});
@@ -0,0 +1,164 @@
+import { chatSession } from "@/scripts";
+import { CVData, QuestionType, RatingConsistency, RubricScore } from "@/types";
+import { getRubric, overallRating, verifyEvidence } from "@/lib/rubrics";
+import { createRubricRatingSchema, generateStructured } from "./structured";
+
+/**
+ * Answer grading.
+ *
+ * The same answer can get different scores from one request to the next, so
+ * grading can sample several independent ratings. Each criterion then gets
+ * the median of its sampled scores, and how far the samples' overall
+ * ratings spread says how much the rating can be trusted.
+ */
+
+/** Spread of sampled ratings (standard deviation) at which confidence reaches 0. */
+export const MAX_CONSISTENT_SPREAD = 2.5;
+
+export interface GradeRequest {
+  question: string;
+  referenceAnswer: string;
+  userAnswer: string;
+  type: QuestionType;
+  cvData?: CVData | null;
+  /** Independent ratings to take. 1 (the default) is a single request. */
+  samples?: number;
+  /** Streams the feedback tip of the first sample. */
+  onText?: (text: string) => void;
+  session?: Pick<typeof chatSession, "sendMessage" | "sendMessageStream">;
+}
+
+export interface GradeSample {
+  feedback: string;
+  rubric: RubricScore[];
+}
+
+export interface GradeResult extends GradeSample {
+  rating: number;
+  /** Only when more than one sample was taken. */
+  consistency?: RatingConsistency;
+}
+
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+export const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const standardDeviation = (values: number[]) => {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+};
+
+/**
+ * Combine sampled grades: median score per criterion, and the comments,
+ * evidence and tip of the sample whose rating is closest to the result.
+ */
+export const aggregateGrades = (samples: GradeSample[]): GradeResult => {
+  const scores = samples[0].rubric.map(({ criterion, weight }) => ({
+    criterion,
+    weight,
+    score: median(samples.map((sample) => sample.rubric.find((item) => item.criterion === criterion)?.score ?? 0))
+  }));
+  const rating = overallRating(scores);
+
+  const ratings = samples.map((sample) => overallRating(sample.rubric));
+  const closest = samples[ratings.reduce((best, value, i) =>
+  Math.abs(value - rating) < Math.abs(ratings[best] - rating) ? i : best, 0)];
+
+  const result: GradeResult = {
+    rating,
+    feedback: closest.feedback,
+    rubric: closest.rubric.map((item) => ({
+      ...item,
+      score: scores.find((score) => score.criterion === item.criterion)!.score
+    }))
+  };
+
+  if (samples.length > 1) {
+    const spread = round(standardDeviation(ratings));
+    result.consistency = {
+      samples: ratings,
+      spread,
+      confidence: round(Math.max(0, 1 - spread / MAX_CONSISTENT_SPREAD), 2)
+    };
+  }
+  return result;
+};
+
+const buildPrompt = ({ question, referenceAnswer, userAnswer, type, cvData }: GradeRequest) => {
+  const rubric = getRubric(type, !!cvData);
+  return `
+      Question: "${question}"
+      User Answer: "${userAnswer}"
+      Correct Answer: "${referenceAnswer}"
+      ${cvData ? `
+      Candidate CV Text:
+      ${cvData.rawText}
+      ` : ''}
+      Score the answer from 1 to 10 on each of these criteria:
+      ${rubric.map((item) => `- "${item.criterion}": ${item.guidance}`).join("\n")}
+
+      For each criterion, quote the exact words from the User Answer that justify the score as evidence
+      (copy them verbatim; use an empty list if nothing in the answer applies) and add a one-sentence comment.
+      Then give one brief, actionable tip for improving the answer.
+
+      Return only a JSON object:
+      {
+        "feedback": "Brief actionable content improvement tip",
+        "criteria": [
+          { "criterion": "<criterion>", "score": number (1-10), "evidence": ["<quote>", ...], "comment": "<comment>" },
+          ...
+        ]
+      }
+    `;
+};
+
+/**
+ * Rate an answer against its question type's rubric. With several samples
+ * the requests run in parallel; samples that fail are left out, and the
+ * first error is only thrown when none succeed.
+ */
+export const gradeAnswer = async (request: GradeRequest): Promise<GradeResult> => {
+  const { samples = 1, onText, session, userAnswer } = request;
+  const rubric = getRubric(request.type, !!request.cvData);
+  const prompt = buildPrompt(request);
+  const schema = createRubricRatingSchema(rubric.map((item) => item.criterion));
+
+  const settled = await Promise.allSettled(Array.from({ length: Math.max(1, samples) }, (_, i) =>
+  generateStructured(prompt, schema, {
+    operation: "answerRating",
+    expected: { kind: "rubric-rating", criteria: rubric.map((item) => item.criterion) },
+    onText: i === 0 ? onText : undefined,
+    session
+  })
+  ));
+
+  const graded: GradeSample[] = settled.flatMap((outcome) => {
+    if (outcome.status === "rejected") return [];
+    return [{
+      feedback: outcome.value.feedback,
+      rubric: rubric.map(({ criterion, weight }) => {
+        const scored = outcome.value.criteria.find((item) => item.criterion === criterion)!;
+        return {
+          criterion,
+          weight,
+          score: scored.score,
+          evidence: verifyEvidence(scored.evidence, userAnswer),
+          comment: scored.comment
+        };
+      })
+    }];
+  });
+
+  if (graded.length === 0) {
+    throw (settled[0] as PromiseRejectedResult).reason;
+  }
+  if (graded.length < settled.length) {
+    console.warn(`${settled.length - graded.length} of ${settled.length} rating samples failed`);
+  }
+  return aggregateGrades(graded);
+};
@@ -1,23 +1,26 @@
-import {
-  GoogleGenerativeAI,
-  HarmCategory,
-  HarmBlockThreshold,
-  GenerativeModel,
-  ChatSession } from
-"@google/generative-ai";
 import { quotaMonitor } from "@/lib/quota-monitor";
+import {
+  ChatMessage,
+  createProviderFromEnv,
+  GenerationConfig,
+  LLMProvider,
+  LLMResult,
+  SendOptions,
+  toResult } from
+"./providers";
+
+
+export interface RequestOptions extends SendOptions {
+  /** Label the request is tracked under in the quota monitor. */
+  operation?: string;
+}
 
-const apiKey = import.meta.env.VITE_GEMINI_API_KEY!;
-const genAI = new GoogleGenerativeAI(apiKey);
-
-
-const modelConfigs = [
-{ model: "gemini-2.0-flash-exp", priority: 1 },
-{ model: "gemini-1.5-flash", priority: 2 },
-{ model: "gemini-1.5-pro", priority: 3 }];
+export interface StreamOptions extends RequestOptions {
+  onText?: (text: string, delta: string) => void;
+}
 
 
-const generationConfig = {
+const generationConfig: GenerationConfig = {
   temperature: 0.7,  // Reduced from 1 to get more focused responses
   topP: 0.95,
   topK: 40,
@@ -25,25 +28,6 @@ const generationConfig = {
   responseMimeType: "text/plain"
 };
 
-const safetySettings = [
-{
-  category: HarmCategory.HARM_CATEGORY_HARASSMENT,
-  threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE
-},
-{
-  category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
-  threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE
-},
-{
-  category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
-  threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE
-},
-{
-  category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
-  threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE
-}];
-
-
 
 const RETRY_CONFIG = {
   maxRetries: 3,
@@ -73,89 +57,78 @@ const isRetryableError = (error: any): boolean => {
 };
 
 
-const getModelWithFallback = (modelName: string): GenerativeModel => {
-  try {
-    return genAI.getGenerativeModel({ model: modelName });
-  } catch (error) {
-    console.warn(`Failed to initialize model ${modelName}:`, error);
-    throw error;
-  }
-};
+const buildContinuationPrompt = (message: string, partial: string) => `
+${message}
+
+Your previous response was interrupted. This is what had already been produced:
+${partial}
+
+Continue exactly where it stopped. Do not repeat any of the text above and do not add explanations.
+`;
 
 
+/**
+ * Sends requests through the configured provider with retry and model
+ * fallback. Every call is stateless: only the messages passed in are sent,
+ * so prompts never pick up history from unrelated requests. Use
+ * `startConversation()` when a multi-turn exchange is actually intended.
+ *
+ * Each request starts at the primary model and tracks its own fallback, so
+ * requests running in parallel (e.g. rating samples) never move each other
+ * back to a model that is failing.
+ */
 class EnhancedChatSession {
-  private currentModel: GenerativeModel;
-  private currentSession: ChatSession;
-  private currentModelIndex: number = 0;
-
-  constructor() {
-    this.currentModel = getModelWithFallback(modelConfigs[0].model);
-    this.currentSession = this.currentModel.startChat({
-      generationConfig,
-      safetySettings
-    });
+  private provider: LLMProvider;
+  // The model that answered the latest successful request, for display only
+  private lastModelIndex: number = 0;
+
+  constructor(provider: LLMProvider = createProviderFromEnv()) {
+    this.provider = provider;
   }
 
-  private async switchToNextModel(): Promise<boolean> {
-    if (this.currentModelIndex < modelConfigs.length - 1) {
-      this.currentModelIndex++;
-      const nextModelConfig = modelConfigs[this.currentModelIndex];
+  private get modelConfigs() {
+    return this.provider.models;
+  }
 
-      try {
-        console.log(`Switching to fallback model: ${nextModelConfig.model}`);
-        this.currentModel = getModelWithFallback(nextModelConfig.model);
-        this.currentSession = this.currentModel.startChat({
-          generationConfig,
-          safetySettings
-        });
-        return true;
-      } catch (error) {
-        console.warn(`Failed to switch to model ${nextModelConfig.model}:`, error);
-        return false;
-      }
+  private recordUsage(operation: string, model: string, messages: ChatMessage[], responseText: string) {
+    const promptLength = messages.reduce((total, message) => total + message.content.length, 0);
+    const estimatedTokens = Math.ceil((promptLength + responseText.length) / 4); // Rough estimate
+    quotaMonitor.recordUsage(
+      operation,
+      estimatedTokens,
+      model,
+      messages.length - 1
+    );
+
+    // Check for quota warnings
+    const warning = quotaMonitor.checkQuotaWarning();
+    if (warning.warning) {
+      console.warn(`[Quota Warning] ${warning.message}`);
     }
-    return false;
   }
 
-  async sendMessage(message: string): Promise<any> {
+  /**
+   * Runs a request against the primary model, retrying with backoff and
+   * falling back through the provider's models on retryable errors.
+   */
+  private async withFallback(run: (model: string) => Promise<string>): Promise<LLMResult> {
     let lastError: any;
 
 
-    for (let modelAttempt = 0; modelAttempt <= modelConfigs.length - 1; modelAttempt++) {
+    for (let modelIndex = 0; modelIndex < this.modelConfigs.length; modelIndex++) {
+      const model = this.modelConfigs[modelIndex].model;
+      if (modelIndex > 0) {
+        console.log(`Switching to fallback model: ${model}`);
+      }
 
       for (let attempt = 0; attempt <= RETRY_CONFIG.maxRetries; attempt++) {
         try {
-          const result = await this.currentSession.sendMessage(message);
-
-          // Track quota usage
-          const responseText = result.response.text();
-          const estimatedTokens = Math.ceil((message.length + responseText.length) / 4); // Rough estimate
-          quotaMonitor.recordUsage(
-            'sendMessage', 
-            estimatedTokens, 
-            modelConfigs[this.currentModelIndex].model
-          );
-
-          // Check for quota warnings
-          const warning = quotaMonitor.checkQuotaWarning();
-          if (warning.warning) {
-            console.warn(`[Quota Warning] ${warning.message}`);
-          }
-
-          if (this.currentModelIndex > 0) {
-            console.log('Resetting to primary model after successful request');
-            this.currentModelIndex = 0;
-            this.currentModel = getModelWithFallback(modelConfigs[0].model);
-            this.currentSession = this.currentModel.startChat({
-              generationConfig,
-              safetySettings
-            });
-          }
-
-          return result;
+          const responseText = await run(model);
+          this.lastModelIndex = modelIndex;
+          return toResult(responseText);
         } catch (error) {
           lastError = error;
-          console.warn(`Attempt ${attempt + 1} failed with model ${modelConfigs[this.currentModelIndex].model}:`, error);
+          console.warn(`Attempt ${attempt + 1} failed with model ${model}:`, error);
 
           if (!isRetryableError(error)) {
 
@@ -172,42 +145,136 @@ class EnhancedChatSession {
           }
         }
       }
+    }
+
+
+    throw new Error(`All models failed. Last error: ${lastError?.message || 'Unknown error'}`);
+  }
+
+  /**
+   * Generate a reply for an explicit message list.
+   */
+  async generate(messages: ChatMessage[], options: RequestOptions = {}): Promise<LLMResult> {
+    const { operation = 'generate', ...sendOptions } = options;
+
+    return this.withFallback(async (model) => {
+      const responseText = await this.provider.generate(model, messages, generationConfig, sendOptions);
+      this.recordUsage(operation, model, messages, responseText);
+      return responseText;
+    });
+  }
 
+  /**
+   * Streaming variant of generate. `onText` receives the full text so far
+   * on every chunk. If a stream breaks part-way, the text already received is
+   * kept and the retry (on the same or the next fallback model) is asked to
+   * continue from it instead of starting over.
+   */
+  async generateStream(messages: ChatMessage[], options: StreamOptions = {}): Promise<LLMResult> {
+    const { onText, operation = 'generateStream', ...sendOptions } = options;
+    const lastMessage = messages[messages.length - 1];
+    let partial = "";
+
+    return this.withFallback(async (model) => {
+      const attemptMessages: ChatMessage[] = partial ?
+      [...messages.slice(0, -1), { role: "user", content: buildContinuationPrompt(lastMessage.content, partial) }] :
+      messages;
+      // A continuation is a fragment, so it cannot be requested as JSON.
+      const attemptOptions = partial ? { ...sendOptions, json: false } : sendOptions;
+      let attemptText = "";
 
-      if (modelAttempt < modelConfigs.length - 1) {
-        const switched = await this.switchToNextModel();
-        if (!switched) {
-          break;
+      try {
+        for await (const delta of this.provider.generateStream(model, attemptMessages, generationConfig, attemptOptions)) {
+          attemptText += delta;
+          onText?.(partial + attemptText, delta);
+        }
+      } finally {
+        if (attemptText) {
+          this.recordUsage(operation, model, attemptMessages, attemptText);
         }
+        partial += attemptText;
       }
-    }
 
+      return partial;
+    });
+  }
 
-    throw new Error(`All models failed. Last error: ${lastError?.message || 'Unknown error'}`);
+  /**
+   * One-off prompt with no history.
+   */
+  async sendMessage(message: string, options: RequestOptions = {}): Promise<LLMResult> {
+    return this.generate([{ role: "user", content: message }], { operation: 'sendMessage', ...options });
+  }
+
+  /**
+   * One-off streamed prompt with no history.
+   */
+  async sendMessageStream(message: string, options: StreamOptions = {}): Promise<LLMResult> {
+    return this.generateStream([{ role: "user", content: message }], { operation: 'sendMessageStream', ...options });
+  }
+
+  startConversation(): Conversation {
+    return new Conversation(this);
   }
 
 
   resetToPrimaryModel(): void {
-    try {
-      this.currentModelIndex = 0;
-      this.currentModel = getModelWithFallback(modelConfigs[0].model);
-      this.currentSession = this.currentModel.startChat({
-        generationConfig,
-        safetySettings
-      });
-      console.log('Reset to primary model');
-    } catch (error) {
-      console.warn('Failed to reset to primary model:', error);
-    }
+    this.lastModelIndex = 0;
+    console.log('Reset to primary model');
   }
 
 
-  getCurrentModelInfo(): {model: string;index: number;} {
+  /**
+   * The model that answered the latest successful request.
+   */
+  getCurrentModelInfo(): {model: string;index: number;provider: string;} {
     return {
-      model: modelConfigs[this.currentModelIndex].model,
-      index: this.currentModelIndex
+      model: this.modelConfigs[this.lastModelIndex].model,
+      index: this.lastModelIndex,
+      provider: this.provider.name
     };
   }
 }
 
-export const chatSession = new EnhancedChatSession();
\ No newline at end of file
+
+/**
+ * Explicit multi-turn exchange. History lives on the conversation object
+ * only, and is sent (and reported to the quota monitor) with each turn.
+ */
+class Conversation {
+  private session: EnhancedChatSession;
+  private history: ChatMessage[] = [];
+
+  constructor(session: EnhancedChatSession) {
+    this.session = session;
+  }
+
+  async sendMessage(message: string, options: RequestOptions = {}): Promise<LLMResult> {
+    const messages: ChatMessage[] = [...this.history, { role: "user", content: message }];
+    const result = await this.session.generate(messages, { operation: 'conversation', ...options });
+
+    this.history = [...messages, { role: "assistant", content: result.response.text() }];
+    return result;
+  }
+
+  async sendMessageStream(message: string, options: StreamOptions = {}): Promise<LLMResult> {
+    const messages: ChatMessage[] = [...this.history, { role: "user", content: message }];
+    const result = await this.session.generateStream(messages, { operation: 'conversation', ...options });
+
+    this.history = [...messages, { role: "assistant", content: result.response.text() }];
+    return result;
+  }
+
+  getHistory(): ChatMessage[] {
+    return [...this.history];
+  }
+
+  reset(): void {
+    this.history = [];
+  }
+}
+
+export { EnhancedChatSession, Conversation };
+export * from "./providers";
+
+export const chatSession = new EnhancedChatSession();
@@ -0,0 +1,446 @@
+import {
+  GoogleGenerativeAI,
+  HarmCategory,
+  HarmBlockThreshold,
+  Content } from
+"@google/generative-ai";
+
+/**
+ * LLM provider abstraction used by EnhancedChatSession.
+ *
+ * Each provider exposes an ordered list of models (used for fallback) and
+ * generates a reply for an explicit list of messages. Providers keep no
+ * state between calls; conversation history is owned by the caller.
+ */
+
+export type ProviderName = "gemini" | "openai" | "local" | "fixture";
+
+export interface ModelConfig {
+  model: string;
+  priority: number;
+}
+
+export interface GenerationConfig {
+  temperature: number;
+  topP: number;
+  topK: number;
+  maxOutputTokens: number;
+  responseMimeType: string;
+}
+
+export interface LLMResult {
+  response: {
+    text: () => string;
+  };
+}
+
+/**
+ * The kind of reply a request expects, with what it should contain. Models
+ * only see the prompt; the fixture provider builds its reply from this.
+ */
+export type ExpectedResponse =
+{kind: "questions";types: string[];} |
+{kind: "replacement-question";type: string;} |
+{kind: "rubric-rating";criteria: string[];} |
+{kind: "follow-up";} |
+{kind: "same-question";pairs: number;};
+
+export interface SendOptions {
+  /** Ask the model for a JSON-only response (JSON mode). */
+  json?: boolean;
+  expected?: ExpectedResponse;
+}
+
+export interface ChatMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface LLMProvider {
+  readonly name: ProviderName;
+  readonly models: ModelConfig[];
+  generate(
+  model: string,
+  messages: ChatMessage[],
+  generationConfig: GenerationConfig,
+  options?: SendOptions)
+  : Promise<string>;
+  /** Yields text deltas as the model produces them. */
+  generateStream(
+  model: string,
+  messages: ChatMessage[],
+  generationConfig: GenerationConfig,
+  options?: SendOptions)
+  : AsyncIterable<string>;
+}
+
+/**
+ * Error raised by HTTP based providers. Carries the response status so the
+ * retry logic can tell rate limits and overloads apart from bad requests.
+ */
+export class ProviderHTTPError extends Error {
+  status: number;
+
+  constructor(provider: ProviderName, status: number, message: string) {
+    super(`[${provider}] ${status}: ${message}`);
+    this.name = "ProviderHTTPError";
+    this.status = status;
+  }
+}
+
+export const toResult = (text: string): LLMResult => ({
+  response: { text: () => text }
+});
+
+const parseModelList = (value: string | undefined, fallback: string[]): ModelConfig[] => {
+  const models = value ?
+  value.split(",").map((model) => model.trim()).filter(Boolean) :
+  fallback;
+
+  return models.map((model, index) => ({ model, priority: index + 1 }));
+};
+
+
+const safetySettings = [
+{
+  category: HarmCategory.HARM_CATEGORY_HARASSMENT,
+  threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE
+},
+{
+  category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+  threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE
+},
+{
+  category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+  threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE
+},
+{
+  category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+  threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE
+}];
+
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = "gemini" as const;
+  readonly models: ModelConfig[] = [
+  { model: "gemini-2.0-flash-exp", priority: 1 },
+  { model: "gemini-1.5-flash", priority: 2 },
+  { model: "gemini-1.5-pro", priority: 3 }];
+
+  private genAI: GoogleGenerativeAI;
+
+  constructor(apiKey: string) {
+    this.genAI = new GoogleGenerativeAI(apiKey);
+  }
+
+  private getModel(model: string, generationConfig: GenerationConfig, options?: SendOptions) {
+    return this.genAI.getGenerativeModel({
+      model,
+      generationConfig: {
+        ...generationConfig,
+        responseMimeType: options?.json ? "application/json" : generationConfig.responseMimeType
+      },
+      safetySettings
+    });
+  }
+
+  private toContents(messages: ChatMessage[]): Content[] {
+    return messages.map((message) => ({
+      role: message.role === "assistant" ? "model" : "user",
+      parts: [{ text: message.content }]
+    }));
+  }
+
+  async generate(
+  model: string,
+  messages: ChatMessage[],
+  generationConfig: GenerationConfig,
+  options?: SendOptions)
+  : Promise<string> {
+    const result = await this.
+    getModel(model, generationConfig, options).
+    generateContent({ contents: this.toContents(messages) });
+    return result.response.text();
+  }
+
+  async *generateStream(
+  model: string,
+  messages: ChatMessage[],
+  generationConfig: GenerationConfig,
+  options?: SendOptions)
+  : AsyncGenerator<string> {
+    const result = await this.
+    getModel(model, generationConfig, options).
+    generateContentStream({ contents: this.toContents(messages) });
+    for await (const chunk of result.stream) {
+      yield chunk.text();
+    }
+  }
+}
+
+
+interface ChatCompletionResponse {
+  choices?: Array<{message?: {content?: string;};}>;
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{delta?: {content?: string;};}>;
+}
+
+/**
+ * Talks to any server implementing the OpenAI `/chat/completions` API.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: ProviderName = "openai";
+  readonly models: ModelConfig[];
+  protected baseUrl: string;
+  protected apiKey?: string;
+
+  constructor(options: {baseUrl: string;apiKey?: string;models: ModelConfig[];}) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.apiKey = options.apiKey;
+    this.models = options.models;
+  }
+
+  protected async request(
+  model: string,
+  messages: ChatMessage[],
+  generationConfig: GenerationConfig,
+  options: SendOptions & {stream?: boolean;} = {})
+  : Promise<Response> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model,
+        messages,
+        temperature: generationConfig.temperature,
+        top_p: generationConfig.topP,
+        max_tokens: generationConfig.maxOutputTokens,
+        stream: options.stream ?? false,
+        ...(options.json ? { response_format: { type: "json_object" } } : {})
+      })
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => "");
+      throw new ProviderHTTPError(this.name, response.status, body || response.statusText);
+    }
+
+    return response;
+  }
+
+  async generate(
+  model: string,
+  messages: ChatMessage[],
+  generationConfig: GenerationConfig,
+  options?: SendOptions)
+  : Promise<string> {
+    const response = await this.request(model, messages, generationConfig, options);
+    const data = (await response.json()) as ChatCompletionResponse;
+    return data.choices?.[0]?.message?.content ?? "";
+  }
+
+  /**
+   * Reads the server-sent event stream returned with `stream: true`.
+   */
+  async *generateStream(
+  model: string,
+  messages: ChatMessage[],
+  generationConfig: GenerationConfig,
+  options?: SendOptions)
+  : AsyncGenerator<string> {
+    const response = await this.request(model, messages, generationConfig, { ...options, stream: true });
+    if (!response.body) {
+      throw new ProviderHTTPError(this.name, 500, "Streaming response has no body");
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, "").trim();
+        if (!line.startsWith("data:") || !data) continue;
+        if (data === "[DONE]") return;
+
+        const chunk = JSON.parse(data) as ChatCompletionChunk;
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          yield delta;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Self-hosted model behind an OpenAI-compatible endpoint. Both Ollama
+ * (`http://localhost:11434/v1`) and the llama.cpp server
+ * (`http://localhost:8080/v1`) expose one, so no API key is required.
+ */
+export class LocalProvider extends OpenAICompatibleProvider {
+  readonly name: ProviderName = "local";
+
+  constructor(options: {baseUrl?: string;models: ModelConfig[];}) {
+    super({
+      baseUrl: options.baseUrl || "http://localhost:11434/v1",
+      models: options.models
+    });
+  }
+}
+
+
+const FIXTURE_CHUNK_SIZE = 16;
+
+export type FixtureResponder = (message: string, model: string, expected?: ExpectedResponse) => string;
+
+/**
+ * Builds a canned reply for the expected response so the app works
+ * end-to-end without network access: question requests get a question array
+ * in the requested type mix (or a single replacement question), rating
+ * requests get a 7 on every rubric criterion, follow-up requests decline,
+ * duplicate checks find no duplicates and everything else gets an
+ * acknowledgement.
+ */
+export const defaultFixtureResponder: FixtureResponder = (_message, _model, expected) => {
+  switch (expected?.kind) {
+    case "questions":
+      return JSON.stringify(
+        expected.types.map((type, i) => ({
+          question: `Fixture question ${i + 1}`,
+          answer: `Fixture answer ${i + 1}`,
+          type
+        }))
+      );
+
+    case "replacement-question":
+      return JSON.stringify({
+        question: "Fixture replacement question",
+        answer: "Fixture replacement answer",
+        type: expected.type
+      });
+
+    case "rubric-rating":
+      return JSON.stringify({
+        feedback: "Fixture feedback: add a concrete example to support your answer.",
+        criteria: expected.criteria.map((criterion) => ({
+          criterion,
+          score: 7,
+          evidence: [],
+          comment: `Fixture ${criterion} comment.`
+        }))
+      });
+
+    case "follow-up":
+      return JSON.stringify({ needed: false });
+
+    case "same-question":
+      return JSON.stringify({ same: Array.from({ length: expected.pairs }, () => false) });
+
+    default:
+      return "OK";
+  }
+};
+
+/**
+ * Deterministic provider for tests and offline CI runs. Responses come from
+ * the responder and are never random; `failures` can be used to simulate a
+ * model that errors before succeeding.
+ */
+export class FixtureProvider implements LLMProvider {
+  readonly name = "fixture" as const;
+  readonly models: ModelConfig[];
+  private responder: FixtureResponder;
+  private failures: Map<string, Error[]> = new Map();
+
+  constructor(
+  responder: FixtureResponder = defaultFixtureResponder,
+  models: ModelConfig[] = [{ model: "fixture", priority: 1 }])
+  {
+    this.responder = responder;
+    this.models = models;
+  }
+
+  setResponder(responder: FixtureResponder) {
+    this.responder = responder;
+  }
+
+  /**
+   * Queue errors to be thrown by the given model before it answers normally.
+   */
+  failNext(model: string, ...errors: Error[]) {
+    this.failures.set(model, [...(this.failures.get(model) || []), ...errors]);
+  }
+
+  private takeFailure(model: string) {
+    const pending = this.failures.get(model);
+    if (pending && pending.length > 0) {
+      throw pending.shift();
+    }
+  }
+
+  async generate(
+  model: string,
+  messages: ChatMessage[],
+  _generationConfig?: GenerationConfig,
+  options: SendOptions = {})
+  : Promise<string> {
+    this.takeFailure(model);
+    return this.responder(messages[messages.length - 1]?.content ?? "", model, options.expected);
+  }
+
+  async *generateStream(
+  model: string,
+  messages: ChatMessage[],
+  generationConfig?: GenerationConfig,
+  options: SendOptions = {})
+  : AsyncGenerator<string> {
+    const text = await this.generate(model, messages, generationConfig, options);
+    for (let i = 0; i < text.length; i += FIXTURE_CHUNK_SIZE) {
+      yield text.slice(i, i + FIXTURE_CHUNK_SIZE);
+    }
+  }
+}
+
+
+/**
+ * Pick the provider from `VITE_LLM_PROVIDER` (defaults to Gemini).
+ */
+export const createProviderFromEnv = (env: ImportMetaEnv = import.meta.env): LLMProvider => {
+  const providerName = (env.VITE_LLM_PROVIDER || "gemini").toLowerCase() as ProviderName;
+
+  switch (providerName) {
+    case "openai":
+      return new OpenAICompatibleProvider({
+        baseUrl: env.VITE_OPENAI_BASE_URL || "https://api.openai.com/v1",
+        apiKey: env.VITE_OPENAI_API_KEY,
+        models: parseModelList(env.VITE_OPENAI_MODELS, ["gpt-4o-mini", "gpt-4o"])
+      });
+    case "local":
+      return new LocalProvider({
+        baseUrl: env.VITE_LOCAL_LLM_BASE_URL,
+        models: parseModelList(env.VITE_LOCAL_LLM_MODELS, ["llama3.1"])
+      });
+    case "fixture":
+      return new FixtureProvider();
+    case "gemini":
+      return new GeminiProvider(env.VITE_GEMINI_API_KEY!);
+    default:
+      console.warn(`Unknown LLM provider "${providerName}", falling back to Gemini`);
+      return new GeminiProvider(env.VITE_GEMINI_API_KEY!);
+  }
+};
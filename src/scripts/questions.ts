@@ -0,0 +1,110 @@
+import { CVData, QuestionDifficulty, QuestionType } from "@/types";
+import {
+  countQuestionTypes,
+  DIFFICULTY_GUIDANCE,
+  QUESTION_TYPE_GUIDANCE,
+  QUESTION_TYPE_LABELS } from
+"@/lib/question-types";
+import {
+  createQuestionSetSchema,
+  generateStructured,
+  GeneratedQuestion,
+  questionSchema } from
+"./structured";
+
+/**
+ * Interview question generation, for a whole set or a single replacement.
+ */
+
+export interface QuestionRequest {
+  position: string;
+  description: string;
+  experience: number;
+  techStack: string;
+  difficulty: QuestionDifficulty;
+  cvData?: CVData | null;
+  /** Questions already in the interview, which must not be repeated. */
+  avoid?: string[];
+}
+
+const describeJob = ({ position, description, experience, techStack, cvData }: QuestionRequest) => `
+    Job Information:
+    - Job Position: ${position}
+    - Job Description: ${description}
+    - Years of Experience Required: ${experience}
+    - Tech Stacks: ${techStack}
+    ${cvData ? `
+    Candidate CV Text:
+    ${cvData.rawText}
+    ` : ''}`;
+
+const describeType = (type: QuestionType) =>
+`"${type}" (${QUESTION_TYPE_LABELS[type]}): ${QUESTION_TYPE_GUIDANCE[type]}`;
+
+const describeAvoid = (avoid: string[] = []) => avoid.length > 0 ? `
+    Do not repeat or rephrase any of these questions, which are already in the interview:
+    ${avoid.map((question) => `- ${question}`).join("\n")}
+    ` : '';
+
+/**
+ * One question per entry of `mix`, each of that type and pitched at the
+ * request's difficulty. The reply is rejected until the mix matches.
+ */
+export const generateQuestions = async (
+request: QuestionRequest,
+mix: QuestionType[],
+onText?: (text: string) => void)
+: Promise<GeneratedQuestion[]> => {
+  const counts = Object.entries(countQuestionTypes(mix)) as Array<[QuestionType, number]>;
+  const prompt = `
+    As an experienced interviewer, generate a JSON object containing ${mix.length} interview questions along with detailed answers based on the following job information. Each entry in the "questions" array should have the fields "question", "answer", "type", "topic" (a short name for the concept it tests) and "difficulty", formatted as follows:
+
+    {
+      "questions": [
+        { "question": "<Question text>", "answer": "<Answer text>", "type": "<Type>", "topic": "<Topic>", "difficulty": "${request.difficulty}" },
+        ...
+      ]
+    }
+
+    Include exactly this many questions of each type:
+    ${counts.map(([type, count]) => `- ${count} x ${describeType(type)}`).join("\n")}
+
+    Every question must be "${request.difficulty}" difficulty, ${DIFFICULTY_GUIDANCE[request.difficulty]}.
+    ${describeJob(request)}
+    ${describeAvoid(request.avoid)}
+    Technical questions should assess skills in ${request.techStack} development and best practices, problem-solving, and experience handling complex requirements. Return only the JSON object, without any additional labels, code blocks, or explanations.
+  `;
+
+  const questions = await generateStructured(
+    prompt,
+    createQuestionSetSchema(mix.length, mix),
+    { operation: "questionGeneration", expected: { kind: "questions", types: mix }, onText }
+  );
+  return questions.map((item) => ({ ...item, difficulty: request.difficulty }));
+};
+
+/**
+ * A single new question of the same type to replace `replacing`, different
+ * from it and from everything else in the interview.
+ */
+export const regenerateQuestion = async (
+request: QuestionRequest,
+replacing: string,
+type: QuestionType)
+: Promise<GeneratedQuestion> => {
+  const prompt = `
+    You are preparing an interview. Write one new interview question with a detailed answer to replace this one: "${replacing}"
+    The new question should test something different. It must be of type ${describeType(type)}.
+    It must be "${request.difficulty}" difficulty, ${DIFFICULTY_GUIDANCE[request.difficulty]}.
+    ${describeJob(request)}
+    ${describeAvoid(request.avoid)}
+    Return only a JSON object:
+    { "question": "<Question text>", "answer": "<Answer text>", "type": "${type}", "topic": "<Topic>", "difficulty": "${request.difficulty}" }
+  `;
+
+  const question = await generateStructured(prompt, questionSchema, {
+    operation: "questionGeneration",
+    expected: { kind: "replacement-question", type }
+  });
+  return { ...question, type, difficulty: request.difficulty };
+};
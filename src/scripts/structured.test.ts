@@ -0,0 +1,130 @@
+import {
+  answerRatingSchema,
+  createQuestionSetSchema,
+  extractPartialStringField,
+  generateStructured,
+  parseJsonText,
+  parsePartialQuestions,
+  StructuredResponseError
+} from './structured';
+
+// The real chat session reads provider settings from import.meta.env
+jest.mock('@/scripts', () => ({
+  chatSession: {}
+}));
+
+const createSession = (responses: string[]) => {
+  const prompts: string[] = [];
+  const reply = (message: string) => {
+    prompts.push(message);
+    const text = responses.shift() ?? '';
+    return Promise.resolve({ response: { text: () => text } });
+  };
+
+  return {
+    prompts,
+    session: {
+      sendMessage: jest.fn(reply),
+      sendMessageStream: jest.fn(reply)
+    }
+  };
+};
+
+describe('parseJsonText', () => {
+  test('should keep the word "json" and backticks inside values', () => {
+    const text = JSON.stringify({ feedback: 'Return `json` from the API' });
+    expect(parseJsonText(text)).toEqual({ feedback: 'Return `json` from the API' });
+  });
+
+  test('should unwrap a fenced code block', () => {
+    expect(parseJsonText('```json\n{"ratings": 8, "feedback": "ok"}\n```')).toEqual({
+      ratings: 8,
+      feedback: 'ok'
+    });
+  });
+
+  test('should throw on non-JSON text', () => {
+    expect(() => parseJsonText('Sure! Here are your questions')).toThrow(SyntaxError);
+  });
+});
+
+describe('Schemas', () => {
+  test('should accept bare and wrapped question arrays', () => {
+    const schema = createQuestionSetSchema(1);
+    const question = { question: 'What is React?', answer: 'A UI library' };
+
+    expect(schema.parse([question])).toEqual([question]);
+    expect(schema.parse({ questions: [question] })).toEqual([question]);
+  });
+
+  test('should reject the wrong number of questions', () => {
+    const result = createQuestionSetSchema(2).safeParse([{ question: 'q', answer: 'a' }]);
+    expect(result.success).toBe(false);
+  });
+
+  test('should require the requested mix of question types', () => {
+    const schema = createQuestionSetSchema(2, ['behavioral', 'debugging']);
+    const behavioral = { question: 'Tell me about a conflict.', answer: 'STAR', type: 'Behavioral' };
+
+    expect(schema.parse([behavioral, { ...behavioral, type: 'debugging' }])[0].type).toBe('behavioral');
+    expect(schema.safeParse([behavioral, behavioral]).success).toBe(false);
+  });
+
+  test('should reject ratings out of range', () => {
+    expect(answerRatingSchema.safeParse({ ratings: 11, feedback: 'x' }).success).toBe(false);
+  });
+});
+
+describe('generateStructured', () => {
+  test('should re-ask with the validation error on invalid output', async () => {
+    const { session, prompts } = createSession([
+      '{"ratings": 0}',
+      '{"ratings": 6, "feedback": "Mention trade-offs"}'
+    ]);
+
+    const result = await generateStructured('Rate this', answerRatingSchema, { session });
+
+    expect(result).toEqual({ ratings: 6, feedback: 'Mention trade-offs' });
+    expect(prompts).toHaveLength(2);
+    expect(prompts[1]).toContain('feedback');
+    expect(session.sendMessage).toHaveBeenCalledWith(expect.any(String), { json: true, operation: undefined });
+  });
+
+  test('should throw after exhausting attempts', async () => {
+    const { session } = createSession(['nope', 'nope']);
+
+    await expect(
+      generateStructured('Rate this', answerRatingSchema, { session, maxAttempts: 2 })
+    ).rejects.toBeInstanceOf(StructuredResponseError);
+  });
+
+  test('should stream when onText is provided', async () => {
+    const { session } = createSession(['{"ratings": 9, "feedback": "Great"}']);
+    const onText = jest.fn();
+
+    await generateStructured('Rate this', answerRatingSchema, { session, onText });
+
+    expect(session.sendMessageStream).toHaveBeenCalledWith(expect.any(String), { json: true, onText, operation: undefined });
+  });
+});
+
+describe('Partial parsing', () => {
+  const full = JSON.stringify({
+    questions: [
+      { question: 'Explain "closures" {briefly}', answer: 'Functions capturing scope' },
+      { question: 'What is a Promise?', answer: 'An async value' }
+    ]
+  });
+
+  test('should return only complete questions', () => {
+    const cut = full.indexOf('What is');
+    expect(parsePartialQuestions(full.slice(0, cut))).toHaveLength(1);
+    expect(parsePartialQuestions(full)).toHaveLength(2);
+  });
+
+  test('should read an unterminated string field', () => {
+    expect(extractPartialStringField('{"ratings": 7, "feedback": "Use \\"STAR\\" and', 'feedback'))
+      .toBe('Use "STAR" and');
+    expect(extractPartialStringField('{"ratings": 7', 'feedback')).toBeNull();
+  });
+});
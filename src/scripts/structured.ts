@@ -0,0 +1,244 @@
+import { z } from "zod";
+import { chatSession } from "@/scripts";
+import { QuestionType, RubricCriterion } from "@/types";
+import { countQuestionTypes, DIFFICULTIES, QUESTION_TYPES } from "@/lib/question-types";
+import { RUBRIC_CRITERIA } from "@/lib/rubrics";
+import { ExpectedResponse } from "./providers";
+
+/**
+ * Schema-validated AI responses.
+ *
+ * Prompts are sent in JSON mode, the reply is parsed and checked against a
+ * zod schema, and on failure the model is re-asked with the validation error
+ * so it can correct its own output.
+ */
+
+export const questionSchema = z.object({
+  question: z.string().trim().min(1, "question must not be empty"),
+  answer: z.string().trim().min(1, "answer must not be empty"),
+  topic: z.string().trim().min(1).optional(),
+  type: z.string().trim().toLowerCase().pipe(z.enum(QUESTION_TYPES)).optional(),
+  difficulty: z.string().trim().toLowerCase().pipe(z.enum(DIFFICULTIES)).optional()
+});
+
+/**
+ * Question sets may come back either as a bare array or wrapped in
+ * `{ "questions": [...] }` (JSON mode on some providers only allows objects).
+ * With `types`, the set must contain exactly that many questions of each type.
+ */
+export const createQuestionSetSchema = (count?: number, types?: QuestionType[]) => {
+  const sized = count ?
+  z.array(questionSchema).length(count, `expected exactly ${count} questions`) :
+  z.array(questionSchema).min(1, "expected at least one question");
+
+  const questions = types ?
+  sized.superRefine((items, ctx) => {
+    const actual = countQuestionTypes(items.flatMap((item) => item.type ? [item.type] : []));
+    Object.entries(countQuestionTypes(types)).forEach(([type, expected]) => {
+      const found = actual[type as QuestionType] ?? 0;
+      if (found !== expected) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `expected ${expected} questions of type "${type}", got ${found}`
+        });
+      }
+    });
+  }) :
+  sized;
+
+  return z.preprocess(
+    (value) =>
+    value && typeof value === "object" && !Array.isArray(value) && "questions" in value ?
+    (value as {questions: unknown;}).questions :
+    value,
+    questions
+  );
+};
+
+export const answerRatingSchema = z.object({
+  ratings: z.coerce.number().min(1).max(10),
+  feedback: z.string().trim().min(1, "feedback must not be empty")
+});
+
+/**
+ * A score for each of `criteria`, exactly once each, plus an overall tip.
+ */
+export const createRubricRatingSchema = (criteria: RubricCriterion[]) =>
+z.object({
+  feedback: z.string().trim().min(1, "feedback must not be empty"),
+  criteria: z.array(z.object({
+    criterion: z.string().trim().toLowerCase().pipe(z.enum(RUBRIC_CRITERIA)),
+    score: z.coerce.number().min(1).max(10),
+    evidence: z.array(z.string().trim()).default([]),
+    comment: z.string().trim().min(1, "comment must not be empty")
+  })).superRefine((items, ctx) => {
+    criteria.forEach((criterion) => {
+      const found = items.filter((item) => item.criterion === criterion).length;
+      if (found !== 1) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `expected exactly one score for "${criterion}", got ${found}`
+        });
+      }
+    });
+  })
+});
+
+export type GeneratedQuestion = z.infer<typeof questionSchema>;
+export type AnswerRating = z.infer<typeof answerRatingSchema>;
+
+export class StructuredResponseError extends Error {
+  issues: string[];
+  rawText: string;
+
+  constructor(message: string, issues: string[], rawText: string) {
+    super(message);
+    this.name = "StructuredResponseError";
+    this.issues = issues;
+    this.rawText = rawText;
+  }
+}
+
+/**
+ * Parse model output as JSON. Plain JSON is tried first; if the model still
+ * wrapped it in a Markdown code fence, only the fence body is used, so the
+ * content itself (which may mention "json" or contain backticks) is never
+ * rewritten.
+ */
+export const parseJsonText = (text: string): unknown => {
+  const trimmed = text.trim();
+
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    const fenced = trimmed.match(/^```[a-zA-Z]*\s*\n([\s\S]*?)\n?```$/);
+    if (fenced) {
+      return JSON.parse(fenced[1]);
+    }
+    throw new SyntaxError(`Response is not valid JSON: ${trimmed.slice(0, 80)}`);
+  }
+};
+
+const formatIssues = (error: z.ZodError): string[] =>
+error.issues.map((issue) =>
+issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+);
+
+interface StructuredOptions {
+  /** Total number of attempts including the first request. */
+  maxAttempts?: number;
+  /** Stream the response and report the raw text as it arrives. */
+  onText?: (text: string) => void;
+  /** Label used for quota tracking. */
+  operation?: string;
+  expected?: ExpectedResponse;
+  session?: Pick<typeof chatSession, "sendMessage" | "sendMessageStream">;
+}
+
+/**
+ * Send a prompt and return its validated JSON payload.
+ */
+export const generateStructured = async <T,>(
+prompt: string,
+schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+{ maxAttempts = 3, onText, operation, expected, session = chatSession }: StructuredOptions = {})
+: Promise<T> => {
+  let message = prompt;
+  let issues: string[] = [];
+  let rawText = "";
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const result = onText ?
+    await session.sendMessageStream(message, { json: true, onText, operation, ...(expected ? { expected } : {}) }) :
+    await session.sendMessage(message, { json: true, operation, ...(expected ? { expected } : {}) });
+    rawText = result.response.text();
+
+    try {
+      const parsed = schema.safeParse(parseJsonText(rawText));
+      if (parsed.success) {
+        return parsed.data;
+      }
+      issues = formatIssues(parsed.error);
+    } catch (error) {
+      issues = [(error as Error).message];
+    }
+
+    console.warn(`Structured response attempt ${attempt} failed validation:`, issues);
+
+    message = `
+      ${prompt}
+
+      Your previous response was rejected because it did not match the required JSON format.
+      Previous response:
+      ${rawText}
+
+      Validation errors:
+      ${issues.map((issue) => `- ${issue}`).join("\n")}
+
+      Return only corrected JSON that fixes these errors, with no explanations or code fences.
+    `;
+  }
+
+  throw new StructuredResponseError(
+    `AI response failed validation after ${maxAttempts} attempts: ${issues.join("; ")}`,
+    issues,
+    rawText
+  );
+};
+
+
+/**
+ * Pull every complete question object out of a partially streamed response,
+ * so questions can be shown while the rest of the set is still generating.
+ */
+export const parsePartialQuestions = (text: string): GeneratedQuestion[] => {
+  const questions: GeneratedQuestion[] = [];
+  const starts: number[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) escaped = false;else
+      if (char === "\\") escaped = true;else
+      if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === "{") {
+      starts.push(i);
+    } else if (char === "}" && starts.length > 0) {
+      const start = starts.pop()!;
+      try {
+        const parsed = questionSchema.safeParse(JSON.parse(text.slice(start, i + 1)));
+        if (parsed.success) {
+          questions.push(parsed.data);
+        }
+      } catch {
+        // Not a standalone object yet; keep scanning.
+      }
+    }
+  }
+
+  return questions;
+};
+
+/**
+ * Read the (possibly unterminated) value of a string field from partial JSON.
+ */
+export const extractPartialStringField = (text: string, field: string): string | null => {
+  const match = text.match(new RegExp(`"${field}"\\s*:\\s*"((?:[^"\\\\]|\\\\.)*)`));
+  if (!match) return null;
+
+  // Drop a dangling escape so the fragment can be decoded as a JSON string.
+  const fragment = match[1].replace(/\\$/, "");
+  try {
+    return JSON.parse(`"${fragment}"`);
+  } catch {
+    return fragment;
+  }
+};
@@ -14,6 +14,36 @@ export interface CVData {
   timestamp: string;
 }
 
+export type QuestionDifficulty = "easy" | "medium" | "hard";
+
+export type QuestionType =
+"behavioral" |
+"system-design" |
+"coding-concept" |
+"debugging" |
+"culture-fit";
+
+export interface InterviewQuestion {
+  question: string;
+  answer: string;
+  topic?: string;
+  type?: QuestionType;
+  difficulty?: QuestionDifficulty;
+  /** The question bank entry it came from or was saved as. */
+  bankId?: string;
+  /** Kept as-is when the rest of the set is regenerated. */
+  locked?: boolean;
+}
+
+export type FollowUpKind = "drill-down" | "clarification" | "scale";
+
+export interface FollowUpQuestion extends InterviewQuestion {
+  id: string;
+  parentQuestion: string;
+  kind: FollowUpKind;
+  depth: number;
+}
+
 export interface Interview {
   id: string;
   position: string;
@@ -23,13 +53,58 @@ export interface Interview {
   techStack: string;
   numberOfQuestions: number;
   cvData?: CVData;
-  questions: {question: string;answer: string;}[];
+  questions: InterviewQuestion[];
+  maxFollowUpDepth?: number;
+  /** How many of the questions to draw from the question bank. */
+  bankQuestions?: number;
+  /** Question types to mix, spread evenly over the questions. */
+  questionTypes?: QuestionType[];
+  /** Pitch of the questions; "auto" derives it from `experience`. */
+  difficulty?: QuestionDifficulty | "auto";
+  /** Independent ratings taken per answer; more than 1 is self-consistency scoring. */
+  ratingSamples?: number;
+  /** Time limits; untimed when missing or null. */
+  timing?: InterviewTiming | null;
+  followUps?: FollowUpQuestion[];
   createdAt: Timestamp;
   updateAt: Timestamp;
 }
 
+/** Time limits of a timed interview, in seconds. */
+export interface InterviewTiming {
+  /** Time to read and think before recording starts on its own. */
+  thinkSeconds: number;
+  /** Longest answer; recording then stops and the answer is scored. */
+  answerSeconds: number;
+  /** Budget for the whole interview, 0 for none. */
+  totalSeconds: number;
+}
+
+/** How an answer in a timed interview used its time, in seconds. */
+export interface AnswerTiming {
+  thinkSeconds: number;
+  answerSeconds: number;
+  thinkLimit: number;
+  /** The answer limit, or less when the interview budget was running out. */
+  answerLimit: number;
+  /** Recording started because the think time ran out. */
+  thinkTimeExpired: boolean;
+  /** Recording was stopped by the time limit. */
+  timedOut: boolean;
+}
+
 export interface ToneAnalysis {
+  /** Median pitch mapped onto 0-100 within the typical speaking range. */
   pitch: number;
+  /** Median fundamental frequency in Hz. */
+  pitchHz?: number;
+  /** Standard deviation of pitch in semitones. */
+  pitchVariance?: number;
+  monotone?: boolean;
+  pitchTimeline?: Array<{
+    timestamp: number;
+    pitchHz: number | null;
+  }>;
   speed: number;
   confidence: "confident" | "hesitant" | "authoritative" | "nervous" | "enthusiastic";
   feedback: string;
@@ -53,10 +128,15 @@ export interface GestureAnalysis {
   feedback: string;
 }
 
+export type StressModality = "face" | "voice" | "posture" | "eyes";
+
 export interface StressAnalysis {
   stress: boolean;
   confidence: number;
+  /** Observed stress cues, prefixed with their modality ("voice: pitch jitter"). */
   features: string[];
+  /** Share of the stress score from each modality that was available, 0-1. */
+  contributions?: Partial<Record<StressModality, number>>;
   timeline: Array<{
     stress: boolean;
     confidence: number;
@@ -65,6 +145,78 @@ export interface StressAnalysis {
   feedback: string;
 }
 
+export type GazeDirection = "left" | "right" | "up" | "down" | "offscreen";
+
+export interface EyeContactAnalysis {
+  /** Share of the answer spent facing the camera, 0-100. */
+  eyeContactPercentage: number;
+  /** Stretches of at least a second facing away. Directions are from the candidate's point of view. */
+  lookAwayEvents: Array<{
+    timestamp: number;
+    duration: number;
+    direction: GazeDirection;
+  }>;
+  /** Whether the answer looked read off the screen rather than spoken. */
+  readingDetected: boolean;
+  /** Share of the answer with reading-like eye movement, 0-100. */
+  readingPercentage: number;
+  /** Eye contact per second, 0-100. */
+  timeline: Array<{
+    timestamp: number;
+    eyeContact: number;
+  }>;
+  feedback: string;
+}
+
+export interface FluencyAnalysis {
+  /** Words per minute across the whole answer. */
+  averageWpm: number;
+  wpmTimeline: Array<{
+    timestamp: number;
+    wpm: number;
+  }>;
+  fillerWords: Array<{
+    word: string;
+    count: number;
+  }>;
+  fillerCount: number;
+  /** Filler words per 100 words. */
+  fillerRate: number;
+  longPauses: Array<{
+    timestamp: number;
+    duration: number;
+  }>;
+  restarts: number;
+  feedback: string;
+}
+
+export type RubricCriterion =
+"correctness" |
+"depth" |
+"structure" |
+"communication" |
+"relevance";
+
+export interface RubricScore {
+  criterion: RubricCriterion;
+  /** 1-10. */
+  score: number;
+  /** How much the criterion counts towards the overall rating, 0-1. */
+  weight: number;
+  /** Verbatim quotes from the transcript that justify the score. */
+  evidence: string[];
+  comment: string;
+}
+
+export interface RatingConsistency {
+  /** Overall rating of each sample. */
+  samples: number[];
+  /** Standard deviation of the sampled ratings. */
+  spread: number;
+  /** 0-1, lower the more the samples disagree. */
+  confidence: number;
+}
+
 export interface UserAnswer {
   id: string;
   mockIdRef: string;
@@ -81,5 +233,18 @@ export interface UserAnswer {
   emotionAnalysis?: EmotionAnalysis;
   gestureAnalysis?: GestureAnalysis;
   stressAnalysis?: StressAnalysis;
+  fluencyAnalysis?: FluencyAnalysis;
+  eyeContactAnalysis?: EyeContactAnalysis;
   cvData?: CVData;
+
+  questionType?: QuestionType;
+  /** Per-criterion scores; `rating` is their weighted mean. */
+  rubric?: RubricScore[];
+  ratingConsistency?: RatingConsistency;
+  /** Per interview and question, from 1; missing on answers saved before retries. */
+  attempt?: number;
+  timing?: AnswerTiming;
+
+  parentQuestion?: string;
+  followUpDepth?: number;
 }
\ No newline at end of file
@@ -1 +1,11 @@
-/// <reference types="vite/client" />
\ No newline at end of file
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_LLM_PROVIDER?: string;
+  readonly VITE_GEMINI_API_KEY?: string;
+  readonly VITE_OPENAI_BASE_URL?: string;
+  readonly VITE_OPENAI_API_KEY?: string;
+  readonly VITE_OPENAI_MODELS?: string;
+  readonly VITE_LOCAL_LLM_BASE_URL?: string;
+  readonly VITE_LOCAL_LLM_MODELS?: string;
+}
@@ -0,0 +1,127 @@
+import { createHash } from "crypto";
+import fs from "fs";
+import { createRequire } from "module";
+import path from "path";
+import type { Plugin } from "vite";
+
+/**
+ * Serves MediaPipe Pose from the app instead of a CDN and writes the model
+ * manifest (see src/lib/analysis/models.ts).
+ *
+ * Pose files are copied from node_modules/@mediapipe/pose to
+ * /models/mediapipe/pose, next to the face-api weights in public/models.
+ * /models/manifest.json lists every model file with its SHA-256 and a
+ * version derived from all of them. Files marked `precache` are the ones
+ * analysis actually loads; the service worker caches those on install.
+ */
+
+const POSE_URL = "/models/mediapipe/pose";
+const MANIFEST_URL = "/models/manifest.json";
+
+// Everything Pose loads at modelComplexity 1 (lite and heavy are left out)
+const POSE_FILES = [
+  "pose_solution_packed_assets_loader.js",
+  "pose_solution_packed_assets.data",
+  "pose_solution_simd_wasm_bin.js",
+  "pose_solution_simd_wasm_bin.wasm",
+  "pose_solution_simd_wasm_bin.data",
+  "pose_solution_wasm_bin.js",
+  "pose_solution_wasm_bin.wasm",
+  "pose_web.binarypb",
+  "pose_landmark_full.tflite",
+];
+
+// face-api models loaded by loadFaceModels
+const PRECACHED_FACE_MODELS = [
+  "tiny_face_detector_model",
+  "face_landmark_68_model",
+  "face_landmark_68_tiny_model",
+  "face_expression_model",
+];
+
+interface ManifestEntry {
+  sha256: string;
+  size: number;
+  precache?: boolean;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".js": "text/javascript",
+  ".wasm": "application/wasm",
+};
+
+export const modelAssets = (): Plugin => {
+  const require = createRequire(import.meta.url);
+  const poseDir = path.dirname(require.resolve("@mediapipe/pose/package.json"));
+  let publicModelsDir = "";
+
+  const poseFiles = () =>
+    POSE_FILES.map((file) => ({ url: `${POSE_URL}/${file}`, source: path.join(poseDir, file), precache: true }));
+
+  const faceFiles = () =>
+    fs.readdirSync(publicModelsDir).
+      filter((file) => fs.statSync(path.join(publicModelsDir, file)).isFile() && file !== "manifest.json").
+      map((file) => ({
+        url: `/models/${file}`,
+        source: path.join(publicModelsDir, file),
+        precache: PRECACHED_FACE_MODELS.some((model) => file.startsWith(`${model}-`)),
+      }));
+
+  const buildManifest = () => {
+    const files: Record<string, ManifestEntry> = {};
+    [...faceFiles(), ...poseFiles()].
+      sort((a, b) => a.url.localeCompare(b.url)).
+      forEach(({ url, source, precache }) => {
+        const data = fs.readFileSync(source);
+        files[url] = {
+          sha256: createHash("sha256").update(data).digest("hex"),
+          size: data.length,
+          ...(precache ? { precache } : {}),
+        };
+      });
+
+    const version = createHash("sha256").
+      update(Object.entries(files).map(([url, entry]) => `${url}:${entry.sha256}`).join("\n")).
+      digest("hex").
+      slice(0, 12);
+    return { version, files };
+  };
+
+  return {
+    name: "model-assets",
+
+    configResolved(config) {
+      publicModelsDir = path.join(config.publicDir, "models");
+    },
+
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        const url = req.url?.split("?")[0];
+        if (url === MANIFEST_URL) {
+          res.setHeader("Content-Type", "application/json");
+          res.end(JSON.stringify(buildManifest()));
+          return;
+        }
+
+        const file = poseFiles().find((entry) => entry.url === url);
+        if (!file) {
+          next();
+          return;
+        }
+        res.setHeader("Content-Type", CONTENT_TYPES[path.extname(file.source)] ?? "application/octet-stream");
+        fs.createReadStream(file.source).pipe(res);
+      });
+    },
+
+    generateBundle() {
+      poseFiles().forEach(({ url, source }) => {
+        this.emitFile({ type: "asset", fileName: url.slice(1), source: fs.readFileSync(source) });
+      });
+      this.emitFile({
+        type: "asset",
+        fileName: MANIFEST_URL.slice(1),
+        source: JSON.stringify(buildManifest(), null, 2),
+      });
+    },
+  };
+};
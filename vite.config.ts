@@ -1,10 +1,11 @@
 import path from "path";
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
+import { modelAssets } from "./vite-plugins/model-assets";
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), modelAssets()],
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
@@ -13,6 +14,10 @@ export default defineConfig({
   define: {
     'process.env.NODE_ENV': JSON.stringify(process.env.NODE_ENV),
   },
+  // The inference worker must be a classic script, see src/lib/analysis/inference.ts
+  worker: {
+    format: 'iife'
+  },
   optimizeDeps: {
     include: ['pdfjs-dist/build/pdf.worker.mjs']
   }